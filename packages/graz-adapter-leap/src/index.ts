@@ -107,4 +107,17 @@ export class LeapAdapter implements GrazAdapter {
       throw error;
     }
   }
+
+  async signArbitrary(chainId: string, signer: string, data: string | Uint8Array) {
+    try {
+      const isAvailable = this.checkConnector();
+      if (!isAvailable) {
+        throw new Error("Leap is not available");
+      }
+      return await this.getConnector().signArbitrary(chainId, signer, data);
+    } catch (error) {
+      console.error(error);
+      throw error;
+    }
+  }
 }
@@ -1,4 +1,5 @@
-import type { ChainInfo, KeyInfo, OfflineAminoSigner, OfflineDirectSigner } from "@vectis/extension-client";
+import type { ChainInfo } from "@keplr-wallet/types";
+import type { KeyInfo, OfflineAminoSigner, OfflineDirectSigner } from "@vectis/extension-client";
 import type { AccountData, GrazAdapter } from "graz";
 
 export class VectisAdapter implements GrazAdapter {
@@ -32,7 +33,15 @@ export class VectisAdapter implements GrazAdapter {
 
   async experimentalSuggestChain(chainInfo: ChainInfo) {
     try {
-      await this.getConnector().suggestChains([chainInfo]);
+      await this.getConnector().suggestChains([
+        {
+          ...chainInfo,
+          rpcUrl: chainInfo.rpc,
+          restUrl: chainInfo.rest,
+          prettyName: chainInfo.chainName.replace(" ", ""),
+          bech32Prefix: chainInfo.bech32Config.bech32PrefixAccAddr,
+        },
+      ]);
     } catch (error) {
       console.error(error);
       throw error;
@@ -95,4 +104,14 @@ export class VectisAdapter implements GrazAdapter {
       throw error;
     }
   }
+
+  async signArbitrary(chainId: string, signer: string, data: string | Uint8Array) {
+    try {
+      const { signature } = await this.getConnector().signArbitrary(chainId, signer, data);
+      return signature;
+    } catch (error) {
+      console.error(error);
+      throw error;
+    }
+  }
 }
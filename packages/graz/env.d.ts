@@ -3,8 +3,12 @@ type VectisWindow = import("@vectis/extension-client").VectisWindow;
 
 declare interface Window extends KeplrWindow {
   leap: KeplrWindow["keplr"];
-  cosmostation: {
+  cosmostation?: {
     cosmos: {
+      /**
+       * native cosmos provider api, not available on older extension versions
+       */
+      request?: <T = unknown>(args: { method: string; params?: unknown }) => Promise<T>;
       on: (type: string, listener: EventListenerOrEventListenerObject) => void;
       off: (type: string, listener: EventListenerOrEventListenerObject) => void;
     };
@@ -13,4 +17,8 @@ declare interface Window extends KeplrWindow {
     };
   };
   vectis: VectisWindow["vectis"];
+  ethereum?: {
+    isMetaMask?: boolean;
+    request: <T = unknown>(args: { method: string; params?: unknown }) => Promise<T>;
+  };
 }
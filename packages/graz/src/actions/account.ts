@@ -4,28 +4,113 @@ import type { Key } from "@keplr-wallet/types";
 
 import type { GrazChain } from "../chains";
 import { RECONNECT_SESSION_KEY } from "../constant";
-import { grazSessionDefaultValues, useGrazInternalStore, useGrazSessionStore } from "../store";
+import type { GrazChainSession } from "../store";
+import { grazSessionDefaultValues, selectChainSession, useGrazInternalStore, useGrazSessionStore } from "../store";
+import { emitGrazEvent } from "../store/events";
 import type { Maybe } from "../types/core";
-import type { WalletType } from "../types/wallet";
+import type { Wallet, WalletId } from "../types/wallet";
 import { createClients, createSigningClients } from "./clients";
 import { checkWallet, getWallet } from "./wallet";
 
 export type ConnectArgs = Maybe<{
   chain?: GrazChain;
+  /**
+   * additional chains to connect simultaneously, `chain` (or the first given chain) will be the active chain
+   */
+  chains?: GrazChain[];
   signerOpts?: SigningCosmWasmClientOptions;
-  walletType?: WalletType;
+  walletType?: WalletId;
   autoReconnect?: boolean;
 }>;
 
 export interface ConnectResult {
   account: Key;
-  walletType: WalletType;
+  /**
+   * connected accounts keyed by chain id
+   */
+  accounts: Record<string, Key>;
+  walletType: WalletId;
   chain: GrazChain;
 }
 
+/**
+ * Function to return connected session of given chain id, defaults to the active chain session.
+ *
+ * @example
+ * ```ts
+ * const { account, signingClients } = getChainSession("juno-1");
+ * ```
+ */
+export const getChainSession = (chainId?: string): GrazChainSession => {
+  return selectChainSession(useGrazSessionStore.getState(), chainId);
+};
+
+const createChainSession = async (
+  wallet: Wallet,
+  chain: GrazChain,
+  signerOpts?: SigningCosmWasmClientOptions,
+): Promise<GrazChainSession> => {
+  const { account: _account, activeChain } = useGrazSessionStore.getState();
+  let account = _account;
+  if (!account || activeChain?.chainId !== chain.chainId) {
+    await wallet.enable(chain.chainId);
+    account = await wallet.getKey(chain.chainId);
+  }
+
+  const offlineSigner = wallet.getOfflineSigner(chain.chainId);
+  const offlineSignerAmino = wallet.getOfflineSignerOnlyAmino(chain.chainId);
+  const offlineSignerAuto = await wallet.getOfflineSignerAuto(chain.chainId);
+  const gasPrice = chain.gas ? GasPrice.fromString(`${chain.gas.price}${chain.gas.denom}`) : undefined;
+  const { _clientsFactory } = useGrazInternalStore.getState();
+  const [clients, signingClients] = await Promise.all(
+    _clientsFactory
+      ? ([
+          _clientsFactory.createClients(chain),
+          _clientsFactory.createSigningClients(chain, offlineSignerAuto),
+        ] as const)
+      : ([
+          createClients(chain),
+          createSigningClients({
+            ...chain,
+            offlineSignerAuto,
+            cosmWasmSignerOptions: { gasPrice, ...(signerOpts || {}) },
+          }),
+        ] as const),
+  );
+
+  return {
+    account,
+    chain,
+    clients,
+    offlineSigner,
+    offlineSignerAmino,
+    offlineSignerAuto,
+    signingClients,
+  };
+};
+
+let walletSubscription: { walletType: WalletId; signClient: unknown; unsubscribe: () => void } | null = null;
+
+const unsubscribeWallet = () => {
+  walletSubscription?.unsubscribe();
+  walletSubscription = null;
+};
+
+// listen to account changes of the connected wallet, once per wallet (and walletconnect sign client)
+const subscribeWallet = (wallet: Wallet, walletType: WalletId) => {
+  const signClient = useGrazSessionStore.getState().wcSignClient;
+  if (walletSubscription?.walletType === walletType && walletSubscription.signClient === signClient) return;
+  unsubscribeWallet();
+  const unsubscribe = wallet.subscription?.(() => {
+    emitGrazEvent("accountChanged", { walletType });
+    void reconnect({ onError: useGrazInternalStore.getState()._onReconnectFailed });
+  });
+  walletSubscription = { walletType, signClient, unsubscribe: unsubscribe || (() => undefined) };
+};
+
 export const connect = async (args?: ConnectArgs): Promise<ConnectResult> => {
   try {
-    const { defaultChain, recentChain, walletType } = useGrazInternalStore.getState();
+    const { defaultChain, recentChain, walletType, _reconnectConnector } = useGrazInternalStore.getState();
 
     const currentWalletType = args?.walletType || walletType;
 
@@ -36,10 +121,11 @@ export const connect = async (args?: ConnectArgs): Promise<ConnectResult> => {
 
     const wallet = getWallet(currentWalletType);
 
-    const chain = args?.chain || recentChain || defaultChain;
+    const chain = args?.chain || args?.chains?.[0] || recentChain || defaultChain;
     if (!chain) {
       throw new Error("No last known connected chain, connect action requires chain info");
     }
+    const chains = [chain, ...(args?.chains || []).filter((x) => x.chainId !== chain.chainId)];
 
     useGrazSessionStore.setState((x) => {
       const isReconnecting =
@@ -52,45 +138,48 @@ export const connect = async (args?: ConnectArgs): Promise<ConnectResult> => {
       return { status: "connecting" };
     });
 
-    const { account: _account, activeChain } = useGrazSessionStore.getState();
-    await wallet.init?.();
-    if (!_account || activeChain?.chainId !== chain.chainId) {
-      await wallet.enable(chain.chainId);
-      const account = await wallet.getKey(chain.chainId);
-      useGrazSessionStore.setState({ account });
-    }
+    await wallet.init?.(chains);
 
-    const offlineSigner = wallet.getOfflineSigner(chain.chainId);
-    const offlineSignerAmino = wallet.getOfflineSignerOnlyAmino(chain.chainId);
-    const offlineSignerAuto = await wallet.getOfflineSignerAuto(chain.chainId);
-    const gasPrice = chain.gas ? GasPrice.fromString(`${chain.gas.price}${chain.gas.denom}`) : undefined;
-    const [clients, signingClients] = await Promise.all([
-      createClients(chain),
-      createSigningClients({
-        ...chain,
-        offlineSignerAuto,
-        cosmWasmSignerOptions: { gasPrice, ...(args?.signerOpts || {}) },
-      }),
-    ] as const);
+    // reuse already connected chain sessions when connecting with the same wallet
+    const isSameWallet = _reconnectConnector === currentWalletType;
+    const prevSessions = isSameWallet ? useGrazSessionStore.getState().sessions : {};
+    const sessions: Record<string, GrazChainSession> = { ...prevSessions };
+    for (const item of chains) {
+      if (!sessions[item.chainId]) {
+        // connect sequentially so wallets prompt one chain at a time
+        // eslint-disable-next-line no-await-in-loop
+        sessions[item.chainId] = await createChainSession(wallet, item, args?.signerOpts);
+      }
+    }
+    const activeSession = sessions[chain.chainId]!;
+    const previousChain = useGrazSessionStore.getState().activeChain;
 
     useGrazInternalStore.setState({
       recentChain: chain,
+      recentChains: Object.values(sessions).map((x) => x.chain!),
       walletType: currentWalletType,
       _reconnect: Boolean(args?.autoReconnect),
       _reconnectConnector: currentWalletType,
     });
     useGrazSessionStore.setState({
+      account: activeSession.account,
       activeChain: chain,
-      clients,
-      offlineSigner,
-      offlineSignerAmino,
-      offlineSignerAuto,
-      signingClients,
+      clients: activeSession.clients,
+      offlineSigner: activeSession.offlineSigner,
+      offlineSignerAmino: activeSession.offlineSignerAmino,
+      offlineSignerAuto: activeSession.offlineSignerAuto,
+      sessions,
+      signingClients: activeSession.signingClients,
       status: "connected",
     });
     typeof window !== "undefined" && window.sessionStorage.setItem(RECONNECT_SESSION_KEY, "Active");
-    const { account } = useGrazSessionStore.getState();
-    return { account: account!, walletType: currentWalletType, chain };
+    subscribeWallet(wallet, currentWalletType);
+    emitGrazEvent("connected", { walletType: currentWalletType, chain, chains });
+    if (previousChain && previousChain.chainId !== chain.chainId) {
+      emitGrazEvent("chainChanged", { chain, previousChain });
+    }
+    const accounts = Object.fromEntries(Object.entries(sessions).map(([chainId, x]) => [chainId, x.account!]));
+    return { account: activeSession.account!, accounts, walletType: currentWalletType, chain };
   } catch (error) {
     console.error("connect ", error);
     if (useGrazSessionStore.getState().account === null) {
@@ -105,24 +194,28 @@ export const connect = async (args?: ConnectArgs): Promise<ConnectResult> => {
 
 export const disconnect = async (clearRecentChain = false): Promise<void> => {
   typeof window !== "undefined" && window.sessionStorage.removeItem(RECONNECT_SESSION_KEY);
+  unsubscribeWallet();
   useGrazSessionStore.setState(grazSessionDefaultValues);
   useGrazInternalStore.setState((x) => ({
     _reconnect: false,
     _reconnectConnector: null,
     recentChain: clearRecentChain ? null : x.recentChain,
+    recentChains: clearRecentChain ? null : x.recentChains,
   }));
+  emitGrazEvent("disconnected", undefined);
   return Promise.resolve();
 };
 
 export type ReconnectArgs = Maybe<{ onError?: (error: unknown) => void }>;
 
 export const reconnect = async (args?: ReconnectArgs) => {
-  const { recentChain, _reconnectConnector, _reconnect } = useGrazInternalStore.getState();
+  const { recentChain, recentChains, _reconnectConnector, _reconnect } = useGrazInternalStore.getState();
   try {
     const isWalletReady = checkWallet(_reconnectConnector || undefined);
     if (recentChain && isWalletReady && _reconnectConnector) {
       const key = await connect({
         chain: recentChain,
+        chains: recentChains || undefined,
         walletType: _reconnectConnector,
         autoReconnect: _reconnect,
       });
@@ -130,6 +223,7 @@ export const reconnect = async (args?: ReconnectArgs) => {
     }
   } catch (error) {
     args?.onError?.(error);
+    emitGrazEvent("reconnectFailed", { error });
     void disconnect();
   }
 };
@@ -0,0 +1,75 @@
+import type { StdSignature } from "@cosmjs/amino";
+
+import { getChainSession } from "./account";
+import { getWallet } from "./wallet";
+
+export interface SignArbitraryArgs {
+  /**
+   * signer address, defaults to connected account address
+   */
+  signerAddress?: string;
+  data: string | Uint8Array;
+  /**
+   * connected chain to sign with, defaults to active chain
+   */
+  chainId?: string;
+}
+
+export interface SignArbitraryResult {
+  signerAddress: string;
+  data: string | Uint8Array;
+  signature: StdSignature;
+}
+
+const getSignerArgs = (signerAddress?: string, chainId?: string) => {
+  const { account, chain } = getChainSession(chainId);
+  const signer = signerAddress ?? account?.bech32Address;
+  if (!chain) {
+    throw new Error("No connected account detected");
+  }
+  if (!signer) {
+    throw new Error("signerAddress is not defined");
+  }
+  return { chainId: chain.chainId, signer };
+};
+
+/**
+ * Function to sign arbitrary data (ADR-036) with connected wallet, e.g. to implement "sign in with Cosmos".
+ *
+ * @example
+ * ```ts
+ * import { signArbitrary } from "graz";
+ *
+ * const { signature } = await signArbitrary({ data: "Sign in to example.com" });
+ * ```
+ *
+ * @see {@link verifyADR36Signature} to verify signature without a wallet
+ */
+export const signArbitrary = async ({
+  signerAddress,
+  data,
+  chainId,
+}: SignArbitraryArgs): Promise<SignArbitraryResult> => {
+  const { chainId: signChainId, signer } = getSignerArgs(signerAddress, chainId);
+  const signature = await getWallet().signArbitrary(signChainId, signer, data);
+  return { signerAddress: signer, data, signature };
+};
+
+export interface VerifyArbitraryArgs extends SignArbitraryArgs {
+  signature: StdSignature;
+}
+
+/**
+ * Function to verify arbitrary data signature (ADR-036) with connected wallet.
+ *
+ * @example
+ * ```ts
+ * import { verifyArbitrary } from "graz";
+ *
+ * const isValid = await verifyArbitrary({ data: "Sign in to example.com", signature });
+ * ```
+ */
+export const verifyArbitrary = async ({ signerAddress, data, chainId, signature }: VerifyArbitraryArgs) => {
+  const { chainId: signChainId, signer } = getSignerArgs(signerAddress, chainId);
+  return getWallet().verifyArbitrary(signChainId, signer, data, signature);
+};
@@ -0,0 +1,123 @@
+import { toBech32 } from "@cosmjs/encoding";
+import type { MsgExec, MsgGrant } from "cosmjs-types/cosmos/authz/v1beta1/tx";
+import { MsgSend } from "cosmjs-types/cosmos/bank/v1beta1/tx";
+import {
+  CombinedLimit,
+  ContractExecutionAuthorization,
+  MaxCallsLimit,
+  MaxFundsLimit,
+} from "cosmjs-types/cosmwasm/wasm/v1/authz";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { installMockChain } from "../testing/clients";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, installMockWallet } from "../testing/wallet";
+import { connect } from "./account";
+import { grantAuthorization } from "./authz";
+import type { GrazAuthorization } from "./messages";
+import { sendTokens } from "./methods";
+
+const GRANTEE_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const GRANTER_ADDRESS = toBech32("cosmos", new Uint8Array(20).fill(1));
+
+const CONTRACT_ADDRESS = "cosmos14hj2tavq8fpesdwxxcu44rty3hh90vhujrvcmstl4zr3txmfvw9s4hmalr";
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+const setup = async () => {
+  const address = await getMockAddress();
+  const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+  installMockWallet();
+  await connect({ chain });
+  return { address, mockChain };
+};
+
+describe("grantAuthorization", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it.each<[string, Partial<GrazAuthorization>, string, (value: Uint8Array) => unknown, unknown]>([
+    [
+      "calls",
+      { maxCalls: 10 },
+      "/cosmwasm.wasm.v1.MaxCallsLimit",
+      (x) => MaxCallsLimit.decode(x).remaining.toNumber(),
+      10,
+    ],
+    [
+      "funds",
+      { maxFunds: [{ denom: "uatom", amount: "100" }] },
+      "/cosmwasm.wasm.v1.MaxFundsLimit",
+      (x) => MaxFundsLimit.decode(x).amounts,
+      [{ denom: "uatom", amount: "100" }],
+    ],
+    [
+      "calls and funds",
+      { maxCalls: 10, maxFunds: [{ denom: "uatom", amount: "100" }] },
+      "/cosmwasm.wasm.v1.CombinedLimit",
+      (x) => {
+        const { callsRemaining, amounts } = CombinedLimit.decode(x);
+        return [callsRemaining.toNumber(), amounts];
+      },
+      [10, [{ denom: "uatom", amount: "100" }]],
+    ],
+  ])("limits contract executions by %s", async (_, limit, typeUrl, decode, expected) => {
+    const { mockChain } = await setup();
+
+    await grantAuthorization({
+      granteeAddress: GRANTEE_ADDRESS,
+      authorization: { type: "contract", contracts: [CONTRACT_ADDRESS], ...limit } as GrazAuthorization,
+      fee: "auto",
+    });
+
+    const { grant } = mockChain.transactions[0]?.messages[0]?.value as MsgGrant;
+    const { grants } = ContractExecutionAuthorization.decode(grant?.authorization?.value ?? new Uint8Array());
+    expect(grants[0]?.contract).toBe(CONTRACT_ADDRESS);
+    expect(grants[0]?.limit?.typeUrl).toBe(typeUrl);
+    expect(decode(grants[0]?.limit?.value ?? new Uint8Array())).toEqual(expected);
+  });
+
+  it("requires a limit of contract executions", async () => {
+    const { mockChain } = await setup();
+
+    expect(() =>
+      grantAuthorization({
+        granteeAddress: GRANTEE_ADDRESS,
+        authorization: { type: "contract", contracts: [CONTRACT_ADDRESS] },
+        fee: "auto",
+      }),
+    ).toThrow("Contract authorization requires maxCalls or maxFunds");
+    expect(mockChain.transactions).toHaveLength(0);
+  });
+});
+
+describe("granterAddress", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("executes messages on behalf of the granter through MsgExec", async () => {
+    const { address, mockChain } = await setup();
+
+    await sendTokens({
+      senderAddress: address,
+      recipientAddress: GRANTEE_ADDRESS,
+      amount: [{ denom: "uatom", amount: "100" }],
+      fee: "auto",
+      granterAddress: GRANTER_ADDRESS,
+    });
+
+    const [message] = mockChain.transactions[0]?.messages ?? [];
+    const { grantee, msgs } = message?.value as MsgExec;
+    expect(message?.typeUrl).toBe("/cosmos.authz.v1beta1.MsgExec");
+    expect(grantee).toBe(address);
+    expect(msgs.map((x) => x.typeUrl)).toEqual(["/cosmos.bank.v1beta1.MsgSend"]);
+    expect(MsgSend.decode(msgs[0]?.value ?? new Uint8Array())).toMatchObject({
+      fromAddress: GRANTER_ADDRESS,
+      toAddress: GRANTEE_ADDRESS,
+    });
+  });
+});
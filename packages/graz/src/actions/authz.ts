@@ -0,0 +1,184 @@
+import type { DeliverTxResponse, StdFee } from "@cosmjs/stargate";
+import { QueryClient, setupAuthzExtension } from "@cosmjs/stargate";
+import type { GrantAuthorization } from "cosmjs-types/cosmos/authz/v1beta1/authz";
+
+import type { GrazTransaction } from "../store";
+import { getChainSession } from "./account";
+import type { GrazAuthorization } from "./messages";
+import { buildGrantMsg, buildRevokeMsg } from "./messages";
+import { signAndBroadcast } from "./methods";
+
+// `AuthzExtension` is not exported by @cosmjs/stargate
+type AuthzExtension = ReturnType<typeof setupAuthzExtension>;
+
+const getAuthzQueryClient = (chainId?: string): QueryClient & AuthzExtension => {
+  const { clients } = getChainSession(chainId);
+  if (!clients?.tendermint) {
+    throw new Error("Tendermint client is not ready");
+  }
+  return QueryClient.withExtensions(clients.tendermint, setupAuthzExtension);
+};
+
+/**
+ * Function to return given granter address, defaulting to connected account address of given chain. Throws if neither
+ * is defined.
+ *
+ * @example
+ * ```ts
+ * import { getGranterAddress } from "graz";
+ *
+ * const granterAddress = getGranterAddress(undefined, "cosmoshub-4");
+ * ```
+ */
+export const getGranterAddress = (granterAddress?: string, chainId?: string): string => {
+  const address = granterAddress ?? getChainSession(chainId).account?.bech32Address;
+  if (!address) {
+    throw new Error("granterAddress is not defined");
+  }
+  return address;
+};
+
+export interface GetGrantsArgs {
+  granterAddress?: string;
+  granteeAddress?: string;
+  /**
+   * connected chain to query, defaults to active chain
+   */
+  chainId?: string;
+}
+
+/**
+ * Function to query all authz grants given by granter address, received by grantee address, or between both.
+ *
+ * @example
+ * ```ts
+ * import { getGrants } from "graz";
+ *
+ * // grants given by granter
+ * const grants = await getGrants({ granterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430" });
+ *
+ * // grants received by grantee
+ * const grants = await getGrants({ granteeAddress: "cosmos1..." });
+ * ```
+ */
+export const getGrants = async ({
+  granterAddress,
+  granteeAddress,
+  chainId,
+}: GetGrantsArgs): Promise<GrantAuthorization[]> => {
+  if (!granterAddress && !granteeAddress) {
+    throw new Error("granterAddress or granteeAddress is not defined");
+  }
+  const queryClient = getAuthzQueryClient(chainId);
+  const grants: GrantAuthorization[] = [];
+  let paginationKey: Uint8Array | undefined;
+  do {
+    if (granterAddress && granteeAddress) {
+      // eslint-disable-next-line no-await-in-loop
+      const response = await queryClient.authz.grants(granterAddress, granteeAddress, "", paginationKey);
+      grants.push(...response.grants.map((grant) => ({ ...grant, granter: granterAddress, grantee: granteeAddress })));
+      paginationKey = response.pagination?.nextKey.length ? response.pagination.nextKey : undefined;
+    } else {
+      const response = granterAddress
+        ? // eslint-disable-next-line no-await-in-loop
+          await queryClient.authz.granterGrants(granterAddress, paginationKey)
+        : // eslint-disable-next-line no-await-in-loop
+          await queryClient.authz.granteeGrants(granteeAddress!, paginationKey);
+      grants.push(...response.grants);
+      paginationKey = response.pagination?.nextKey.length ? response.pagination.nextKey : undefined;
+    }
+  } while (paginationKey);
+  return grants;
+};
+
+interface AuthzTxArgs {
+  granteeAddress: string;
+  /**
+   * granter address, defaults to connected account address
+   */
+  granterAddress?: string;
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to grant on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+export interface GrantAuthorizationArgs extends AuthzTxArgs {
+  authorization: GrazAuthorization;
+  /**
+   * grant expiration, required by chains running cosmos-sdk before v0.46
+   */
+  expiration?: Date;
+}
+
+/**
+ * Function to grant given authorization to grantee address.
+ *
+ * @example
+ * ```ts
+ * import { grantAuthorization } from "graz";
+ *
+ * await grantAuthorization({
+ *   granteeAddress: "cosmos1...",
+ *   authorization: { type: "send", spendLimit: [{ denom: "uatom", amount: "1000000" }] },
+ *   expiration: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const grantAuthorization = ({
+  granterAddress,
+  granteeAddress,
+  authorization,
+  expiration,
+  ...args
+}: GrantAuthorizationArgs): Promise<DeliverTxResponse> => {
+  const address = getGranterAddress(granterAddress, args.chainId);
+  return signAndBroadcast({
+    ...args,
+    senderAddress: address,
+    messages: [buildGrantMsg({ granterAddress: address, granteeAddress, authorization, expiration })],
+  });
+};
+
+export interface RevokeAuthorizationArgs extends AuthzTxArgs {
+  /**
+   * message type url of the authorization to revoke, see `getAuthorizationMsgTypeUrl`
+   */
+  msgTypeUrl: string;
+}
+
+/**
+ * Function to revoke authorization of given message type from grantee address.
+ *
+ * @example
+ * ```ts
+ * import { revokeAuthorization } from "graz";
+ *
+ * await revokeAuthorization({
+ *   granteeAddress: "cosmos1...",
+ *   msgTypeUrl: "/cosmos.bank.v1beta1.MsgSend",
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const revokeAuthorization = ({
+  granterAddress,
+  granteeAddress,
+  msgTypeUrl,
+  ...args
+}: RevokeAuthorizationArgs): Promise<DeliverTxResponse> => {
+  const address = getGranterAddress(granterAddress, args.chainId);
+  return signAndBroadcast({
+    ...args,
+    senderAddress: address,
+    messages: [buildRevokeMsg({ granterAddress: address, granteeAddress, msgTypeUrl })],
+  });
+};
@@ -4,7 +4,7 @@ import type { AppCurrency, ChainInfo } from "@keplr-wallet/types";
 import type { GrazChain } from "../chains";
 import { useGrazInternalStore, useGrazSessionStore } from "../store";
 import type { Dictionary } from "../types/core";
-import type { WalletType } from "../types/wallet";
+import type { WalletId } from "../types/wallet";
 import type { ConnectResult } from "./account";
 import { connect } from "./account";
 import { getWallet } from "./wallet";
@@ -12,7 +12,7 @@ import { getWallet } from "./wallet";
 export * from "./clients/tendermint";
 
 export const clearRecentChain = (): void => {
-  useGrazInternalStore.setState({ recentChain: null });
+  useGrazInternalStore.setState({ recentChain: null, recentChains: null });
 };
 
 export const getActiveChainCurrency = (denom: string): AppCurrency | undefined => {
@@ -33,10 +33,11 @@ export const suggestChain = async (chainInfo: ChainInfo): Promise<ChainInfo> =>
 export interface SuggestChainAndConnectArgs {
   chainInfo: ChainInfo;
   signerOpts?: SigningCosmWasmClientOptions;
-  walletType?: WalletType;
+  walletType?: WalletId;
   gas?: {
     price: string;
     denom: string;
+    multiplier?: number;
   };
   rpcHeaders?: Dictionary;
   path?: string;
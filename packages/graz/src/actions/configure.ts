@@ -1,26 +1,57 @@
+import type { GrazAdapter } from "../adapter";
 import type { GrazChain } from "../chains";
 import type { GrazInternalStore } from "../store";
-import { useGrazInternalStore } from "../store";
-import type { WalletType } from "../types/wallet";
+import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import type { WalletId } from "../types/wallet";
 
 export interface ConfigureGrazArgs {
+  /**
+   * list of wallet adapters to register, connect to a registered adapter using its `id` as `walletType`
+   */
+  adapters?: GrazAdapter[];
   defaultChain?: GrazChain;
   defaultSigningClient?: GrazInternalStore["defaultSigningClient"];
-  defaultWallet?: WalletType;
+  defaultWallet?: WalletId;
   onNotFound?: () => void;
   onReconnectFailed?: () => void;
   walletConnect?: GrazInternalStore["walletConnect"];
+  /**
+   * mnemonic or private key of `WalletType.LOCAL`, intended for tests, scripts and local devnets only
+   */
+  localWallet?: GrazInternalStore["localWallet"];
+  /**
+   * transport and account of `WalletType.LEDGER`
+   */
+  ledger?: GrazInternalStore["ledger"];
+  /**
+   * address paying fees of all transactions through feegrant allowance, e.g. to onboard accounts without gas tokens.
+   * Overridden by `feeGranter` of each call
+   */
+  feeGranter?: GrazInternalStore["feeGranter"];
+  /**
+   * IBC transfer channels used by `sendIbcTokensToChain`, taking precedence over provided `mainnetIbcChannels`,
+   * e.g. after a channel is replaced or for chains not provided by graz
+   */
+  ibcChannels?: GrazInternalStore["ibcChannels"];
   /**
    * default to true
    */
   autoReconnect?: boolean;
 }
 
+let configuredArgs: ConfigureGrazArgs | null = null;
+
 export const configureGraz = (args: ConfigureGrazArgs = {}): ConfigureGrazArgs => {
+  configuredArgs = args;
   useGrazInternalStore.setState((prev) => ({
+    adapters: args.adapters || prev.adapters,
     defaultChain: args.defaultChain || prev.defaultChain,
     defaultSigningClient: args.defaultSigningClient || prev.defaultSigningClient,
     walletConnect: args.walletConnect || prev.walletConnect,
+    localWallet: args.localWallet || prev.localWallet,
+    ledger: args.ledger || prev.ledger,
+    feeGranter: args.feeGranter === undefined ? prev.feeGranter : args.feeGranter,
+    ibcChannels: args.ibcChannels || prev.ibcChannels,
     walletType: args.defaultWallet || prev.walletType,
     _notFoundFn: args.onNotFound || prev._notFoundFn,
     _onReconnectFailed: args.onReconnectFailed || prev._onReconnectFailed,
@@ -28,3 +59,25 @@ export const configureGraz = (args: ConfigureGrazArgs = {}): ConfigureGrazArgs =
   }));
   return args;
 };
+
+/**
+ * Function to hydrate graz stores from persisted storage, which is done by `GrazProvider` (or `useGrazEvents`) after
+ * mount. Last connected wallet and chain are not restored until this function is called.
+ *
+ * **Note: only call this function on the client if not using graz's provider component.**
+ *
+ * @example
+ * ```ts
+ * import { hydrateGraz } from "graz";
+ *
+ * useEffect(() => {
+ *   void hydrateGraz();
+ * }, []);
+ * ```
+ */
+export const hydrateGraz = async (): Promise<void> => {
+  if (typeof window === "undefined") return;
+  await Promise.all([useGrazInternalStore.persist.rehydrate(), useGrazSessionStore.persist.rehydrate()]);
+  // configured options take precedence over persisted values
+  if (configuredArgs) configureGraz(configuredArgs);
+};
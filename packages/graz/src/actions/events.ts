@@ -0,0 +1,44 @@
+import type { GrazEventHandler, GrazEventName } from "../store/events";
+import { grazEventListeners } from "../store/events";
+
+export type { GrazEventHandler, GrazEventMap, GrazEventName } from "../store/events";
+
+const off = <T extends GrazEventName>(name: T, handler: GrazEventHandler<T>) => {
+  grazEventListeners.get(name)?.delete(handler as GrazEventHandler<never>);
+};
+
+const on = <T extends GrazEventName>(name: T, handler: GrazEventHandler<T>) => {
+  const listeners = grazEventListeners.get(name) || new Set();
+  listeners.add(handler as GrazEventHandler<never>);
+  grazEventListeners.set(name, listeners);
+  return () => off(name, handler);
+};
+
+const once = <T extends GrazEventName>(name: T, handler: GrazEventHandler<T>) => {
+  const listener: GrazEventHandler<T> = (payload) => {
+    off(name, listener);
+    handler(payload);
+  };
+  return on(name, listener);
+};
+
+/**
+ * Typed event emitter of graz connection and transaction events, which works outside React. `on` and `once` return a
+ * function to remove the handler.
+ *
+ * @example
+ * ```ts
+ * import { grazEvents } from "graz";
+ *
+ * const unsubscribe = grazEvents.on("accountChanged", ({ walletType }) => {
+ *   console.log(`${walletType} account changed`);
+ * });
+ *
+ * grazEvents.once("txConfirmed", ({ hash }) => console.log(hash));
+ *
+ * unsubscribe();
+ * ```
+ *
+ * @see {@link useGrazEvent}
+ */
+export const grazEvents = { on, off, once };
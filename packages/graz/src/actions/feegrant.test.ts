@@ -0,0 +1,111 @@
+import { toBech32 } from "@cosmjs/encoding";
+import { AllowedMsgAllowance, PeriodicAllowance } from "cosmjs-types/cosmos/feegrant/v1beta1/feegrant";
+import type { MsgGrantAllowance, MsgRevokeAllowance } from "cosmjs-types/cosmos/feegrant/v1beta1/tx";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { installMockChain } from "../testing/clients";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, installMockWallet } from "../testing/wallet";
+import { connect } from "./account";
+import { configureGraz } from "./configure";
+import { grantFeeAllowance, revokeFeeAllowance } from "./feegrant";
+import { sendTokens } from "./methods";
+
+const GRANTEE_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const FEE_GRANTER_ADDRESS = toBech32("cosmos", new Uint8Array(20).fill(1));
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+const setup = async () => {
+  const address = await getMockAddress();
+  const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+  installMockWallet();
+  await connect({ chain });
+  return { address, mockChain };
+};
+
+const send = (address: string, feeGranter?: string) =>
+  sendTokens({
+    senderAddress: address,
+    recipientAddress: GRANTEE_ADDRESS,
+    amount: [{ denom: "uatom", amount: "100" }],
+    fee: "auto",
+    feeGranter,
+  });
+
+describe("grantFeeAllowance", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("grants allowances from the connected account", async () => {
+    const { address, mockChain } = await setup();
+
+    await grantFeeAllowance({
+      granteeAddress: GRANTEE_ADDRESS,
+      allowance: {
+        type: "periodic",
+        period: 24 * 60 * 60,
+        periodSpendLimit: [{ denom: "uatom", amount: "10000" }],
+        allowedMessages: ["/cosmos.authz.v1beta1.MsgExec"],
+      },
+      fee: "auto",
+    });
+
+    const { granter, grantee, allowance } = mockChain.transactions[0]?.messages[0]?.value as MsgGrantAllowance;
+    const { allowance: allowed, allowedMessages } = AllowedMsgAllowance.decode(allowance?.value ?? new Uint8Array());
+    const periodic = PeriodicAllowance.decode(allowed?.value ?? new Uint8Array());
+    expect(granter).toBe(address);
+    expect(grantee).toBe(GRANTEE_ADDRESS);
+    expect(allowance?.typeUrl).toBe("/cosmos.feegrant.v1beta1.AllowedMsgAllowance");
+    expect(allowedMessages).toEqual(["/cosmos.authz.v1beta1.MsgExec"]);
+    expect(allowed?.typeUrl).toBe("/cosmos.feegrant.v1beta1.PeriodicAllowance");
+    expect(periodic.period?.seconds.toNumber()).toBe(24 * 60 * 60);
+    expect(periodic.periodSpendLimit).toEqual([{ denom: "uatom", amount: "10000" }]);
+  });
+
+  it("revokes allowances of the connected account", async () => {
+    const { address, mockChain } = await setup();
+
+    await revokeFeeAllowance({ granteeAddress: GRANTEE_ADDRESS, fee: "auto" });
+
+    expect(mockChain.transactions[0]?.messages[0]).toEqual({
+      typeUrl: "/cosmos.feegrant.v1beta1.MsgRevokeAllowance",
+      value: { granter: address, grantee: GRANTEE_ADDRESS } satisfies MsgRevokeAllowance,
+    });
+  });
+});
+
+describe("feeGranter", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("pays fees of transactions from the configured fee granter", async () => {
+    const { address, mockChain } = await setup();
+    configureGraz({ feeGranter: FEE_GRANTER_ADDRESS });
+
+    await send(address);
+
+    expect(mockChain.transactions[0]?.feeGranter).toBe(FEE_GRANTER_ADDRESS);
+  });
+
+  it("prefers the fee granter of each call", async () => {
+    const { address, mockChain } = await setup();
+    configureGraz({ feeGranter: FEE_GRANTER_ADDRESS });
+
+    await send(address, GRANTEE_ADDRESS);
+
+    expect(mockChain.transactions[0]?.feeGranter).toBe(GRANTEE_ADDRESS);
+  });
+
+  it("pays fees from the signer without a fee granter", async () => {
+    const { address, mockChain } = await setup();
+
+    await send(address);
+
+    expect(mockChain.transactions[0]?.feeGranter).toBeUndefined();
+  });
+});
@@ -0,0 +1,140 @@
+import type { DeliverTxResponse, StdFee } from "@cosmjs/stargate";
+import { QueryClient, setupFeegrantExtension } from "@cosmjs/stargate";
+import type { Grant } from "cosmjs-types/cosmos/feegrant/v1beta1/feegrant";
+
+import type { GrazTransaction } from "../store";
+import { getChainSession } from "./account";
+import { getGranterAddress } from "./authz";
+import type { GrazFeeAllowance } from "./messages";
+import { buildGrantAllowanceMsg, buildRevokeAllowanceMsg } from "./messages";
+import { signAndBroadcast } from "./methods";
+
+// `FeegrantExtension` is not exported by @cosmjs/stargate
+type FeegrantExtension = ReturnType<typeof setupFeegrantExtension>;
+
+const getFeegrantQueryClient = (chainId?: string): QueryClient & FeegrantExtension => {
+  const { clients } = getChainSession(chainId);
+  if (!clients?.tendermint) {
+    throw new Error("Tendermint client is not ready");
+  }
+  return QueryClient.withExtensions(clients.tendermint, setupFeegrantExtension);
+};
+
+/**
+ * Function to query all fee allowances received by given grantee address, optionally only the allowance of given
+ * granter address.
+ *
+ * @example
+ * ```ts
+ * import { getFeeAllowances } from "graz";
+ *
+ * const allowances = await getFeeAllowances("cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430");
+ * ```
+ */
+export const getFeeAllowances = async (
+  granteeAddress: string,
+  granterAddress?: string,
+  chainId?: string,
+): Promise<Grant[]> => {
+  const queryClient = getFeegrantQueryClient(chainId);
+  if (granterAddress) {
+    try {
+      const { allowance } = await queryClient.feegrant.allowance(granterAddress, granteeAddress);
+      return allowance ? [allowance] : [];
+    } catch (error) {
+      // chains respond with an error instead of empty allowance if not granted
+      if (error instanceof Error && error.message.includes("fee-grant not found")) return [];
+      throw error;
+    }
+  }
+  const allowances: Grant[] = [];
+  let paginationKey: Uint8Array | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop
+    const response = await queryClient.feegrant.allowances(granteeAddress, paginationKey);
+    allowances.push(...response.allowances);
+    paginationKey = response.pagination?.nextKey.length ? response.pagination.nextKey : undefined;
+  } while (paginationKey);
+  return allowances;
+};
+
+interface FeegrantTxArgs {
+  granteeAddress: string;
+  /**
+   * granter address, defaults to connected account address
+   */
+  granterAddress?: string;
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to grant on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+export interface GrantFeeAllowanceArgs extends FeegrantTxArgs {
+  allowance: GrazFeeAllowance;
+}
+
+/**
+ * Function to grant fee allowance to grantee address, which lets the grantee pay transaction fees from granter's
+ * balance by setting the granter as `feeGranter`.
+ *
+ * @example
+ * ```ts
+ * import { grantFeeAllowance } from "graz";
+ *
+ * await grantFeeAllowance({
+ *   granteeAddress: "cosmos1...",
+ *   allowance: {
+ *     type: "periodic",
+ *     period: 24 * 60 * 60,
+ *     periodSpendLimit: [{ denom: "uatom", amount: "10000" }],
+ *   },
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const grantFeeAllowance = ({
+  granterAddress,
+  granteeAddress,
+  allowance,
+  ...args
+}: GrantFeeAllowanceArgs): Promise<DeliverTxResponse> => {
+  const address = getGranterAddress(granterAddress, args.chainId);
+  return signAndBroadcast({
+    ...args,
+    senderAddress: address,
+    messages: [buildGrantAllowanceMsg({ granterAddress: address, granteeAddress, allowance })],
+  });
+};
+
+export type RevokeFeeAllowanceArgs = FeegrantTxArgs;
+
+/**
+ * Function to revoke fee allowance of grantee address.
+ *
+ * @example
+ * ```ts
+ * import { revokeFeeAllowance } from "graz";
+ *
+ * await revokeFeeAllowance({ granteeAddress: "cosmos1...", fee: "auto" });
+ * ```
+ */
+export const revokeFeeAllowance = ({
+  granterAddress,
+  granteeAddress,
+  ...args
+}: RevokeFeeAllowanceArgs): Promise<DeliverTxResponse> => {
+  const address = getGranterAddress(granterAddress, args.chainId);
+  return signAndBroadcast({
+    ...args,
+    senderAddress: address,
+    messages: [buildRevokeAllowanceMsg({ granterAddress: address, granteeAddress })],
+  });
+};
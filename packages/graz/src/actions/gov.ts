@@ -0,0 +1,197 @@
+import type { Coin } from "@cosmjs/proto-signing";
+import type { DeliverTxResponse, GovExtension, GovProposalId, StdFee } from "@cosmjs/stargate";
+import { QueryClient, setupGovExtension } from "@cosmjs/stargate";
+import type { Proposal, TallyResult, Vote, VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+import { ProposalStatus } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+
+import type { GrazTransaction } from "../store";
+import { getChainSession } from "./account";
+import { buildDepositMsg, buildVoteMsg, buildVoteWeightedMsg } from "./messages";
+import { signAndBroadcast } from "./methods";
+
+const getGovQueryClient = (chainId?: string): QueryClient & GovExtension => {
+  const { clients } = getChainSession(chainId);
+  if (!clients?.tendermint) {
+    throw new Error("Tendermint client is not ready");
+  }
+  return QueryClient.withExtensions(clients.tendermint, setupGovExtension);
+};
+
+const getSenderAddress = (senderAddress?: string, chainId?: string): string => {
+  const address = senderAddress ?? getChainSession(chainId).account?.bech32Address;
+  if (!address) {
+    throw new Error("senderAddress is not defined");
+  }
+  return address;
+};
+
+/**
+ * Function to query all proposals, optionally filtered by proposal status.
+ *
+ * @example
+ * ```ts
+ * import { getProposals } from "graz";
+ * import { ProposalStatus } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+ *
+ * const proposals = await getProposals(ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD);
+ * ```
+ */
+export const getProposals = async (
+  status: ProposalStatus = ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
+  chainId?: string,
+): Promise<Proposal[]> => {
+  const queryClient = getGovQueryClient(chainId);
+  const proposals: Proposal[] = [];
+  let paginationKey: Uint8Array | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop
+    const response = await queryClient.gov.proposals(status, "", "", paginationKey);
+    proposals.push(...response.proposals);
+    paginationKey = response.pagination?.nextKey.length ? response.pagination.nextKey : undefined;
+  } while (paginationKey);
+  return proposals;
+};
+
+/**
+ * Function to query a single proposal by its id.
+ *
+ * @example
+ * ```ts
+ * import { getProposal } from "graz";
+ *
+ * const proposal = await getProposal(82);
+ * ```
+ */
+export const getProposal = async (proposalId: GovProposalId, chainId?: string): Promise<Proposal | null> => {
+  const { proposal } = await getGovQueryClient(chainId).gov.proposal(proposalId);
+  return proposal ?? null;
+};
+
+/**
+ * Function to query current tally result of a proposal.
+ *
+ * @example
+ * ```ts
+ * import { getProposalTally } from "graz";
+ *
+ * const { yes, no, abstain, noWithVeto } = await getProposalTally(82);
+ * ```
+ */
+export const getProposalTally = async (proposalId: GovProposalId, chainId?: string): Promise<TallyResult | null> => {
+  const { tally } = await getGovQueryClient(chainId).gov.tally(proposalId);
+  return tally ?? null;
+};
+
+/**
+ * Function to query vote of given voter address on a proposal, returns `null` if voter has not voted.
+ *
+ * @example
+ * ```ts
+ * import { getVote } from "graz";
+ *
+ * const vote = await getVote(82, "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430");
+ * ```
+ */
+export const getVote = async (
+  proposalId: GovProposalId,
+  voterAddress: string,
+  chainId?: string,
+): Promise<Vote | null> => {
+  try {
+    const { vote } = await getGovQueryClient(chainId).gov.vote(proposalId, voterAddress);
+    return vote ?? null;
+  } catch (error) {
+    if (error instanceof Error && /not found/i.test(error.message)) return null;
+    throw error;
+  }
+};
+
+interface GovTxArgs {
+  proposalId: GovProposalId;
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to sign and broadcast on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+export type VoteProposalArgs = GovTxArgs & {
+  /**
+   * voter address, defaults to connected account address
+   */
+  voterAddress?: string;
+} & (
+    | { option: VoteOption }
+    | {
+        /**
+         * weighted vote options, weights are decimal strings (e.g. `"0.5"`) which should add up to 1
+         */
+        options: { option: VoteOption; weight: string }[];
+      }
+  );
+
+/**
+ * Function to vote on a proposal, using `MsgVoteWeighted` if weighted `options` are given instead of `option`.
+ *
+ * @example
+ * ```ts
+ * import { voteProposal } from "graz";
+ * import { VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+ *
+ * await voteProposal({ proposalId: 82, option: VoteOption.VOTE_OPTION_YES, fee: "auto" });
+ * ```
+ */
+export const voteProposal = ({ voterAddress, ...args }: VoteProposalArgs): Promise<DeliverTxResponse> => {
+  const address = getSenderAddress(voterAddress, args.chainId);
+  const message =
+    "options" in args
+      ? buildVoteWeightedMsg({ voterAddress: address, proposalId: args.proposalId, options: args.options })
+      : buildVoteMsg({ voterAddress: address, proposalId: args.proposalId, option: args.option });
+  return signAndBroadcast({
+    senderAddress: address,
+    messages: [message],
+    fee: args.fee,
+    memo: args.memo,
+    chainId: args.chainId,
+    feeGranter: args.feeGranter,
+    onStatusChange: args.onStatusChange,
+  });
+};
+
+export interface DepositProposalArgs extends GovTxArgs {
+  /**
+   * depositor address, defaults to connected account address
+   */
+  depositorAddress?: string;
+  amount: Coin[];
+}
+
+/**
+ * Function to deposit tokens to a proposal.
+ *
+ * @example
+ * ```ts
+ * import { depositProposal } from "graz";
+ *
+ * await depositProposal({ proposalId: 82, amount: [{ denom: "uatom", amount: "1000000" }], fee: "auto" });
+ * ```
+ */
+export const depositProposal = ({
+  depositorAddress,
+  proposalId,
+  amount,
+  ...args
+}: DepositProposalArgs): Promise<DeliverTxResponse> => {
+  const address = getSenderAddress(depositorAddress, args.chainId);
+  return signAndBroadcast({
+    ...args,
+    senderAddress: address,
+    messages: [buildDepositMsg({ depositorAddress: address, proposalId, amount })],
+  });
+};
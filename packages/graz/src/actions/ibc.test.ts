@@ -0,0 +1,195 @@
+import { toBech32 } from "@cosmjs/encoding";
+import type { MsgTransfer } from "cosmjs-types/ibc/applications/transfer/v1/tx";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { defineChain, defineIbcChannels, mainnetChains } from "../chains";
+import { IBC_TRANSFER_TIMEOUT_MS } from "../constant";
+import { installMockChain } from "../testing/clients";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, installMockWallet } from "../testing/wallet";
+import { connect, getChainSession } from "./account";
+import { configureGraz } from "./configure";
+import { getDenomTrace, sendIbcTokensToChain } from "./ibc";
+
+// denom traces are cached per chain across tests, so each test resolves its own denoms
+const OSMO_DENOM = `ibc/${"A1".repeat(32)}`;
+const JUNO_DENOM = `ibc/${"B2".repeat(32)}`;
+const UNKNOWN_CHANNEL_DENOM = `ibc/${"C3".repeat(32)}`;
+const CACHED_DENOM = `ibc/${"D4".repeat(32)}`;
+const MISSING_DENOM = `ibc/${"E5".repeat(32)}`;
+
+const OSMO_ADDRESS = toBech32("osmo", new Uint8Array(20).fill(1));
+
+// timeouts are given in seconds, so the clock is frozen at a whole second
+const NOW = 1_700_000_000_000;
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+const setup = async () => {
+  const mockChain = installMockChain({
+    denomTraces: {
+      [OSMO_DENOM]: { path: "transfer/channel-141", baseDenom: "uosmo" },
+      [JUNO_DENOM]: { path: "transfer/channel-141/transfer/channel-42", baseDenom: "ujuno" },
+      [UNKNOWN_CHANNEL_DENOM]: { path: "transfer/channel-999", baseDenom: "uosmo" },
+      [CACHED_DENOM]: { path: "transfer/channel-141", baseDenom: "uion" },
+    },
+  });
+  installMockWallet();
+  await connect({ chain });
+  return { mockChain };
+};
+
+describe("getDenomTrace", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("resolves currencies of the chain the path leads to", async () => {
+    await setup();
+
+    const { path, baseDenom, currency } = await getDenomTrace(OSMO_DENOM.toLowerCase());
+
+    expect(path).toBe("transfer/channel-141");
+    expect(baseDenom).toBe("uosmo");
+    expect(currency).toMatchObject({
+      coinDenom: "osmo",
+      coinMinimalDenom: OSMO_DENOM.toLowerCase(),
+      coinDecimals: 6,
+      paths: [{ portId: "transfer", channelId: "channel-141" }],
+      originChainId: "osmosis-1",
+    });
+  });
+
+  it("follows multi-hop paths through known channels", async () => {
+    await setup();
+
+    const { currency } = await getDenomTrace(JUNO_DENOM);
+
+    expect(currency).toMatchObject({
+      coinDenom: "juno",
+      paths: [
+        { portId: "transfer", channelId: "channel-141" },
+        { portId: "transfer", channelId: "channel-42" },
+      ],
+      originChainId: "juno-1",
+    });
+  });
+
+  it("leaves currencies of unknown channels unresolved", async () => {
+    await setup();
+
+    const { path, baseDenom, currency } = await getDenomTrace(UNKNOWN_CHANNEL_DENOM);
+
+    expect(path).toBe("transfer/channel-999");
+    expect(baseDenom).toBe("uosmo");
+    expect(currency).toBeUndefined();
+  });
+
+  it("resolves native denoms to currencies of the chain without querying", async () => {
+    await setup();
+    const { clients } = getChainSession();
+    if (!clients) throw new Error("No clients");
+    const abciQuery = vi.spyOn(clients.tendermint, "abciQuery");
+
+    const { path, baseDenom, currency } = await getDenomTrace("uatom");
+
+    expect(path).toBe("");
+    expect(baseDenom).toBe("uatom");
+    expect(currency?.coinDenom).toBe("atom");
+    expect(abciQuery).not.toHaveBeenCalled();
+  });
+
+  it("caches denom traces", async () => {
+    await setup();
+    const { clients } = getChainSession();
+    if (!clients) throw new Error("No clients");
+    const abciQuery = vi.spyOn(clients.tendermint, "abciQuery");
+
+    const traces = await Promise.all([getDenomTrace(CACHED_DENOM), getDenomTrace(CACHED_DENOM)]);
+    await getDenomTrace(CACHED_DENOM);
+
+    expect(traces[0]).toEqual(traces[1]);
+    expect(abciQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects denoms without a denom trace", async () => {
+    await setup();
+
+    await expect(getDenomTrace(MISSING_DENOM)).rejects.toThrow("denomination trace not found");
+  });
+});
+
+describe("sendIbcTokensToChain", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetGrazStores();
+  });
+
+  const send = async (args: Partial<Parameters<typeof sendIbcTokensToChain>[0]>) =>
+    sendIbcTokensToChain({
+      senderAddress: await getMockAddress(),
+      recipientAddress: OSMO_ADDRESS,
+      transferAmount: { denom: "uatom", amount: "100" },
+      destination: "osmosis-1",
+      fee: "auto",
+      ...args,
+    });
+
+  it("resolves the transfer channel and timeout to the destination chain", async () => {
+    const { mockChain } = await setup();
+    vi.spyOn(Date, "now").mockReturnValue(NOW);
+
+    await send({});
+
+    const [message] = mockChain.transactions[0]?.messages ?? [];
+    const { sourcePort, sourceChannel, receiver, timeoutTimestamp } = message?.value as MsgTransfer;
+    expect(message?.typeUrl).toBe("/ibc.applications.transfer.v1.MsgTransfer");
+    expect(sourcePort).toBe("transfer");
+    expect(sourceChannel).toBe("channel-141");
+    expect(receiver).toBe(OSMO_ADDRESS);
+    expect(timeoutTimestamp.toString()).toBe((BigInt(NOW + IBC_TRANSFER_TIMEOUT_MS) * 1_000_000n).toString());
+  });
+
+  it("prefers configured channels and given timeout", async () => {
+    const { mockChain } = await setup();
+    vi.spyOn(Date, "now").mockReturnValue(NOW);
+    configureGraz({
+      ibcChannels: defineIbcChannels([
+        {
+          chain1: { chainId: "cosmoshub-4", channelId: "channel-7", portId: "custom" },
+          chain2: { chainId: "osmosis-1", channelId: "channel-8" },
+        },
+      ]),
+    });
+
+    await send({ timeout: 60_000 });
+
+    const [message] = mockChain.transactions[0]?.messages ?? [];
+    const { sourcePort, sourceChannel, timeoutTimestamp } = message?.value as MsgTransfer;
+    expect(sourcePort).toBe("custom");
+    expect(sourceChannel).toBe("channel-7");
+    expect(timeoutTimestamp.toString()).toBe((BigInt(NOW + 60_000) * 1_000_000n).toString());
+  });
+
+  it("validates the recipient against the bech32 prefix of the destination chain", async () => {
+    const { mockChain } = await setup();
+    const destination = defineChain({
+      ...mainnetChains.osmosis,
+      bech32Config: { ...mainnetChains.osmosis.bech32Config, bech32PrefixAccAddr: "custom" },
+    });
+
+    await expect(send({ destination })).rejects.toThrow('does not match bech32 prefix "custom" of osmosis-1');
+    await expect(send({ recipientAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430" })).rejects.toThrow(
+      'does not match bech32 prefix "osmo" of osmosis-1',
+    );
+    expect(mockChain.transactions).toHaveLength(0);
+  });
+
+  it("rejects destinations without a known channel", async () => {
+    await setup();
+
+    await expect(send({ destination: "unknown-1" })).rejects.toThrow(
+      "No IBC transfer channel from cosmoshub-4 to unknown-1, configure ibcChannels",
+    );
+  });
+});
@@ -0,0 +1,489 @@
+import { sha256 } from "@cosmjs/crypto";
+import { fromBech32, toHex, toUtf8 } from "@cosmjs/encoding";
+import type { DeliverTxResponse, IbcExtension } from "@cosmjs/stargate";
+import { logs, QueryClient, setupIbcExtension } from "@cosmjs/stargate";
+import { Tendermint34Client } from "@cosmjs/tendermint-rpc";
+import type { AppCurrency, Currency, IBCCurrency } from "@keplr-wallet/types";
+import { ClientState } from "cosmjs-types/ibc/lightclients/tendermint/v1/tendermint";
+// eslint-disable-next-line import/no-named-as-default
+import Long from "long";
+
+import type { GrazChain } from "../chains";
+import { mainnetChainsArray, mainnetIbcChannels, testnetChainsArray } from "../chains";
+import { IBC_TRANSFER_TIMEOUT_MS } from "../constant";
+import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import { getChainSession } from "./account";
+import type { SendIbcTokensArgs } from "./methods";
+import { sendIbcTokens } from "./methods";
+import { waitForTransaction } from "./transaction";
+
+/**
+ * Denom trace of a denom, with currency metadata resolved from configured chains
+ */
+export interface GrazDenomTrace {
+  denom: string;
+  /**
+   * IBC transfer path, e.g. `"transfer/channel-0"`, empty if the denom is native to the chain
+   */
+  path: string;
+  baseDenom: string;
+  /**
+   * currency listed in `currencies` of the chain, otherwise `IBCCurrency` of IBC denoms whose path leads to a known
+   * chain listing the base denom in `currencies`. `undefined` if unknown
+   */
+  currency?: AppCurrency;
+}
+
+// denom traces keyed by chain id and ibc denom hash, traces never change once created on chain
+const denomTraces = new Map<string, Map<string, Promise<{ path: string; baseDenom: string }>>>();
+
+const getIbcQueryClient = (chainId?: string): QueryClient & IbcExtension => {
+  const { clients } = getChainSession(chainId);
+  if (!clients?.tendermint) {
+    throw new Error("Tendermint client is not ready");
+  }
+  return QueryClient.withExtensions(clients.tendermint, setupIbcExtension);
+};
+
+// connected and configured chains take precedence over built-in chains
+const getKnownChains = (): GrazChain[] => {
+  const { defaultChain, recentChains, walletConnect } = useGrazInternalStore.getState();
+  const { activeChain, sessions } = useGrazSessionStore.getState();
+  const chains = [
+    activeChain,
+    ...Object.values(sessions).map((x) => x.chain),
+    defaultChain,
+    ...(recentChains || []),
+    ...(walletConnect?.chains || []),
+    ...mainnetChainsArray,
+    ...testnetChainsArray,
+  ];
+  return chains.filter((x): x is GrazChain => Boolean(x));
+};
+
+// counterparty chain ids keyed by chain id, port and channel, channels never change their counterparty
+const counterpartyChainIds = new Map<string, Promise<string>>();
+
+const getCounterpartyChainId = (portId: string, channelId: string, chainId: string) => {
+  const key = `${chainId}:${portId}/${channelId}`;
+  let counterpartyChainId = counterpartyChainIds.get(key);
+  if (!counterpartyChainId) {
+    counterpartyChainId = getIbcQueryClient(chainId)
+      .ibc.channel.clientState(portId, channelId)
+      .then(({ identifiedClientState }) => {
+        const clientState = identifiedClientState?.clientState;
+        if (clientState?.typeUrl !== "/ibc.lightclients.tendermint.v1.ClientState") {
+          throw new Error(`Counterparty chain of ${portId}/${channelId} is not a Tendermint chain`);
+        }
+        return ClientState.decode(clientState.value).chainId;
+      });
+    // failed queries are retried on next call
+    counterpartyChainId.catch(() => counterpartyChainIds.delete(key));
+    counterpartyChainIds.set(key, counterpartyChainId);
+  }
+  return counterpartyChainId;
+};
+
+// counterparty chain of given channel from configured `ibcChannels` or `mainnetIbcChannels`, otherwise queried from
+// the channel client state if the chain is connected. `undefined` if unknown
+const resolveCounterpartyChainId = async (portId: string, channelId: string, chainId: string) => {
+  const { ibcChannels } = useGrazInternalStore.getState();
+  for (const { chain1, chain2 } of [...(ibcChannels || []), ...mainnetIbcChannels]) {
+    const [source, destination] = chain1.chainId === chainId ? [chain1, chain2] : [chain2, chain1];
+    if (source.chainId === chainId && source.channelId === channelId && (source.portId ?? "transfer") === portId) {
+      return destination.chainId;
+    }
+  }
+  if (!getChainSession(chainId).clients?.tendermint) return undefined;
+  return getCounterpartyChainId(portId, channelId, chainId).catch(() => undefined);
+};
+
+// metadata is only attached if the path leads from given chain to a known chain listing the base denom, so a token
+// sharing the base denom of another chain is not mistaken for it
+const getIbcCurrency = async (
+  denom: string,
+  path: string,
+  baseDenom: string,
+  chainId: string,
+): Promise<IBCCurrency | undefined> => {
+  const segments = path.split("/");
+  const paths = Array.from({ length: Math.floor(segments.length / 2) }, (_, i) => ({
+    portId: segments[i * 2]!,
+    channelId: segments[i * 2 + 1]!,
+  }));
+  if (!paths.length) return undefined;
+  let originChainId: string | undefined = chainId;
+  for (const { portId, channelId } of paths) {
+    // eslint-disable-next-line no-await-in-loop
+    originChainId = await resolveCounterpartyChainId(portId, channelId, originChainId);
+    if (!originChainId) return undefined;
+  }
+  const originCurrency = getKnownChains()
+    .filter((x) => x.chainId === originChainId)
+    .flatMap((x) => x.currencies)
+    .find((x) => x.coinMinimalDenom === baseDenom);
+  if (!originCurrency) return undefined;
+  const { coinDenom, coinDecimals, coinGeckoId, coinImageUrl } = originCurrency;
+  return {
+    coinDenom,
+    coinMinimalDenom: denom,
+    coinDecimals,
+    coinGeckoId,
+    coinImageUrl,
+    paths,
+    originChainId,
+    originCurrency: originCurrency as Currency,
+  };
+};
+
+const queryDenomTrace = (hash: string, chainId: string) => {
+  const cache = denomTraces.get(chainId) || new Map<string, Promise<{ path: string; baseDenom: string }>>();
+  denomTraces.set(chainId, cache);
+  let trace = cache.get(hash);
+  if (!trace) {
+    trace = getIbcQueryClient(chainId)
+      .ibc.transfer.denomTrace(hash)
+      .then(({ denomTrace }) => {
+        if (!denomTrace) {
+          throw new Error(`Denom trace of ibc/${hash} is not found`);
+        }
+        return { path: denomTrace.path, baseDenom: denomTrace.baseDenom };
+      });
+    // failed queries are retried on next call
+    trace.catch(() => cache.delete(hash));
+    cache.set(hash, trace);
+  }
+  return trace;
+};
+
+/**
+ * Function to resolve path and base denom of given denom by querying IBC transfer module, with currency metadata
+ * from `currencies` of the origin chain the path leads to, so IBC balances render with proper symbols and decimals.
+ * Denom traces are cached per chain. Non-IBC denoms resolve to the currency of given chain.
+ *
+ * @example
+ * ```ts
+ * import { getDenomTrace } from "graz";
+ *
+ * const { path, baseDenom, currency } = await getDenomTrace(
+ *   "ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2",
+ * );
+ * ```
+ */
+export const getDenomTrace = async (denom: string, chainId?: string): Promise<GrazDenomTrace> => {
+  const { chain } = getChainSession(chainId);
+  if (!chain) {
+    throw new Error("Chain is not connected");
+  }
+  // chains may list IBC currencies themselves, e.g. chain infos suggested to Keplr
+  const listed = chain.currencies.find((x) => x.coinMinimalDenom === denom);
+  if (!denom.startsWith("ibc/")) {
+    return { denom, path: "", baseDenom: denom, currency: listed };
+  }
+  const { path, baseDenom } = await queryDenomTrace(denom.slice("ibc/".length).toUpperCase(), chain.chainId);
+  return { denom, path, baseDenom, currency: listed ?? (await getIbcCurrency(denom, path, baseDenom, chain.chainId)) };
+};
+
+/**
+ * Function to resolve denom traces of given denoms, e.g. of all balances, keyed by denom.
+ *
+ * @example
+ * ```ts
+ * import { getBalances, getDenomTraces } from "graz";
+ *
+ * const balances = await getBalances(address);
+ * const traces = await getDenomTraces(balances.map((x) => x.denom));
+ * ```
+ *
+ * @see {@link getDenomTrace}
+ */
+export const getDenomTraces = async (denoms: string[], chainId?: string): Promise<Record<string, GrazDenomTrace>> => {
+  const traces = await Promise.all([...new Set(denoms)].map((denom) => getDenomTrace(denom, chainId)));
+  return Object.fromEntries(traces.map((trace) => [trace.denom, trace]));
+};
+
+export interface IbcTransferChannel {
+  portId: string;
+  channelId: string;
+  counterpartyPortId: string;
+  counterpartyChannelId: string;
+}
+
+/**
+ * Function to resolve IBC transfer channel from source chain to destination chain, from configured `ibcChannels` or
+ * provided `mainnetIbcChannels`. Returns `undefined` if no channel is known.
+ *
+ * @example
+ * ```ts
+ * import { getIbcChannel } from "graz";
+ *
+ * const { portId, channelId } = getIbcChannel("cosmoshub-4", "osmosis-1")!; // "transfer", "channel-141"
+ * ```
+ */
+export const getIbcChannel = (sourceChainId: string, destinationChainId: string): IbcTransferChannel | undefined => {
+  const { ibcChannels } = useGrazInternalStore.getState();
+  for (const { chain1, chain2 } of [...(ibcChannels || []), ...mainnetIbcChannels]) {
+    const [source, destination] = chain1.chainId === sourceChainId ? [chain1, chain2] : [chain2, chain1];
+    if (source.chainId === sourceChainId && destination.chainId === destinationChainId) {
+      return {
+        portId: source.portId ?? "transfer",
+        channelId: source.channelId,
+        counterpartyPortId: destination.portId ?? "transfer",
+        counterpartyChannelId: destination.channelId,
+      };
+    }
+  }
+  return undefined;
+};
+
+export type SendIbcTokensToChainArgs = Omit<
+  SendIbcTokensArgs,
+  "sourcePort" | "sourceChannel" | "timeoutHeight" | "timeoutTimestamp"
+> & {
+  /**
+   * destination chain or its chain id, bech32 prefix of `recipientAddress` is validated against `bech32Config` of
+   * the chain if known
+   */
+  destination: GrazChain | string;
+  /**
+   * milliseconds until the transfer times out and tokens are refunded, defaults to 10 minutes
+   */
+  timeout?: number;
+};
+
+/**
+ * Function to send IBC tokens to destination chain, resolving the transfer channel with {@link getIbcChannel}
+ * instead of requiring `sourcePort` and `sourceChannel`.
+ *
+ * @example
+ * ```ts
+ * import { sendIbcTokensToChain } from "graz";
+ *
+ * await sendIbcTokensToChain({
+ *   senderAddress: "cosmos1...",
+ *   recipientAddress: "osmo1...",
+ *   transferAmount: { denom: "uatom", amount: "1000000" },
+ *   destination: "osmosis-1",
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const sendIbcTokensToChain = ({
+  destination,
+  timeout = IBC_TRANSFER_TIMEOUT_MS,
+  ...args
+}: SendIbcTokensToChainArgs): Promise<DeliverTxResponse> => {
+  const { chain } = getChainSession(args.chainId);
+  if (!chain) {
+    throw new Error("Chain is not connected");
+  }
+  const destinationChainId = typeof destination === "string" ? destination : destination.chainId;
+  const channel = getIbcChannel(chain.chainId, destinationChainId);
+  if (!channel) {
+    throw new Error(`No IBC transfer channel from ${chain.chainId} to ${destinationChainId}, configure ibcChannels`);
+  }
+
+  const destinationChain =
+    typeof destination === "string" ? getKnownChains().find((x) => x.chainId === destination) : destination;
+  const prefix = destinationChain?.bech32Config?.bech32PrefixAccAddr;
+  let recipientPrefix: string;
+  try {
+    recipientPrefix = fromBech32(args.recipientAddress).prefix;
+  } catch (error) {
+    throw new Error(`Recipient address ${args.recipientAddress} is not a valid bech32 address`);
+  }
+  if (prefix && recipientPrefix !== prefix) {
+    throw new Error(
+      `Recipient address ${args.recipientAddress} does not match bech32 prefix "${prefix}" of ${destinationChainId}`,
+    );
+  }
+
+  return sendIbcTokens({
+    ...args,
+    sourcePort: channel.portId,
+    sourceChannel: channel.channelId,
+    timeoutTimestamp: Math.floor((Date.now() + timeout) / 1000),
+  });
+};
+
+/**
+ * Lifecycle of an IBC transfer: `"sent"` until received on destination chain, `"timedOut"` until the timeout is
+ * relayed back and tokens are `"refunded"`. Received transfers are `"acknowledged"`, or `"refunded"` if the
+ * destination chain acknowledged an error.
+ */
+export type IbcTransferStatus = "sent" | "received" | "acknowledged" | "timedOut" | "refunded";
+
+/**
+ * IBC packet sent by a transfer transaction
+ */
+export interface GrazIbcPacket {
+  sequence: number;
+  sourcePort: string;
+  sourceChannel: string;
+  destinationPort: string;
+  destinationChannel: string;
+  /**
+   * timeout height on destination chain, `undefined` if disabled
+   */
+  timeoutHeight?: { revisionNumber: number; revisionHeight: number };
+  /**
+   * timeout as unix timestamp in milliseconds, `undefined` if disabled
+   */
+  timeoutTimestamp?: number;
+}
+
+export interface GrazIbcTransfer {
+  status: IbcTransferStatus;
+  packet: GrazIbcPacket;
+  destinationChainId: string;
+}
+
+// ics20 success acknowledgement `{"result":"AQ=="}`, chains store the sha256 hash of acknowledgements
+const successAcknowledgementHash = toHex(sha256(toUtf8(JSON.stringify({ result: "AQ==" }))));
+
+// Tendermint clients of destination chains which are not connected
+const tendermintClients = new Map<string, Promise<Tendermint34Client>>();
+
+const isNotFound = (error: unknown) => error instanceof Error && error.message.includes("not found");
+
+/**
+ * Function to extract IBC packet sent by given transfer transaction response.
+ *
+ * @example
+ * ```ts
+ * import { getIbcPacket, sendIbcTokensToChain } from "graz";
+ *
+ * const response = await sendIbcTokensToChain({ ... });
+ * const { sequence, sourceChannel } = getIbcPacket(response);
+ * ```
+ */
+export const getIbcPacket = (response: DeliverTxResponse): GrazIbcPacket => {
+  // older chains only report events in raw log
+  const rawLogEvents = response.rawLog ? logs.parseRawLog(response.rawLog).flatMap((log) => log.events) : [];
+  const events = response.events.length ? response.events : rawLogEvents;
+  const event = events.find((x) => x.type === "send_packet");
+  if (!event) {
+    throw new Error(`No IBC packet sent by transaction ${response.transactionHash}`);
+  }
+  const attributes: Record<string, string | undefined> = Object.fromEntries(
+    event.attributes.map((x) => [x.key, x.value]),
+  );
+  const [revisionNumber = 0, revisionHeight = 0] = (attributes.packet_timeout_height || "0-0").split("-").map(Number);
+  const timeoutTimestamp = Long.fromString(attributes.packet_timeout_timestamp || "0")
+    .divide(1_000_000)
+    .toNumber();
+  return {
+    sequence: Number(attributes.packet_sequence),
+    sourcePort: attributes.packet_src_port!,
+    sourceChannel: attributes.packet_src_channel!,
+    destinationPort: attributes.packet_dst_port!,
+    destinationChannel: attributes.packet_dst_channel!,
+    timeoutHeight: revisionHeight ? { revisionNumber, revisionHeight } : undefined,
+    timeoutTimestamp: timeoutTimestamp || undefined,
+  };
+};
+
+const getTendermintClient = (chain: GrazChain): Promise<Tendermint34Client> => {
+  const { clients } = getChainSession(chain.chainId);
+  if (clients?.tendermint) return Promise.resolve(clients.tendermint);
+  let client = tendermintClients.get(chain.chainId);
+  if (!client) {
+    const { _clientsFactory } = useGrazInternalStore.getState();
+    client = _clientsFactory
+      ? _clientsFactory.createClients(chain).then((x) => x.tendermint)
+      : Tendermint34Client.connect({ url: chain.rpc, headers: { ...(chain.rpcHeaders || {}) } });
+    client.catch(() => tendermintClients.delete(chain.chainId));
+    tendermintClients.set(chain.chainId, client);
+  }
+  return client;
+};
+
+export interface GetIbcTransferStatusArgs {
+  txHash: string;
+  /**
+   * connected chain the transfer was sent from, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * destination chain to query, defaults to the known chain matching the counterparty of the transfer channel
+   */
+  destination?: GrazChain;
+}
+
+/**
+ * Function to query status of IBC transfer sent by given transaction hash, by querying packet commitment on source
+ * chain, and packet receipt and acknowledgement on destination chain.
+ *
+ * @example
+ * ```ts
+ * import { getIbcTransferStatus } from "graz";
+ *
+ * const { status } = await getIbcTransferStatus({ txHash: "A1B2C3..." });
+ * ```
+ */
+export const getIbcTransferStatus = async ({
+  txHash,
+  chainId,
+  destination,
+}: GetIbcTransferStatusArgs): Promise<GrazIbcTransfer> => {
+  const hash = txHash.toUpperCase();
+  // stored responses are returned as is, pending transactions share the poll started by graz
+  const response = await waitForTransaction(hash, chainId);
+  if (response.code !== 0) {
+    throw new Error(`Transaction ${hash} failed with code ${response.code}`);
+  }
+  const packet = getIbcPacket(response);
+  const { sequence, sourcePort, sourceChannel, destinationPort, destinationChannel } = packet;
+
+  const { chain } = getChainSession(chainId);
+  if (!chain) {
+    throw new Error("Chain is not connected");
+  }
+  const destinationChainId =
+    destination?.chainId ?? (await getCounterpartyChainId(sourcePort, sourceChannel, chain.chainId));
+  const destinationChain = destination ?? getKnownChains().find((x) => x.chainId === destinationChainId);
+  if (!destinationChain) {
+    throw new Error(`Unknown destination chain ${destinationChainId}, pass destination chain`);
+  }
+  const tendermint = await getTendermintClient(destinationChain);
+  const destinationQueryClient = QueryClient.withExtensions(tendermint, setupIbcExtension);
+
+  // commitment is deleted once acknowledgement or timeout is relayed back, query it before the receipt which is never
+  // deleted so a transfer received in between is not mistaken as refunded
+  const isPending = await getIbcQueryClient(chain.chainId)
+    .ibc.channel.packetCommitment(sourcePort, sourceChannel, sequence)
+    .then(
+      ({ commitment }) => commitment.length > 0,
+      (error) => {
+        if (isNotFound(error)) return false;
+        throw error;
+      },
+    );
+  const { received } = await destinationQueryClient.ibc.channel.packetReceipt(
+    destinationPort,
+    destinationChannel,
+    sequence,
+  );
+
+  let status: IbcTransferStatus;
+  if (isPending && received) {
+    status = "received";
+  } else if (isPending) {
+    const { syncInfo } = await tendermint.status();
+    const isTimedOut =
+      (packet.timeoutTimestamp !== undefined && syncInfo.latestBlockTime.getTime() >= packet.timeoutTimestamp) ||
+      (packet.timeoutHeight !== undefined && syncInfo.latestBlockHeight >= packet.timeoutHeight.revisionHeight);
+    status = isTimedOut ? "timedOut" : "sent";
+  } else if (received) {
+    const { acknowledgement } = await destinationQueryClient.ibc.channel.packetAcknowledgement(
+      destinationPort,
+      destinationChannel,
+      sequence,
+    );
+    status = toHex(acknowledgement) === successAcknowledgementHash ? "acknowledged" : "refunded";
+  } else {
+    status = "refunded";
+  }
+
+  return { status, packet, destinationChainId };
+};
@@ -0,0 +1,801 @@
+import type { MsgExecuteContractEncodeObject, MsgInstantiateContractEncodeObject } from "@cosmjs/cosmwasm-stargate";
+import { toUtf8 } from "@cosmjs/encoding";
+import { Decimal } from "@cosmjs/math";
+import type { Coin, EncodeObject } from "@cosmjs/proto-signing";
+import { Registry } from "@cosmjs/proto-signing";
+import type {
+  GovProposalId,
+  MsgBeginRedelegateEncodeObject,
+  MsgDelegateEncodeObject,
+  MsgDepositEncodeObject,
+  MsgSendEncodeObject,
+  MsgTransferEncodeObject,
+  MsgUndelegateEncodeObject,
+  MsgVoteEncodeObject,
+  MsgVoteWeightedEncodeObject,
+  MsgWithdrawDelegatorRewardEncodeObject,
+} from "@cosmjs/stargate";
+import { defaultRegistryTypes } from "@cosmjs/stargate";
+import { GenericAuthorization } from "cosmjs-types/cosmos/authz/v1beta1/authz";
+import { MsgExec, MsgGrant, MsgRevoke } from "cosmjs-types/cosmos/authz/v1beta1/tx";
+import { SendAuthorization } from "cosmjs-types/cosmos/bank/v1beta1/authz";
+import { MsgSend } from "cosmjs-types/cosmos/bank/v1beta1/tx";
+import { MsgWithdrawDelegatorReward } from "cosmjs-types/cosmos/distribution/v1beta1/tx";
+import { AllowedMsgAllowance, BasicAllowance, PeriodicAllowance } from "cosmjs-types/cosmos/feegrant/v1beta1/feegrant";
+import { MsgGrantAllowance, MsgRevokeAllowance } from "cosmjs-types/cosmos/feegrant/v1beta1/tx";
+import type { VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+import { MsgDeposit, MsgVote, MsgVoteWeighted } from "cosmjs-types/cosmos/gov/v1beta1/tx";
+import { AuthorizationType, StakeAuthorization } from "cosmjs-types/cosmos/staking/v1beta1/authz";
+import { MsgBeginRedelegate, MsgDelegate, MsgUndelegate } from "cosmjs-types/cosmos/staking/v1beta1/tx";
+import {
+  AllowAllMessagesFilter,
+  CombinedLimit,
+  ContractExecutionAuthorization,
+  MaxCallsLimit,
+  MaxFundsLimit,
+} from "cosmjs-types/cosmwasm/wasm/v1/authz";
+import { MsgExecuteContract, MsgInstantiateContract } from "cosmjs-types/cosmwasm/wasm/v1/tx";
+import type { Any } from "cosmjs-types/google/protobuf/any";
+import type { Timestamp } from "cosmjs-types/google/protobuf/timestamp";
+import { MsgTransfer } from "cosmjs-types/ibc/applications/transfer/v1/tx";
+import type { Height } from "cosmjs-types/ibc/core/client/v1/client";
+// eslint-disable-next-line import/no-named-as-default
+import Long from "long";
+
+export interface BuildSendMsgArgs {
+  senderAddress: string;
+  recipientAddress: string;
+  amount: Coin[];
+}
+
+/**
+ * Function to build bank `MsgSend` message
+ *
+ * @example
+ * ```ts
+ * import { buildSendMsg } from "graz";
+ *
+ * const msg = buildSendMsg({
+ *   senderAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   recipientAddress: "cosmos1...",
+ *   amount: [{ denom: "uatom", amount: "1000" }],
+ * });
+ * ```
+ */
+export const buildSendMsg = ({ senderAddress, recipientAddress, amount }: BuildSendMsgArgs): MsgSendEncodeObject => ({
+  typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+  value: MsgSend.fromPartial({
+    fromAddress: senderAddress,
+    toAddress: recipientAddress,
+    amount: [...amount],
+  }),
+});
+
+export interface BuildTransferMsgArgs {
+  senderAddress: string;
+  recipientAddress: string;
+  transferAmount: Coin;
+  sourcePort: string;
+  sourceChannel: string;
+  timeoutHeight?: Height;
+  /**
+   * timeout timestamp in seconds
+   */
+  timeoutTimestamp?: number;
+}
+
+/**
+ * Function to build IBC `MsgTransfer` message
+ *
+ * @example
+ * ```ts
+ * import { buildTransferMsg } from "graz";
+ *
+ * const msg = buildTransferMsg({
+ *   senderAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   recipientAddress: "osmo1...",
+ *   transferAmount: { denom: "uatom", amount: "1000" },
+ *   sourcePort: "transfer",
+ *   sourceChannel: "channel-141",
+ *   timeoutTimestamp: Math.floor(Date.now() / 1000) + 600,
+ * });
+ * ```
+ */
+export const buildTransferMsg = ({
+  senderAddress,
+  recipientAddress,
+  transferAmount,
+  sourcePort,
+  sourceChannel,
+  timeoutHeight,
+  timeoutTimestamp,
+}: BuildTransferMsgArgs): MsgTransferEncodeObject => ({
+  typeUrl: "/ibc.applications.transfer.v1.MsgTransfer",
+  value: MsgTransfer.fromPartial({
+    sourcePort,
+    sourceChannel,
+    sender: senderAddress,
+    receiver: recipientAddress,
+    token: transferAmount,
+    timeoutHeight,
+    // timeout timestamp is given in seconds
+    timeoutTimestamp: timeoutTimestamp ? Long.fromNumber(timeoutTimestamp).multiply(1_000_000_000) : undefined,
+  }),
+});
+
+export interface BuildInstantiateContractMsgArgs<Message extends Record<string, unknown>> {
+  senderAddress: string;
+  codeId: number;
+  msg: Message;
+  label: string;
+  funds?: readonly Coin[];
+  admin?: string;
+}
+
+/**
+ * Function to build wasm `MsgInstantiateContract` message
+ *
+ * @example
+ * ```ts
+ * import { buildInstantiateContractMsg } from "graz";
+ *
+ * const msg = buildInstantiateContractMsg({
+ *   senderAddress: "juno1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   codeId: 4,
+ *   msg: { count: 0 },
+ *   label: "counter",
+ * });
+ * ```
+ */
+export const buildInstantiateContractMsg = <Message extends Record<string, unknown>>({
+  senderAddress,
+  codeId,
+  msg,
+  label,
+  funds = [],
+  admin,
+}: BuildInstantiateContractMsgArgs<Message>): MsgInstantiateContractEncodeObject => ({
+  typeUrl: "/cosmwasm.wasm.v1.MsgInstantiateContract",
+  value: MsgInstantiateContract.fromPartial({
+    sender: senderAddress,
+    codeId: Long.fromString(String(codeId)),
+    label,
+    msg: toUtf8(JSON.stringify(msg)),
+    funds: [...funds],
+    admin,
+  }),
+});
+
+export interface BuildExecuteContractMsgArgs<Message extends Record<string, unknown>> {
+  senderAddress: string;
+  contractAddress: string;
+  msg: Message;
+  funds?: readonly Coin[];
+}
+
+/**
+ * Function to build wasm `MsgExecuteContract` message
+ *
+ * @example
+ * ```ts
+ * import { buildExecuteContractMsg } from "graz";
+ *
+ * const msg = buildExecuteContractMsg({
+ *   senderAddress: "juno1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   contractAddress: "juno1...",
+ *   msg: { increment: {} },
+ * });
+ * ```
+ */
+export const buildExecuteContractMsg = <Message extends Record<string, unknown>>({
+  senderAddress,
+  contractAddress,
+  msg,
+  funds = [],
+}: BuildExecuteContractMsgArgs<Message>): MsgExecuteContractEncodeObject => ({
+  typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
+  value: MsgExecuteContract.fromPartial({
+    sender: senderAddress,
+    contract: contractAddress,
+    msg: toUtf8(JSON.stringify(msg)),
+    funds: [...funds],
+  }),
+});
+
+export interface BuildDelegateMsgArgs {
+  delegatorAddress: string;
+  validatorAddress: string;
+  amount: Coin;
+}
+
+/**
+ * Function to build staking `MsgDelegate` message
+ *
+ * @example
+ * ```ts
+ * import { buildDelegateMsg } from "graz";
+ *
+ * const msg = buildDelegateMsg({
+ *   delegatorAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   validatorAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000" },
+ * });
+ * ```
+ */
+export const buildDelegateMsg = ({
+  delegatorAddress,
+  validatorAddress,
+  amount,
+}: BuildDelegateMsgArgs): MsgDelegateEncodeObject => ({
+  typeUrl: "/cosmos.staking.v1beta1.MsgDelegate",
+  value: MsgDelegate.fromPartial({ delegatorAddress, validatorAddress, amount }),
+});
+
+/**
+ * Function to build staking `MsgUndelegate` message
+ *
+ * @example
+ * ```ts
+ * import { buildUndelegateMsg } from "graz";
+ *
+ * const msg = buildUndelegateMsg({
+ *   delegatorAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   validatorAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000" },
+ * });
+ * ```
+ */
+export const buildUndelegateMsg = ({
+  delegatorAddress,
+  validatorAddress,
+  amount,
+}: BuildDelegateMsgArgs): MsgUndelegateEncodeObject => ({
+  typeUrl: "/cosmos.staking.v1beta1.MsgUndelegate",
+  value: MsgUndelegate.fromPartial({ delegatorAddress, validatorAddress, amount }),
+});
+
+export interface BuildRedelegateMsgArgs {
+  delegatorAddress: string;
+  validatorSrcAddress: string;
+  validatorDstAddress: string;
+  amount: Coin;
+}
+
+/**
+ * Function to build staking `MsgBeginRedelegate` message
+ *
+ * @example
+ * ```ts
+ * import { buildRedelegateMsg } from "graz";
+ *
+ * const msg = buildRedelegateMsg({
+ *   delegatorAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   validatorSrcAddress: "cosmosvaloper1...",
+ *   validatorDstAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000" },
+ * });
+ * ```
+ */
+export const buildRedelegateMsg = ({
+  delegatorAddress,
+  validatorSrcAddress,
+  validatorDstAddress,
+  amount,
+}: BuildRedelegateMsgArgs): MsgBeginRedelegateEncodeObject => ({
+  typeUrl: "/cosmos.staking.v1beta1.MsgBeginRedelegate",
+  value: MsgBeginRedelegate.fromPartial({ delegatorAddress, validatorSrcAddress, validatorDstAddress, amount }),
+});
+
+export interface BuildWithdrawRewardsMsgArgs {
+  delegatorAddress: string;
+  validatorAddress: string;
+}
+
+/**
+ * Function to build distribution `MsgWithdrawDelegatorReward` message
+ *
+ * @example
+ * ```ts
+ * import { buildWithdrawRewardsMsg } from "graz";
+ *
+ * const msg = buildWithdrawRewardsMsg({
+ *   delegatorAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   validatorAddress: "cosmosvaloper1...",
+ * });
+ * ```
+ */
+export const buildWithdrawRewardsMsg = ({
+  delegatorAddress,
+  validatorAddress,
+}: BuildWithdrawRewardsMsgArgs): MsgWithdrawDelegatorRewardEncodeObject => ({
+  typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward",
+  value: MsgWithdrawDelegatorReward.fromPartial({ delegatorAddress, validatorAddress }),
+});
+
+export interface BuildVoteMsgArgs {
+  voterAddress: string;
+  proposalId: GovProposalId;
+  option: VoteOption;
+}
+
+/**
+ * Function to build gov `MsgVote` message
+ *
+ * @example
+ * ```ts
+ * import { buildVoteMsg } from "graz";
+ * import { VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+ *
+ * const msg = buildVoteMsg({
+ *   voterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   proposalId: 82,
+ *   option: VoteOption.VOTE_OPTION_YES,
+ * });
+ * ```
+ */
+export const buildVoteMsg = ({ voterAddress, proposalId, option }: BuildVoteMsgArgs): MsgVoteEncodeObject => ({
+  typeUrl: "/cosmos.gov.v1beta1.MsgVote",
+  value: MsgVote.fromPartial({
+    proposalId: Long.fromString(proposalId.toString()),
+    voter: voterAddress,
+    option,
+  }),
+});
+
+export interface BuildVoteWeightedMsgArgs {
+  voterAddress: string;
+  proposalId: GovProposalId;
+  /**
+   * weighted vote options, weights are decimal strings (e.g. `"0.5"`) which should add up to 1
+   */
+  options: { option: VoteOption; weight: string }[];
+}
+
+/**
+ * Function to build gov `MsgVoteWeighted` message
+ *
+ * @example
+ * ```ts
+ * import { buildVoteWeightedMsg } from "graz";
+ * import { VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+ *
+ * const msg = buildVoteWeightedMsg({
+ *   voterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   proposalId: 82,
+ *   options: [
+ *     { option: VoteOption.VOTE_OPTION_YES, weight: "0.7" },
+ *     { option: VoteOption.VOTE_OPTION_ABSTAIN, weight: "0.3" },
+ *   ],
+ * });
+ * ```
+ */
+export const buildVoteWeightedMsg = ({
+  voterAddress,
+  proposalId,
+  options,
+}: BuildVoteWeightedMsgArgs): MsgVoteWeightedEncodeObject => ({
+  typeUrl: "/cosmos.gov.v1beta1.MsgVoteWeighted",
+  value: MsgVoteWeighted.fromPartial({
+    proposalId: Long.fromString(proposalId.toString()),
+    voter: voterAddress,
+    // weights are encoded as 18 decimal places integer strings
+    options: options.map(({ option, weight }) => ({ option, weight: Decimal.fromUserInput(weight, 18).atomics })),
+  }),
+});
+
+export interface BuildDepositMsgArgs {
+  depositorAddress: string;
+  proposalId: GovProposalId;
+  amount: Coin[];
+}
+
+/**
+ * Function to build gov `MsgDeposit` message
+ *
+ * @example
+ * ```ts
+ * import { buildDepositMsg } from "graz";
+ *
+ * const msg = buildDepositMsg({
+ *   depositorAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   proposalId: 82,
+ *   amount: [{ denom: "uatom", amount: "1000000" }],
+ * });
+ * ```
+ */
+export const buildDepositMsg = ({
+  depositorAddress,
+  proposalId,
+  amount,
+}: BuildDepositMsgArgs): MsgDepositEncodeObject => ({
+  typeUrl: "/cosmos.gov.v1beta1.MsgDeposit",
+  value: MsgDeposit.fromPartial({
+    proposalId: Long.fromString(proposalId.toString()),
+    depositor: depositorAddress,
+    amount: [...amount],
+  }),
+});
+
+export interface MsgGrantEncodeObject extends EncodeObject {
+  readonly typeUrl: "/cosmos.authz.v1beta1.MsgGrant";
+  readonly value: Partial<MsgGrant>;
+}
+
+export interface MsgRevokeEncodeObject extends EncodeObject {
+  readonly typeUrl: "/cosmos.authz.v1beta1.MsgRevoke";
+  readonly value: Partial<MsgRevoke>;
+}
+
+export interface MsgExecEncodeObject extends EncodeObject {
+  readonly typeUrl: "/cosmos.authz.v1beta1.MsgExec";
+  readonly value: Partial<MsgExec>;
+}
+
+export type StakeAuthorizationType = "delegate" | "undelegate" | "redelegate";
+
+/**
+ * Authz authorization to grant, `generic` allows unrestricted execution of given message type
+ */
+export type GrazAuthorization =
+  | { type: "generic"; msgTypeUrl: string }
+  | { type: "send"; spendLimit: Coin[] }
+  | {
+      type: "stake";
+      authorizationType: StakeAuthorizationType;
+      /**
+       * maximum amount of tokens, unlimited if undefined
+       */
+      maxTokens?: Coin;
+      /**
+       * validator addresses allowed, mutually exclusive with `denyList`
+       */
+      allowList?: string[];
+      denyList?: string[];
+    }
+  | {
+      type: "contract";
+      /**
+       * contract addresses allowed to execute, requires wasmd v0.31 or later
+       */
+      contracts: string[];
+      /**
+       * maximum number of executions per contract, unlimited if only `maxFunds` is given. At least one of `maxCalls`
+       * and `maxFunds` is required
+       */
+      maxCalls?: number;
+      /**
+       * maximum funds sent per contract, no funds allowed if only `maxCalls` is given
+       */
+      maxFunds?: Coin[];
+    };
+
+const stakeAuthorizationTypes: Record<StakeAuthorizationType, [AuthorizationType, string]> = {
+  delegate: [AuthorizationType.AUTHORIZATION_TYPE_DELEGATE, "/cosmos.staking.v1beta1.MsgDelegate"],
+  undelegate: [AuthorizationType.AUTHORIZATION_TYPE_UNDELEGATE, "/cosmos.staking.v1beta1.MsgUndelegate"],
+  redelegate: [AuthorizationType.AUTHORIZATION_TYPE_REDELEGATE, "/cosmos.staking.v1beta1.MsgBeginRedelegate"],
+};
+
+/**
+ * Function to return message type url authorized by given authorization, e.g. to revoke it
+ *
+ * @example
+ * ```ts
+ * import { getAuthorizationMsgTypeUrl } from "graz";
+ *
+ * getAuthorizationMsgTypeUrl({ type: "send", spendLimit: [] }); // "/cosmos.bank.v1beta1.MsgSend"
+ * ```
+ */
+export const getAuthorizationMsgTypeUrl = (authorization: GrazAuthorization): string => {
+  switch (authorization.type) {
+    case "generic":
+      return authorization.msgTypeUrl;
+    case "send":
+      return "/cosmos.bank.v1beta1.MsgSend";
+    case "stake":
+      return stakeAuthorizationTypes[authorization.authorizationType][1];
+    case "contract":
+      return "/cosmwasm.wasm.v1.MsgExecuteContract";
+    default:
+      throw new Error("Unsupported authorization type");
+  }
+};
+
+const toTimestamp = (date: Date): Timestamp => ({
+  seconds: Long.fromNumber(Math.floor(date.getTime() / 1000)),
+  nanos: (date.getTime() % 1000) * 1000000,
+});
+
+const encodeContractGrantLimit = (maxCalls?: number, maxFunds?: Coin[]): Any => {
+  if (maxCalls !== undefined && maxFunds) {
+    return {
+      typeUrl: "/cosmwasm.wasm.v1.CombinedLimit",
+      value: CombinedLimit.encode({ callsRemaining: Long.fromNumber(maxCalls, true), amounts: [...maxFunds] }).finish(),
+    };
+  }
+  if (maxCalls !== undefined) {
+    return {
+      typeUrl: "/cosmwasm.wasm.v1.MaxCallsLimit",
+      value: MaxCallsLimit.encode({ remaining: Long.fromNumber(maxCalls, true) }).finish(),
+    };
+  }
+  if (maxFunds) {
+    return {
+      typeUrl: "/cosmwasm.wasm.v1.MaxFundsLimit",
+      value: MaxFundsLimit.encode({ amounts: [...maxFunds] }).finish(),
+    };
+  }
+  throw new Error("Contract authorization requires maxCalls or maxFunds");
+};
+
+const encodeAuthorization = (authorization: GrazAuthorization): Any => {
+  switch (authorization.type) {
+    case "generic":
+      return {
+        typeUrl: "/cosmos.authz.v1beta1.GenericAuthorization",
+        value: GenericAuthorization.encode({ msg: authorization.msgTypeUrl }).finish(),
+      };
+    case "send":
+      return {
+        typeUrl: "/cosmos.bank.v1beta1.SendAuthorization",
+        value: SendAuthorization.encode({ spendLimit: [...authorization.spendLimit] }).finish(),
+      };
+    case "stake":
+      return {
+        typeUrl: "/cosmos.staking.v1beta1.StakeAuthorization",
+        value: StakeAuthorization.encode(
+          StakeAuthorization.fromPartial({
+            authorizationType: stakeAuthorizationTypes[authorization.authorizationType][0],
+            maxTokens: authorization.maxTokens,
+            allowList: authorization.allowList ? { address: authorization.allowList } : undefined,
+            denyList: authorization.denyList ? { address: authorization.denyList } : undefined,
+          }),
+        ).finish(),
+      };
+    case "contract":
+      return {
+        typeUrl: "/cosmwasm.wasm.v1.ContractExecutionAuthorization",
+        value: ContractExecutionAuthorization.encode({
+          grants: authorization.contracts.map((contract) => ({
+            contract,
+            limit: encodeContractGrantLimit(authorization.maxCalls, authorization.maxFunds),
+            filter: {
+              typeUrl: "/cosmwasm.wasm.v1.AllowAllMessagesFilter",
+              value: AllowAllMessagesFilter.encode({}).finish(),
+            },
+          })),
+        }).finish(),
+      };
+    default:
+      throw new Error("Unsupported authorization type");
+  }
+};
+
+export interface BuildGrantMsgArgs {
+  granterAddress: string;
+  granteeAddress: string;
+  authorization: GrazAuthorization;
+  /**
+   * grant expiration, required by chains running cosmos-sdk before v0.46
+   */
+  expiration?: Date;
+}
+
+/**
+ * Function to build authz `MsgGrant` message
+ *
+ * @example
+ * ```ts
+ * import { buildGrantMsg } from "graz";
+ *
+ * const msg = buildGrantMsg({
+ *   granterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   granteeAddress: "cosmos1...",
+ *   authorization: { type: "send", spendLimit: [{ denom: "uatom", amount: "1000000" }] },
+ *   expiration: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+ * });
+ * ```
+ */
+export const buildGrantMsg = ({
+  granterAddress,
+  granteeAddress,
+  authorization,
+  expiration,
+}: BuildGrantMsgArgs): MsgGrantEncodeObject => ({
+  typeUrl: "/cosmos.authz.v1beta1.MsgGrant",
+  value: MsgGrant.fromPartial({
+    granter: granterAddress,
+    grantee: granteeAddress,
+    grant: {
+      authorization: encodeAuthorization(authorization),
+      expiration: expiration ? toTimestamp(expiration) : undefined,
+    },
+  }),
+});
+
+export interface BuildRevokeMsgArgs {
+  granterAddress: string;
+  granteeAddress: string;
+  msgTypeUrl: string;
+}
+
+/**
+ * Function to build authz `MsgRevoke` message
+ *
+ * @example
+ * ```ts
+ * import { buildRevokeMsg } from "graz";
+ *
+ * const msg = buildRevokeMsg({
+ *   granterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   granteeAddress: "cosmos1...",
+ *   msgTypeUrl: "/cosmos.bank.v1beta1.MsgSend",
+ * });
+ * ```
+ */
+export const buildRevokeMsg = ({
+  granterAddress,
+  granteeAddress,
+  msgTypeUrl,
+}: BuildRevokeMsgArgs): MsgRevokeEncodeObject => ({
+  typeUrl: "/cosmos.authz.v1beta1.MsgRevoke",
+  value: MsgRevoke.fromPartial({
+    granter: granterAddress,
+    grantee: granteeAddress,
+    msgTypeUrl,
+  }),
+});
+
+const execRegistry = new Registry([
+  ...defaultRegistryTypes,
+  ["/cosmwasm.wasm.v1.MsgExecuteContract", MsgExecuteContract],
+  ["/cosmwasm.wasm.v1.MsgInstantiateContract", MsgInstantiateContract],
+]);
+
+export interface BuildExecMsgArgs {
+  granteeAddress: string;
+  /**
+   * messages to execute on behalf of granter, signer of each message must be the granter. Messages of types not
+   * registered by default must be encoded (`value` as bytes)
+   */
+  messages: EncodeObject[];
+}
+
+/**
+ * Function to build authz `MsgExec` message, which executes given messages on behalf of their granter
+ *
+ * @example
+ * ```ts
+ * import { buildExecMsg, buildSendMsg } from "graz";
+ *
+ * const msg = buildExecMsg({
+ *   granteeAddress: "cosmos1...",
+ *   messages: [buildSendMsg({ senderAddress: granterAddress, recipientAddress, amount })],
+ * });
+ * ```
+ */
+export const buildExecMsg = ({ granteeAddress, messages }: BuildExecMsgArgs): MsgExecEncodeObject => ({
+  typeUrl: "/cosmos.authz.v1beta1.MsgExec",
+  value: MsgExec.fromPartial({
+    grantee: granteeAddress,
+    msgs: messages.map((msg) =>
+      msg.value instanceof Uint8Array ? { typeUrl: msg.typeUrl, value: msg.value } : execRegistry.encodeAsAny(msg),
+    ),
+  }),
+});
+
+export interface MsgGrantAllowanceEncodeObject extends EncodeObject {
+  readonly typeUrl: "/cosmos.feegrant.v1beta1.MsgGrantAllowance";
+  readonly value: Partial<MsgGrantAllowance>;
+}
+
+export interface MsgRevokeAllowanceEncodeObject extends EncodeObject {
+  readonly typeUrl: "/cosmos.feegrant.v1beta1.MsgRevokeAllowance";
+  readonly value: Partial<MsgRevokeAllowance>;
+}
+
+/**
+ * Feegrant allowance to grant, `basic` allows spending up to `spendLimit` in total while `periodic` additionally
+ * resets `periodSpendLimit` every `period` seconds
+ */
+export type GrazFeeAllowance = {
+  /**
+   * total spend limit, unlimited if undefined
+   */
+  spendLimit?: Coin[];
+  expiration?: Date;
+  /**
+   * message type urls the allowance can pay fees for, any message if undefined
+   */
+  allowedMessages?: string[];
+} & ({ type: "basic" } | { type: "periodic"; period: number; periodSpendLimit: Coin[] });
+
+const encodeFeeAllowance = (allowance: GrazFeeAllowance): Any => {
+  const basic = BasicAllowance.fromPartial({
+    spendLimit: allowance.spendLimit ? [...allowance.spendLimit] : [],
+    expiration: allowance.expiration ? toTimestamp(allowance.expiration) : undefined,
+  });
+  const encoded: Any =
+    allowance.type === "periodic"
+      ? {
+          typeUrl: "/cosmos.feegrant.v1beta1.PeriodicAllowance",
+          value: PeriodicAllowance.encode(
+            PeriodicAllowance.fromPartial({
+              basic,
+              period: { seconds: Long.fromNumber(allowance.period), nanos: 0 },
+              periodSpendLimit: [...allowance.periodSpendLimit],
+              periodCanSpend: [...allowance.periodSpendLimit],
+            }),
+          ).finish(),
+        }
+      : { typeUrl: "/cosmos.feegrant.v1beta1.BasicAllowance", value: BasicAllowance.encode(basic).finish() };
+  if (!allowance.allowedMessages) return encoded;
+  return {
+    typeUrl: "/cosmos.feegrant.v1beta1.AllowedMsgAllowance",
+    value: AllowedMsgAllowance.encode({
+      allowance: encoded,
+      allowedMessages: [...allowance.allowedMessages],
+    }).finish(),
+  };
+};
+
+export interface BuildGrantAllowanceMsgArgs {
+  granterAddress: string;
+  granteeAddress: string;
+  allowance: GrazFeeAllowance;
+}
+
+/**
+ * Function to build feegrant `MsgGrantAllowance` message
+ *
+ * @example
+ * ```ts
+ * import { buildGrantAllowanceMsg } from "graz";
+ *
+ * const msg = buildGrantAllowanceMsg({
+ *   granterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   granteeAddress: "cosmos1...",
+ *   allowance: { type: "basic", spendLimit: [{ denom: "uatom", amount: "100000" }] },
+ * });
+ * ```
+ */
+export const buildGrantAllowanceMsg = ({
+  granterAddress,
+  granteeAddress,
+  allowance,
+}: BuildGrantAllowanceMsgArgs): MsgGrantAllowanceEncodeObject => ({
+  typeUrl: "/cosmos.feegrant.v1beta1.MsgGrantAllowance",
+  value: MsgGrantAllowance.fromPartial({
+    granter: granterAddress,
+    grantee: granteeAddress,
+    allowance: encodeFeeAllowance(allowance),
+  }),
+});
+
+export interface BuildRevokeAllowanceMsgArgs {
+  granterAddress: string;
+  granteeAddress: string;
+}
+
+/**
+ * Function to build feegrant `MsgRevokeAllowance` message
+ *
+ * @example
+ * ```ts
+ * import { buildRevokeAllowanceMsg } from "graz";
+ *
+ * const msg = buildRevokeAllowanceMsg({
+ *   granterAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   granteeAddress: "cosmos1...",
+ * });
+ * ```
+ */
+export const buildRevokeAllowanceMsg = ({
+  granterAddress,
+  granteeAddress,
+}: BuildRevokeAllowanceMsgArgs): MsgRevokeAllowanceEncodeObject => ({
+  typeUrl: "/cosmos.feegrant.v1beta1.MsgRevokeAllowance",
+  value: MsgRevokeAllowance.fromPartial({
+    granter: granterAddress,
+    grantee: granteeAddress,
+  }),
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { mainnetChains } from "../chains";
+import type { GrazClientsFactory, GrazSigningClients } from "../store";
+import { useGrazInternalStore } from "../store";
+import { createMockChain, installMockChain } from "../testing/clients";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, installMockWallet } from "../testing/wallet";
+import { connect } from "./account";
+import { configureGraz } from "./configure";
+import { buildExecuteContractMsg, buildSendMsg } from "./messages";
+import { signAndBroadcast, simulateFee } from "./methods";
+
+const RECIPIENT_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const CONTRACT_ADDRESS = "cosmos14hj2tavq8fpesdwxxcu44rty3hh90vhujrvcmstl4zr3txmfvw9s4hmalr";
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+// in-memory clients recording which signing client signed each transaction
+const installTrackedMockChain = async () => {
+  const address = await getMockAddress();
+  const mockChain = createMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+  const signedBy: (keyof GrazSigningClients)[] = [];
+  const clientsFactory: GrazClientsFactory = {
+    ...mockChain.clientsFactory,
+    createSigningClients: async (...args) => {
+      const clients = await mockChain.clientsFactory.createSigningClients(...args);
+      const track = <T extends keyof GrazSigningClients>(name: T) =>
+        Object.assign(Object.create(clients[name]) as GrazSigningClients[T], {
+          sign: (...params: Parameters<GrazSigningClients["stargate"]["sign"]>) => {
+            signedBy.push(name);
+            return clients[name].sign(...params);
+          },
+        });
+      return { cosmWasm: track("cosmWasm"), stargate: track("stargate") };
+    },
+  };
+  useGrazInternalStore.setState({ _clientsFactory: clientsFactory });
+  installMockWallet();
+  await connect({ chain });
+  return { address, mockChain, signedBy };
+};
+
+describe("signAndBroadcast", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("signs wasm messages with the cosmWasm client", async () => {
+    const { address: senderAddress, mockChain, signedBy } = await installTrackedMockChain();
+
+    await signAndBroadcast({
+      messages: [
+        buildSendMsg({ senderAddress, recipientAddress: RECIPIENT_ADDRESS, amount: [{ denom: "uatom", amount: "1" }] }),
+        buildExecuteContractMsg({
+          senderAddress,
+          contractAddress: CONTRACT_ADDRESS,
+          msg: { increment: {} },
+          funds: [],
+        }),
+      ],
+      fee: "auto",
+    });
+
+    expect(signedBy).toEqual(["cosmWasm"]);
+    expect(mockChain.transactions[0]?.messages.map((x) => x.typeUrl)).toEqual([
+      "/cosmos.bank.v1beta1.MsgSend",
+      "/cosmwasm.wasm.v1.MsgExecuteContract",
+    ]);
+  });
+
+  it("signs other messages with the default signing client", async () => {
+    const { address, signedBy } = await installTrackedMockChain();
+    const send = buildSendMsg({
+      senderAddress: address,
+      recipientAddress: RECIPIENT_ADDRESS,
+      amount: [{ denom: "uatom", amount: "1" }],
+    });
+
+    await signAndBroadcast({ messages: [send], fee: "auto" });
+    configureGraz({ defaultSigningClient: "cosmWasm" });
+    await signAndBroadcast({ messages: [send], fee: "auto" });
+
+    expect(signedBy).toEqual(["stargate", "cosmWasm"]);
+  });
+
+  it("rejects failed transactions", async () => {
+    installMockChain({ deliverTx: () => ({ code: 5, log: "insufficient funds" }) });
+    installMockWallet();
+    const { account } = await connect({ chain });
+    const send = buildSendMsg({
+      senderAddress: account.bech32Address,
+      recipientAddress: RECIPIENT_ADDRESS,
+      amount: [{ denom: "uatom", amount: "1" }],
+    });
+
+    await expect(signAndBroadcast({ messages: [send], fee: "auto" })).rejects.toThrow("insufficient funds");
+  });
+});
+
+describe("simulateFee", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("simulates sends of the connected account", async () => {
+    installMockChain({ gasUsed: 80_000 });
+    installMockWallet();
+    await connect({ chain });
+
+    const { gasUsed, gasLimit, fee } = await simulateFee({
+      type: "sendTokens",
+      recipientAddress: RECIPIENT_ADDRESS,
+      amount: [{ denom: "uatom", amount: "100" }],
+    });
+
+    expect(gasUsed).toBe(80_000);
+    expect(gasLimit).toBe(104_000);
+    expect(fee).toEqual({ gas: "104000", amount: [{ denom: "uatom", amount: "2600" }] });
+  });
+
+  it("simulates contract executions with given multiplier", async () => {
+    installMockChain({ gasUsed: 80_000 });
+    installMockWallet();
+    await connect({ chain });
+
+    const { gasLimit } = await simulateFee({
+      type: "executeContract",
+      senderAddress: await getMockAddress(),
+      contractAddress: CONTRACT_ADDRESS,
+      msg: { increment: {} },
+      funds: [],
+      memo: "",
+      gasMultiplier: 2,
+    });
+
+    expect(gasLimit).toBe(160_000);
+  });
+});
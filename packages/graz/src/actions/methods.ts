@@ -1,33 +1,79 @@
-import type { InstantiateOptions } from "@cosmjs/cosmwasm-stargate";
-import type { Coin } from "@cosmjs/proto-signing";
+import type { ExecuteResult, InstantiateOptions, InstantiateResult } from "@cosmjs/cosmwasm-stargate";
+import type { Coin, EncodeObject } from "@cosmjs/proto-signing";
 import type { DeliverTxResponse, StdFee } from "@cosmjs/stargate";
+import { isDeliverTxFailure, logs } from "@cosmjs/stargate";
 import type { Height } from "cosmjs-types/ibc/core/client/v1/client";
 
-import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import type { GrazSigningClients, GrazTransaction } from "../store";
+import { useGrazInternalStore } from "../store";
+import { getChainSession } from "./account";
+import { buildExecuteContractMsg, buildInstantiateContractMsg, buildSendMsg, buildTransferMsg } from "./messages";
+import type { EstimateFeeResult } from "./transaction";
+import { broadcastTx, estimateFee } from "./transaction";
 
-export const getBalances = async (bech32Address: string): Promise<Coin[]> => {
-  const { activeChain, signingClients } = useGrazSessionStore.getState();
+const assertIsDeliverTxSuccess = (response: DeliverTxResponse) => {
+  if (isDeliverTxFailure(response)) {
+    throw new Error(
+      `Error when broadcasting tx ${response.transactionHash} at height ${response.height}. Code: ${response.code}; Raw log: ${response.rawLog}`,
+    );
+  }
+};
+
+export const getBalances = async (bech32Address: string, chainId?: string): Promise<Coin[]> => {
+  const { chain, signingClients } = getChainSession(chainId);
 
-  if (!activeChain || !signingClients) {
+  if (!chain || !signingClients) {
     throw new Error("No connected account detected");
   }
 
   const { defaultSigningClient } = useGrazInternalStore.getState();
   const balances = await Promise.all(
-    activeChain.currencies.map(async (item) => {
-      const isCw20 = item.coinMinimalDenom.startsWith("cw20:");
-      return signingClients[defaultSigningClient].getBalance(
-        bech32Address,
-        isCw20 ? item.coinMinimalDenom.replace("cw20:", "") : item.coinMinimalDenom,
-      );
+    chain.currencies.map(async (item) => {
+      if (isCw20Denom(item.coinMinimalDenom)) {
+        return getCw20Balance(bech32Address, item.coinMinimalDenom, chain.chainId);
+      }
+      return signingClients[defaultSigningClient].getBalance(bech32Address, item.coinMinimalDenom);
     }),
   );
 
   return balances;
 };
 
-export const getBalanceStaked = async (bech32Address: string): Promise<Coin | null> => {
-  const { clients } = useGrazSessionStore.getState();
+/**
+ * Function to check whether given denom is a CW20 token denom (prefixed with `cw20:`)
+ *
+ * @example
+ * ```ts
+ * isCw20Denom("cw20:juno168ctmpyppk90d34p3jjy658zf5a5l3w8wk35wht6ccqj4mr0yv8s4j5awr"); // true
+ * isCw20Denom("ujuno"); // false
+ * ```
+ */
+export const isCw20Denom = (denom: string): boolean => {
+  return denom.startsWith("cw20:");
+};
+
+/**
+ * Function to query CW20 token balance of given address, returned denom is the given `cw20:` prefixed denom.
+ *
+ * @see https://github.com/CosmWasm/cw-plus/blob/main/packages/cw20/README.md#queries
+ */
+export const getCw20Balance = async (bech32Address: string, denom: string, chainId?: string): Promise<Coin> => {
+  const { signingClients } = getChainSession(chainId);
+
+  if (!signingClients?.cosmWasm) {
+    throw new Error("CosmWasm signing client is not ready");
+  }
+
+  const contractAddress = denom.replace("cw20:", "");
+  const { balance } = (await signingClients.cosmWasm.queryContractSmart(contractAddress, {
+    balance: { address: bech32Address },
+  })) as { balance: string };
+
+  return { denom, amount: balance };
+};
+
+export const getBalanceStaked = async (bech32Address: string, chainId?: string): Promise<Coin | null> => {
+  const { clients } = getChainSession(chainId);
   if (!clients?.stargate) {
     throw new Error("Stargate client is not ready");
   }
@@ -41,6 +87,19 @@ export interface SendTokensArgs {
   amount: Coin[];
   fee: number | StdFee | "auto";
   memo?: string;
+  /**
+   * connected chain to send from, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * execute on behalf of given granter through authz `MsgExec`, signed by `senderAddress` as grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
 }
 
 export const sendTokens = async ({
@@ -49,16 +108,30 @@ export const sendTokens = async ({
   amount,
   fee,
   memo,
+  chainId,
+  granterAddress,
+  feeGranter,
+  onStatusChange,
 }: SendTokensArgs): Promise<DeliverTxResponse> => {
   const { defaultSigningClient } = useGrazInternalStore.getState();
-  const { signingClients } = useGrazSessionStore.getState();
+  const { signingClients } = getChainSession(chainId);
   if (!signingClients) {
     throw new Error("No connected account detected");
   }
   if (!senderAddress) {
     throw new Error("senderAddress is not defined");
   }
-  return signingClients[defaultSigningClient].sendTokens(senderAddress, recipientAddress, amount, fee, memo);
+  return broadcastTx({
+    signerAddress: senderAddress,
+    messages: [buildSendMsg({ senderAddress: granterAddress ?? senderAddress, recipientAddress, amount })],
+    fee,
+    memo,
+    chainId,
+    signingClient: defaultSigningClient,
+    granterAddress,
+    feeGranter,
+    onStatusChange,
+  });
 };
 
 // https://cosmos.github.io/cosmjs/latest/stargate/classes/SigningStargateClient.html#sendIbcTokens
@@ -72,6 +145,19 @@ export interface SendIbcTokensArgs {
   timeoutTimestamp?: number;
   fee: number | StdFee | "auto";
   memo?: string;
+  /**
+   * connected chain to send from, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * execute on behalf of given granter through authz `MsgExec`, signed by `senderAddress` as grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
 }
 
 export const sendIbcTokens = async ({
@@ -84,25 +170,39 @@ export const sendIbcTokens = async ({
   timeoutTimestamp,
   fee,
   memo,
-}: SendIbcTokensArgs) => {
-  const { signingClients } = useGrazSessionStore.getState();
+  chainId,
+  granterAddress,
+  feeGranter,
+  onStatusChange,
+}: SendIbcTokensArgs): Promise<DeliverTxResponse> => {
+  const { signingClients } = getChainSession(chainId);
   if (!signingClients?.stargate) {
     throw new Error("Stargate signing client is not ready");
   }
   if (!senderAddress) {
     throw new Error("senderAddress is not defined");
   }
-  return signingClients.stargate.sendIbcTokens(
-    senderAddress,
-    recipientAddress,
-    transferAmount,
-    sourcePort,
-    sourceChannel,
-    timeoutHeight,
-    timeoutTimestamp,
+  return broadcastTx({
+    signerAddress: senderAddress,
+    messages: [
+      buildTransferMsg({
+        senderAddress: granterAddress ?? senderAddress,
+        recipientAddress,
+        transferAmount,
+        sourcePort,
+        sourceChannel,
+        timeoutHeight,
+        timeoutTimestamp,
+      }),
+    ],
     fee,
     memo,
-  );
+    chainId,
+    signingClient: "stargate",
+    granterAddress,
+    feeGranter,
+    onStatusChange,
+  });
 };
 
 export interface InstantiateContractArgs<Message extends Record<string, unknown>> {
@@ -112,11 +212,24 @@ export interface InstantiateContractArgs<Message extends Record<string, unknown>
   options?: InstantiateOptions;
   senderAddress: string;
   codeId: number;
+  /**
+   * connected chain to instantiate on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * execute on behalf of given granter through authz `MsgExec`, signed by `senderAddress` as grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
 }
 
 export type InstantiateContractMutationArgs<Message extends Record<string, unknown>> = Omit<
   InstantiateContractArgs<Message>,
-  "codeId" | "senderAddress" | "fee"
+  "codeId" | "senderAddress" | "fee" | "chainId"
 > & {
   fee?: StdFee | "auto" | number;
 };
@@ -128,14 +241,49 @@ export const instantiateContract = async <Message extends Record<string, unknown
   options,
   label,
   codeId,
-}: InstantiateContractArgs<Message>) => {
-  const { signingClients } = useGrazSessionStore.getState();
+  chainId,
+  granterAddress,
+  feeGranter,
+  onStatusChange,
+}: InstantiateContractArgs<Message>): Promise<InstantiateResult> => {
+  const { signingClients } = getChainSession(chainId);
 
   if (!signingClients?.cosmWasm) {
     throw new Error("CosmWasm signing client is not ready");
   }
 
-  return signingClients.cosmWasm.instantiate(senderAddress, codeId, msg, label, fee, options);
+  const response = await broadcastTx({
+    signerAddress: senderAddress,
+    messages: [
+      buildInstantiateContractMsg({
+        senderAddress: granterAddress ?? senderAddress,
+        codeId,
+        msg,
+        label,
+        funds: options?.funds,
+        admin: options?.admin,
+      }),
+    ],
+    fee,
+    memo: options?.memo,
+    chainId,
+    signingClient: "cosmWasm",
+    granterAddress,
+    feeGranter,
+    onStatusChange,
+  });
+  assertIsDeliverTxSuccess(response);
+
+  const parsedLogs = logs.parseRawLog(response.rawLog);
+  return {
+    contractAddress: logs.findAttribute(parsedLogs, "instantiate", "_contract_address").value,
+    logs: parsedLogs,
+    height: response.height,
+    transactionHash: response.transactionHash,
+    events: response.events,
+    gasWanted: response.gasWanted,
+    gasUsed: response.gasUsed,
+  };
 };
 
 export interface ExecuteContractArgs<Message extends Record<string, unknown>> {
@@ -145,11 +293,28 @@ export interface ExecuteContractArgs<Message extends Record<string, unknown>> {
   contractAddress: string;
   funds: Coin[];
   memo: string;
+  /**
+   * connected chain to execute on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * execute on behalf of given granter through authz `MsgExec`, signed by `senderAddress` as grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  /**
+   * signing clients of `senderAddress` if it is not a connected account, e.g. of a session key
+   */
+  signingClients?: GrazSigningClients;
+  onStatusChange?: (transaction: GrazTransaction) => void;
 }
 
 export type ExecuteContractMutationArgs<Message extends Record<string, unknown>> = Omit<
   ExecuteContractArgs<Message>,
-  "contractAddress" | "senderAddress" | "fee" | "funds" | "memo"
+  "contractAddress" | "senderAddress" | "fee" | "funds" | "memo" | "chainId" | "signingClients"
 > & {
   fee?: StdFee | "auto" | number;
   funds?: Coin[];
@@ -163,18 +328,229 @@ export const executeContract = async <Message extends Record<string, unknown>>({
   contractAddress,
   funds,
   memo,
-}: ExecuteContractArgs<Message>) => {
-  const { signingClients } = useGrazSessionStore.getState();
+  chainId,
+  granterAddress,
+  feeGranter,
+  signingClients,
+  onStatusChange,
+}: ExecuteContractArgs<Message>): Promise<ExecuteResult> => {
+  const { cosmWasm } = signingClients ?? getChainSession(chainId).signingClients ?? {};
 
-  if (!signingClients?.cosmWasm) {
+  if (!cosmWasm) {
     throw new Error("CosmWasm signing client is not ready");
   }
 
-  return signingClients.cosmWasm.execute(senderAddress, contractAddress, msg, fee, memo, funds);
+  const response = await broadcastTx({
+    signerAddress: senderAddress,
+    messages: [
+      buildExecuteContractMsg({ senderAddress: granterAddress ?? senderAddress, contractAddress, msg, funds }),
+    ],
+    fee,
+    memo,
+    chainId,
+    signingClient: "cosmWasm",
+    signingClients,
+    granterAddress,
+    feeGranter,
+    onStatusChange,
+  });
+  assertIsDeliverTxSuccess(response);
+
+  return {
+    logs: logs.parseRawLog(response.rawLog),
+    height: response.height,
+    transactionHash: response.transactionHash,
+    events: response.events,
+    gasWanted: response.gasWanted,
+    gasUsed: response.gasUsed,
+  };
+};
+
+export interface SignAndBroadcastArgs {
+  /**
+   * signer address, defaults to connected account address
+   */
+  senderAddress?: string;
+  messages: EncodeObject[];
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to sign and broadcast on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * execute on behalf of given granter through authz `MsgExec`, signed by `senderAddress` as grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+/**
+ * Function to sign and broadcast multiple messages in a single transaction using `defaultSigningClient`, or the
+ * `cosmWasm` signing client if any message is a CosmWasm message.
+ *
+ * Messages can be built with helper builders (`buildSendMsg`, `buildExecuteContractMsg`, `buildTransferMsg`,
+ * `buildDelegateMsg`, etc.) or be any `EncodeObject` registered on the signing client.
+ *
+ * @example
+ * ```ts
+ * import { buildExecuteContractMsg, signAndBroadcast } from "graz";
+ *
+ * await signAndBroadcast({
+ *   messages: [
+ *     buildExecuteContractMsg({ senderAddress, contractAddress: cw20Address, msg: { increase_allowance: { ... } } }),
+ *     buildExecuteContractMsg({ senderAddress, contractAddress: swapAddress, msg: { swap: { ... } } }),
+ *   ],
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const signAndBroadcast = async ({
+  senderAddress,
+  messages,
+  fee,
+  memo,
+  chainId,
+  granterAddress,
+  feeGranter,
+  onStatusChange,
+}: SignAndBroadcastArgs): Promise<DeliverTxResponse> => {
+  const { account } = getChainSession(chainId);
+  const signerAddress = senderAddress ?? account?.bech32Address;
+  if (!signerAddress) {
+    throw new Error("senderAddress is not defined");
+  }
+  // stargate signing client has no `/cosmwasm.wasm.v1.*` types registered
+  const hasWasmMsg = messages.some((msg) => msg.typeUrl.startsWith("/cosmwasm.wasm.v1."));
+  const response = await broadcastTx({
+    signerAddress,
+    messages,
+    fee,
+    memo,
+    chainId,
+    signingClient: hasWasmMsg ? "cosmWasm" : useGrazInternalStore.getState().defaultSigningClient,
+    granterAddress,
+    feeGranter,
+    onStatusChange,
+  });
+  assertIsDeliverTxSuccess(response);
+  return response;
+};
+
+type SimulateArgs<T> = Omit<T, "fee" | "onStatusChange" | "senderAddress"> & {
+  /**
+   * signer address, defaults to connected account address
+   */
+  senderAddress?: string;
+  /**
+   * multiplier applied to simulated gas, defaults to chain's `gas.multiplier` or 1.3
+   */
+  gasMultiplier?: number;
+};
+
+export type SimulateFeeArgs<Message extends Record<string, unknown> = Record<string, unknown>> =
+  | ({ type: "sendTokens" } & SimulateArgs<SendTokensArgs>)
+  | ({ type: "sendIbcTokens" } & SimulateArgs<SendIbcTokensArgs>)
+  | ({ type: "instantiateContract" } & SimulateArgs<InstantiateContractArgs<Message>>)
+  | ({ type: "executeContract" } & SimulateArgs<ExecuteContractArgs<Message>>);
+
+/**
+ * Function to simulate `sendTokens`, `sendIbcTokens`, `instantiateContract` or `executeContract` on the connected
+ * signing client and return gas used, adjusted gas limit and fee calculated from chain's gas price. Sender address
+ * defaults to connected account address.
+ *
+ * @example
+ * ```ts
+ * import { simulateFee } from "graz";
+ *
+ * const { gasUsed, gasLimit, fee } = await simulateFee({
+ *   type: "executeContract",
+ *   senderAddress: "juno1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   contractAddress: "juno1...",
+ *   msg: { increment: {} },
+ *   funds: [],
+ *   memo: "",
+ *   gasMultiplier: 1.5,
+ * });
+ * ```
+ */
+export const simulateFee = async <Message extends Record<string, unknown>>(
+  args: SimulateFeeArgs<Message>,
+): Promise<EstimateFeeResult> => {
+  const { chainId, gasMultiplier, granterAddress, feeGranter } = args;
+  const senderAddress = args.senderAddress ?? getChainSession(chainId).account?.bech32Address;
+  if (!senderAddress) {
+    throw new Error("senderAddress is not defined");
+  }
+  // messages are sent by the granter when executing on its behalf
+  const msgSenderAddress = granterAddress ?? senderAddress;
+
+  switch (args.type) {
+    case "sendTokens":
+      return estimateFee({
+        signerAddress: senderAddress,
+        messages: [buildSendMsg({ ...args, senderAddress: msgSenderAddress })],
+        memo: args.memo,
+        chainId,
+        granterAddress,
+        feeGranter,
+        gasMultiplier,
+      });
+    case "sendIbcTokens":
+      return estimateFee({
+        signerAddress: senderAddress,
+        messages: [buildTransferMsg({ ...args, senderAddress: msgSenderAddress })],
+        memo: args.memo,
+        chainId,
+        signingClient: "stargate",
+        granterAddress,
+        feeGranter,
+        gasMultiplier,
+      });
+    case "instantiateContract":
+      return estimateFee({
+        signerAddress: senderAddress,
+        messages: [
+          buildInstantiateContractMsg({
+            ...args,
+            senderAddress: msgSenderAddress,
+            funds: args.options?.funds,
+            admin: args.options?.admin,
+          }),
+        ],
+        memo: args.options?.memo,
+        chainId,
+        signingClient: "cosmWasm",
+        granterAddress,
+        feeGranter,
+        gasMultiplier,
+      });
+    case "executeContract":
+      return estimateFee({
+        signerAddress: senderAddress,
+        messages: [buildExecuteContractMsg({ ...args, senderAddress: msgSenderAddress })],
+        memo: args.memo,
+        chainId,
+        signingClient: "cosmWasm",
+        granterAddress,
+        feeGranter,
+        gasMultiplier,
+      });
+    default:
+      throw new Error("Unsupported simulation type");
+  }
 };
 
-export const getQuerySmart = async <TData>(address: string, queryMsg: Record<string, unknown>): Promise<TData> => {
-  const { clients } = useGrazSessionStore.getState();
+export const getQuerySmart = async <TData>(
+  address: string,
+  queryMsg: Record<string, unknown>,
+  chainId?: string,
+): Promise<TData> => {
+  const { clients } = getChainSession(chainId);
 
   if (!clients?.cosmWasm) {
     throw new Error("CosmWasm client is not ready");
@@ -184,8 +560,8 @@ export const getQuerySmart = async <TData>(address: string, queryMsg: Record<str
   return result;
 };
 
-export const getQueryRaw = (address: string, keyStr: string): Promise<Uint8Array | null> => {
-  const { clients } = useGrazSessionStore.getState();
+export const getQueryRaw = (address: string, keyStr: string, chainId?: string): Promise<Uint8Array | null> => {
+  const { clients } = getChainSession(chainId);
 
   if (!clients?.cosmWasm) {
     throw new Error("CosmWasm client is not ready");
@@ -0,0 +1,77 @@
+import { fromUtf8 } from "@cosmjs/encoding";
+import { cleanup, fireEvent } from "@testing-library/react";
+import type { MsgExec } from "cosmjs-types/cosmos/authz/v1beta1/tx";
+import { MsgExecuteContract } from "cosmjs-types/cosmwasm/wasm/v1/tx";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { useExecuteContract } from "../hooks/methods";
+import { installMockChain } from "../testing/clients";
+import { renderWithGraz } from "../testing/render";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, installMockWallet } from "../testing/wallet";
+import { connect } from "./account";
+import { createSessionKey } from "./session-key";
+
+const CONTRACT_ADDRESS = "cosmos14hj2tavq8fpesdwxxcu44rty3hh90vhujrvcmstl4zr3txmfvw9s4hmalr";
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+const Counter = () => {
+  const { executeContract, isSuccess } = useExecuteContract<{ increment: Record<string, never> }>({
+    contractAddress: CONTRACT_ADDRESS,
+  });
+  return (
+    <>
+      <button onClick={() => executeContract({ msg: { increment: {} } })} type="button">
+        Increment
+      </button>
+      {isSuccess ? <span>executed</span> : null}
+    </>
+  );
+};
+
+describe("createSessionKey", () => {
+  beforeEach(() => {
+    // typed arrays of jsdom fail `instanceof` checks of libsodium against arrays encoded by node, e.g. `TextEncoder`
+    vi.stubGlobal("Uint8Array", (Object.getPrototypeOf(Buffer.prototype) as Uint8Array).constructor);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    cleanup();
+    resetGrazStores();
+  });
+
+  it("executes contracts through MsgExec signed by the session key and paid by the granter", async () => {
+    const address = await getMockAddress();
+    const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+    installMockWallet();
+    await connect({ chain });
+
+    const { sessionKey } = await createSessionKey({
+      authorizations: [{ type: "contract", contracts: [CONTRACT_ADDRESS], maxCalls: 10 }],
+      password: "password",
+      fee: "auto",
+    });
+    const { findByText, getByRole } = renderWithGraz(<Counter />);
+    fireEvent.click(getByRole("button", { name: "Increment" }));
+
+    expect(await findByText("executed")).toBeTruthy();
+    expect(mockChain.transactions[0]?.messages.map((x) => x.typeUrl)).toEqual([
+      "/cosmos.authz.v1beta1.MsgGrant",
+      "/cosmos.feegrant.v1beta1.MsgGrantAllowance",
+    ]);
+
+    const execution = mockChain.transactions[1];
+    const { grantee, msgs } = execution?.messages[0]?.value as MsgExec;
+    const executed = MsgExecuteContract.decode(msgs[0]?.value ?? new Uint8Array());
+    expect(execution?.messages.map((x) => x.typeUrl)).toEqual(["/cosmos.authz.v1beta1.MsgExec"]);
+    expect(grantee).toBe(sessionKey.address);
+    expect(msgs.map((x) => x.typeUrl)).toEqual(["/cosmwasm.wasm.v1.MsgExecuteContract"]);
+    expect(executed.sender).toBe(address);
+    expect(executed.contract).toBe(CONTRACT_ADDRESS);
+    expect(JSON.parse(fromUtf8(executed.msg))).toEqual({ increment: {} });
+    expect(execution?.feeGranter).toBe(address);
+  });
+});
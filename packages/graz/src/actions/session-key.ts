@@ -0,0 +1,393 @@
+import { fromBech32 } from "@cosmjs/encoding";
+import type { Coin, KdfConfiguration, OfflineDirectSigner } from "@cosmjs/proto-signing";
+import { DirectSecp256k1HdWallet } from "@cosmjs/proto-signing";
+import type { DeliverTxResponse, StdFee } from "@cosmjs/stargate";
+import { GasPrice } from "@cosmjs/stargate";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha512 } from "@noble/hashes/sha512";
+
+import type { GrazChain } from "../chains";
+import { SESSION_KEY_TTL_MS, SESSION_KEYS_STORAGE_KEY } from "../constant";
+import type { GrazSessionKey, GrazSigningClients, GrazTransaction } from "../store";
+import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import { getChainSession } from "./account";
+import { signArbitrary } from "./arbitrary";
+import { createSigningClients } from "./clients";
+import type { GrazAuthorization } from "./messages";
+import {
+  buildGrantAllowanceMsg,
+  buildGrantMsg,
+  buildRevokeAllowanceMsg,
+  buildRevokeMsg,
+  getAuthorizationMsgTypeUrl,
+} from "./messages";
+import { signAndBroadcast } from "./methods";
+
+/**
+ * Session key stored encrypted in local storage, unlocked with `unlockSessionKey`
+ */
+export type GrazStoredSessionKey = Omit<GrazSessionKey, "signer" | "signingClients"> & {
+  /**
+   * encrypted serialization of the session key wallet
+   */
+  serialization: string;
+};
+
+const getSessionKeyId = (chainId: string, granterAddress: string) => `${chainId}:${granterAddress}`;
+
+const getStoredSessionKeys = (): Record<string, GrazStoredSessionKey> => {
+  if (typeof window === "undefined") return {};
+  const value = window.localStorage.getItem(SESSION_KEYS_STORAGE_KEY);
+  return value ? (JSON.parse(value) as Record<string, GrazStoredSessionKey>) : {};
+};
+
+const setStoredSessionKeys = (sessionKeys: Record<string, GrazStoredSessionKey>) => {
+  if (typeof window === "undefined") return;
+  if (Object.keys(sessionKeys).length) {
+    window.localStorage.setItem(SESSION_KEYS_STORAGE_KEY, JSON.stringify(sessionKeys));
+  } else {
+    window.localStorage.removeItem(SESSION_KEYS_STORAGE_KEY);
+  }
+};
+
+const getGranter = (chainId?: string): { chain: GrazChain; granterAddress: string } => {
+  const { account, chain } = getChainSession(chainId);
+  if (!account || !chain) {
+    throw new Error("No connected account detected");
+  }
+  return { chain, granterAddress: account.bech32Address };
+};
+
+// `DirectSecp256k1HdWallet.serialize` derives its key with argon2, which libsodium-wrappers no longer ships since
+// 0.7.11, so the encryption key is derived with PBKDF2 salted by the session key address instead
+const SESSION_KEY_KDF_ITERATIONS = 210_000;
+const SESSION_KEY_KDF: KdfConfiguration = {
+  algorithm: "pbkdf2-sha512",
+  params: { iterations: SESSION_KEY_KDF_ITERATIONS },
+};
+
+// signatures of deterministic signers (RFC 6979) derive the same password every time
+const getSessionKeyPassword = async (address: string, chainId: string, password?: string): Promise<string> => {
+  if (password) return password;
+  const { signature } = await signArbitrary({ chainId, data: `Unlock graz session key ${address}` });
+  return signature.signature;
+};
+
+const getSessionKeyEncryptionKey = async (address: string, chainId: string, password?: string): Promise<Uint8Array> => {
+  const secret = await getSessionKeyPassword(address, chainId, password);
+  return pbkdf2Async(sha512, secret, address, { c: SESSION_KEY_KDF_ITERATIONS, dkLen: 32 });
+};
+
+const createSessionKeySigningClients = async (
+  chain: GrazChain,
+  signer: OfflineDirectSigner,
+): Promise<GrazSigningClients> => {
+  const { _clientsFactory } = useGrazInternalStore.getState();
+  if (_clientsFactory) return _clientsFactory.createSigningClients(chain, signer);
+  const gasPrice = chain.gas ? GasPrice.fromString(`${chain.gas.price}${chain.gas.denom}`) : undefined;
+  const signingClients = await createSigningClients({
+    ...chain,
+    offlineSignerAuto: signer,
+    cosmWasmSignerOptions: { gasPrice },
+  });
+  return signingClients!;
+};
+
+const setSessionKey = (id: string, sessionKey: GrazSessionKey | null) => {
+  useGrazSessionStore.setState(({ sessionKeys: { [id]: _, ...sessionKeys } }) => ({
+    sessionKeys: sessionKey ? { ...sessionKeys, [id]: sessionKey } : sessionKeys,
+  }));
+};
+
+/**
+ * Function to remove session key of connected account from memory and local storage without revoking its grants,
+ * which expire on their own.
+ *
+ * @example
+ * ```ts
+ * import { removeSessionKey } from "graz";
+ *
+ * removeSessionKey();
+ * ```
+ */
+export const removeSessionKey = (chainId?: string): void => {
+  const { chain, granterAddress } = getGranter(chainId);
+  const id = getSessionKeyId(chain.chainId, granterAddress);
+  const { [id]: _, ...storedSessionKeys } = getStoredSessionKeys();
+  setStoredSessionKeys(storedSessionKeys);
+  setSessionKey(id, null);
+};
+
+/**
+ * Function to return stored session key of connected account without its secret, whether it is unlocked or not.
+ * Returns `null` if there is no session key or it is expired.
+ *
+ * @example
+ * ```ts
+ * import { getStoredSessionKey } from "graz";
+ *
+ * const storedSessionKey = getStoredSessionKey();
+ * if (storedSessionKey && !getSessionKey()) await unlockSessionKey();
+ * ```
+ */
+export const getStoredSessionKey = (chainId?: string): Omit<GrazStoredSessionKey, "serialization"> | null => {
+  const { chain, granterAddress } = getGranter(chainId);
+  const stored = getStoredSessionKeys()[getSessionKeyId(chain.chainId, granterAddress)];
+  if (!stored || stored.expiration <= Date.now()) return null;
+  const { serialization: _, ...sessionKey } = stored;
+  return sessionKey;
+};
+
+/**
+ * Function to return unlocked session key of connected account, or `null` if there is no session key, it is locked
+ * or expired.
+ *
+ * @example
+ * ```ts
+ * import { getSessionKey } from "graz";
+ *
+ * const sessionKey = getSessionKey();
+ * ```
+ */
+export const getSessionKey = (chainId?: string): GrazSessionKey | null => {
+  const { chain, granterAddress } = getGranter(chainId);
+  const sessionKey = useGrazSessionStore.getState().sessionKeys[getSessionKeyId(chain.chainId, granterAddress)];
+  if (!sessionKey) return null;
+  if (sessionKey.expiration <= Date.now()) {
+    removeSessionKey(chain.chainId);
+    return null;
+  }
+  return sessionKey;
+};
+
+/**
+ * Function to check whether given session key is allowed to execute given contract
+ *
+ * @example
+ * ```ts
+ * import { canExecuteWithSessionKey, getSessionKey } from "graz";
+ *
+ * const sessionKey = getSessionKey();
+ * if (sessionKey && canExecuteWithSessionKey(sessionKey, contractAddress)) { ... }
+ * ```
+ */
+export const canExecuteWithSessionKey = (sessionKey: GrazSessionKey, contractAddress: string): boolean => {
+  if (sessionKey.expiration <= Date.now()) return false;
+  if (!sessionKey.msgTypeUrls.includes("/cosmwasm.wasm.v1.MsgExecuteContract")) return false;
+  return !sessionKey.contracts || sessionKey.contracts.includes(contractAddress);
+};
+
+export interface CreateSessionKeyArgs {
+  /**
+   * authorizations granted to the session key, e.g. `{ type: "contract", contracts: [...] }` to execute given contracts
+   */
+  authorizations: GrazAuthorization[];
+  /**
+   * total fees the session key can spend from connected account, unlimited if undefined
+   */
+  spendLimit?: Coin[];
+  /**
+   * expiration of the session key and its grants, defaults to 24 hours from now
+   */
+  expiration?: Date;
+  /**
+   * password encrypting the stored session key, defaults to a signature of connected wallet which is requested
+   * again to unlock the session key after reload
+   */
+  password?: string;
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to create session key on, defaults to active chain
+   */
+  chainId?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+export interface CreateSessionKeyResult {
+  sessionKey: GrazSessionKey;
+  response: DeliverTxResponse;
+}
+
+/**
+ * Function to generate an ephemeral session key, grant it given authz authorizations and a feegrant allowance
+ * limited to `MsgExec` from connected account in a single transaction, and store it encrypted in local storage.
+ * Replaces existing session key of connected account.
+ *
+ * @example
+ * ```ts
+ * import { createSessionKey } from "graz";
+ *
+ * const { sessionKey } = await createSessionKey({
+ *   authorizations: [{ type: "contract", contracts: ["juno1..."], maxCalls: 100 }],
+ *   spendLimit: [{ denom: "ujuno", amount: "100000" }],
+ *   expiration: new Date(Date.now() + 60 * 60 * 1000),
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const createSessionKey = async ({
+  authorizations,
+  spendLimit,
+  expiration = new Date(Date.now() + SESSION_KEY_TTL_MS),
+  password,
+  fee,
+  memo,
+  chainId,
+  onStatusChange,
+}: CreateSessionKeyArgs): Promise<CreateSessionKeyResult> => {
+  if (!authorizations.length) throw new Error("authorizations is empty");
+  const { chain, granterAddress } = getGranter(chainId);
+  const wallet = await DirectSecp256k1HdWallet.generate(12, { prefix: fromBech32(granterAddress).prefix });
+  const [account] = await wallet.getAccounts();
+  const { address } = account!;
+
+  // encrypt before granting so a rejected password signature does not leave grants behind
+  const serialization = await wallet.serializeWithEncryptionKey(
+    await getSessionKeyEncryptionKey(address, chain.chainId, password),
+    SESSION_KEY_KDF,
+  );
+
+  const response = await signAndBroadcast({
+    senderAddress: granterAddress,
+    messages: [
+      ...authorizations.map((authorization) =>
+        buildGrantMsg({ granterAddress, granteeAddress: address, authorization, expiration }),
+      ),
+      buildGrantAllowanceMsg({
+        granterAddress,
+        granteeAddress: address,
+        allowance: { type: "basic", spendLimit, expiration, allowedMessages: ["/cosmos.authz.v1beta1.MsgExec"] },
+      }),
+    ],
+    fee,
+    memo,
+    chainId: chain.chainId,
+    onStatusChange,
+  });
+
+  const isAnyContract = authorizations.some(
+    (x) => x.type === "generic" && x.msgTypeUrl === "/cosmwasm.wasm.v1.MsgExecuteContract",
+  );
+  const contracts = authorizations.flatMap((x) => (x.type === "contract" ? x.contracts : []));
+  const stored: GrazStoredSessionKey = {
+    address,
+    granterAddress,
+    chainId: chain.chainId,
+    expiration: expiration.getTime(),
+    msgTypeUrls: [...new Set(authorizations.map(getAuthorizationMsgTypeUrl))],
+    contracts: isAnyContract || !contracts.length ? undefined : contracts,
+    serialization,
+  };
+  const id = getSessionKeyId(chain.chainId, granterAddress);
+  setStoredSessionKeys({ ...getStoredSessionKeys(), [id]: stored });
+
+  const { serialization: _, ...info } = stored;
+  const sessionKey: GrazSessionKey = {
+    ...info,
+    signer: wallet,
+    signingClients: await createSessionKeySigningClients(chain, wallet),
+  };
+  setSessionKey(id, sessionKey);
+  return { sessionKey, response };
+};
+
+export interface UnlockSessionKeyArgs {
+  /**
+   * password the session key was created with, defaults to a signature of connected wallet
+   */
+  password?: string;
+  /**
+   * connected chain of the session key, defaults to active chain
+   */
+  chainId?: string;
+}
+
+/**
+ * Function to decrypt stored session key of connected account, e.g. after reload. Expired session keys are removed.
+ *
+ * @example
+ * ```ts
+ * import { unlockSessionKey } from "graz";
+ *
+ * const sessionKey = await unlockSessionKey();
+ * ```
+ */
+export const unlockSessionKey = async ({ password, chainId }: UnlockSessionKeyArgs = {}): Promise<GrazSessionKey> => {
+  const { chain, granterAddress } = getGranter(chainId);
+  const id = getSessionKeyId(chain.chainId, granterAddress);
+  const unlocked = getSessionKey(chain.chainId);
+  if (unlocked) return unlocked;
+
+  const stored = getStoredSessionKeys()[id];
+  if (!stored) {
+    throw new Error("No stored session key found");
+  }
+  if (stored.expiration <= Date.now()) {
+    removeSessionKey(chain.chainId);
+    throw new Error("Session key is expired");
+  }
+
+  const { serialization, ...info } = stored;
+  const wallet = await DirectSecp256k1HdWallet.deserializeWithEncryptionKey(
+    serialization,
+    await getSessionKeyEncryptionKey(info.address, chain.chainId, password),
+  );
+  const sessionKey: GrazSessionKey = {
+    ...info,
+    signer: wallet,
+    signingClients: await createSessionKeySigningClients(chain, wallet),
+  };
+  setSessionKey(id, sessionKey);
+  return sessionKey;
+};
+
+export interface RevokeSessionKeyArgs {
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain of the session key, defaults to active chain
+   */
+  chainId?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+/**
+ * Function to revoke authz grants and feegrant allowance of connected account's session key in a single
+ * transaction, and remove it from local storage.
+ *
+ * @example
+ * ```ts
+ * import { revokeSessionKey } from "graz";
+ *
+ * await revokeSessionKey({ fee: "auto" });
+ * ```
+ */
+export const revokeSessionKey = async ({
+  fee,
+  memo,
+  chainId,
+  onStatusChange,
+}: RevokeSessionKeyArgs): Promise<DeliverTxResponse> => {
+  const { chain, granterAddress } = getGranter(chainId);
+  const sessionKey = getStoredSessionKeys()[getSessionKeyId(chain.chainId, granterAddress)];
+  if (!sessionKey) {
+    throw new Error("No stored session key found");
+  }
+
+  const response = await signAndBroadcast({
+    senderAddress: granterAddress,
+    messages: [
+      ...sessionKey.msgTypeUrls.map((msgTypeUrl) =>
+        buildRevokeMsg({ granterAddress, granteeAddress: sessionKey.address, msgTypeUrl }),
+      ),
+      buildRevokeAllowanceMsg({ granterAddress, granteeAddress: sessionKey.address }),
+    ],
+    fee,
+    memo,
+    chainId: chain.chainId,
+    onStatusChange,
+  });
+  removeSessionKey(chain.chainId);
+  return response;
+};
@@ -0,0 +1,279 @@
+import type { Coin } from "@cosmjs/proto-signing";
+import type { DeliverTxResponse, DistributionExtension, StakingExtension, StdFee } from "@cosmjs/stargate";
+import { QueryClient, setupDistributionExtension, setupStakingExtension } from "@cosmjs/stargate";
+import type { QueryDelegationTotalRewardsResponse } from "cosmjs-types/cosmos/distribution/v1beta1/query";
+import type { DelegationResponse, UnbondingDelegation } from "cosmjs-types/cosmos/staking/v1beta1/staking";
+
+import type { GrazTransaction } from "../store";
+import { getChainSession } from "./account";
+import { buildDelegateMsg, buildRedelegateMsg, buildUndelegateMsg, buildWithdrawRewardsMsg } from "./messages";
+import { signAndBroadcast } from "./methods";
+
+const getStakingQueryClient = (chainId?: string): QueryClient & StakingExtension & DistributionExtension => {
+  const { clients } = getChainSession(chainId);
+  if (!clients?.tendermint) {
+    throw new Error("Tendermint client is not ready");
+  }
+  return QueryClient.withExtensions(clients.tendermint, setupStakingExtension, setupDistributionExtension);
+};
+
+const getDelegatorAddress = (delegatorAddress?: string, chainId?: string): string => {
+  const address = delegatorAddress ?? getChainSession(chainId).account?.bech32Address;
+  if (!address) {
+    throw new Error("delegatorAddress is not defined");
+  }
+  return address;
+};
+
+// when acting on behalf of a granter, the granter is the delegator and the given delegator signs as grantee
+const getStakingAddresses = ({ delegatorAddress, granterAddress, chainId }: StakingTxArgs) => {
+  const senderAddress = getDelegatorAddress(delegatorAddress, chainId);
+  return { senderAddress, delegatorAddress: granterAddress ?? senderAddress };
+};
+
+interface StakingTxArgs {
+  /**
+   * delegator address, defaults to connected account address
+   */
+  delegatorAddress?: string;
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to stake on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * stake on behalf of given granter through authz `MsgExec`, signed by `delegatorAddress` as grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+export interface DelegateTokensArgs extends StakingTxArgs {
+  validatorAddress: string;
+  amount: Coin;
+}
+
+/**
+ * Function to delegate tokens to given validator.
+ *
+ * @example
+ * ```ts
+ * import { delegateTokens } from "graz";
+ *
+ * await delegateTokens({
+ *   validatorAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000000" },
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const delegateTokens = ({
+  delegatorAddress,
+  validatorAddress,
+  amount,
+  ...args
+}: DelegateTokensArgs): Promise<DeliverTxResponse> => {
+  const { senderAddress, delegatorAddress: address } = getStakingAddresses({ ...args, delegatorAddress });
+  return signAndBroadcast({
+    ...args,
+    senderAddress,
+    messages: [buildDelegateMsg({ delegatorAddress: address, validatorAddress, amount })],
+  });
+};
+
+export type UndelegateTokensArgs = DelegateTokensArgs;
+
+/**
+ * Function to undelegate tokens from given validator.
+ *
+ * @example
+ * ```ts
+ * import { undelegateTokens } from "graz";
+ *
+ * await undelegateTokens({
+ *   validatorAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000000" },
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const undelegateTokens = ({
+  delegatorAddress,
+  validatorAddress,
+  amount,
+  ...args
+}: UndelegateTokensArgs): Promise<DeliverTxResponse> => {
+  const { senderAddress, delegatorAddress: address } = getStakingAddresses({ ...args, delegatorAddress });
+  return signAndBroadcast({
+    ...args,
+    senderAddress,
+    messages: [buildUndelegateMsg({ delegatorAddress: address, validatorAddress, amount })],
+  });
+};
+
+export interface RedelegateTokensArgs extends StakingTxArgs {
+  validatorSrcAddress: string;
+  validatorDstAddress: string;
+  amount: Coin;
+}
+
+/**
+ * Function to redelegate tokens from source validator to destination validator.
+ *
+ * @example
+ * ```ts
+ * import { redelegateTokens } from "graz";
+ *
+ * await redelegateTokens({
+ *   validatorSrcAddress: "cosmosvaloper1...",
+ *   validatorDstAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000000" },
+ *   fee: "auto",
+ * });
+ * ```
+ */
+export const redelegateTokens = ({
+  delegatorAddress,
+  validatorSrcAddress,
+  validatorDstAddress,
+  amount,
+  ...args
+}: RedelegateTokensArgs): Promise<DeliverTxResponse> => {
+  const { senderAddress, delegatorAddress: address } = getStakingAddresses({ ...args, delegatorAddress });
+  return signAndBroadcast({
+    ...args,
+    senderAddress,
+    messages: [buildRedelegateMsg({ delegatorAddress: address, validatorSrcAddress, validatorDstAddress, amount })],
+  });
+};
+
+export interface WithdrawRewardsArgs extends StakingTxArgs {
+  validatorAddress: string;
+}
+
+/**
+ * Function to withdraw pending rewards from given validator.
+ *
+ * @example
+ * ```ts
+ * import { withdrawRewards } from "graz";
+ *
+ * await withdrawRewards({ validatorAddress: "cosmosvaloper1...", fee: "auto" });
+ * ```
+ */
+export const withdrawRewards = ({
+  delegatorAddress,
+  validatorAddress,
+  ...args
+}: WithdrawRewardsArgs): Promise<DeliverTxResponse> => {
+  const { senderAddress, delegatorAddress: address } = getStakingAddresses({ ...args, delegatorAddress });
+  return signAndBroadcast({
+    ...args,
+    senderAddress,
+    messages: [buildWithdrawRewardsMsg({ delegatorAddress: address, validatorAddress })],
+  });
+};
+
+export type WithdrawAllRewardsArgs = StakingTxArgs;
+
+/**
+ * Function to withdraw pending rewards from all delegated validators in a single transaction.
+ *
+ * @example
+ * ```ts
+ * import { withdrawAllRewards } from "graz";
+ *
+ * await withdrawAllRewards({ fee: "auto" });
+ * ```
+ */
+export const withdrawAllRewards = async ({
+  delegatorAddress,
+  ...args
+}: WithdrawAllRewardsArgs): Promise<DeliverTxResponse> => {
+  const { senderAddress, delegatorAddress: address } = getStakingAddresses({ ...args, delegatorAddress });
+  const { rewards } = await getPendingRewards(address, args.chainId);
+  if (!rewards.length) {
+    throw new Error("No pending rewards to withdraw");
+  }
+  return signAndBroadcast({
+    ...args,
+    senderAddress,
+    messages: rewards.map(({ validatorAddress }) =>
+      buildWithdrawRewardsMsg({ delegatorAddress: address, validatorAddress }),
+    ),
+  });
+};
+
+/**
+ * Function to query all delegations of given delegator address.
+ *
+ * @example
+ * ```ts
+ * import { getDelegations } from "graz";
+ *
+ * const delegations = await getDelegations("cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430");
+ * ```
+ */
+export const getDelegations = async (delegatorAddress: string, chainId?: string): Promise<DelegationResponse[]> => {
+  const queryClient = getStakingQueryClient(chainId);
+  const delegations: DelegationResponse[] = [];
+  let paginationKey: Uint8Array | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop
+    const response = await queryClient.staking.delegatorDelegations(delegatorAddress, paginationKey);
+    delegations.push(...response.delegationResponses);
+    paginationKey = response.pagination?.nextKey.length ? response.pagination.nextKey : undefined;
+  } while (paginationKey);
+  return delegations;
+};
+
+/**
+ * Function to query all unbonding delegations (and its entries) of given delegator address.
+ *
+ * @example
+ * ```ts
+ * import { getUnbondingDelegations } from "graz";
+ *
+ * const unbondings = await getUnbondingDelegations("cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430");
+ * ```
+ */
+export const getUnbondingDelegations = async (
+  delegatorAddress: string,
+  chainId?: string,
+): Promise<UnbondingDelegation[]> => {
+  const queryClient = getStakingQueryClient(chainId);
+  const unbondings: UnbondingDelegation[] = [];
+  let paginationKey: Uint8Array | undefined;
+  do {
+    // eslint-disable-next-line no-await-in-loop
+    const response = await queryClient.staking.delegatorUnbondingDelegations(delegatorAddress, paginationKey);
+    unbondings.push(...response.unbondingResponses);
+    paginationKey = response.pagination?.nextKey.length ? response.pagination.nextKey : undefined;
+  } while (paginationKey);
+  return unbondings;
+};
+
+/**
+ * Function to query pending rewards per validator and total pending rewards of given delegator address.
+ *
+ * Note: reward amounts are returned as `DecCoin` with 18 decimal places precision.
+ *
+ * @example
+ * ```ts
+ * import { getPendingRewards } from "graz";
+ *
+ * const { rewards, total } = await getPendingRewards("cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430");
+ * ```
+ */
+export const getPendingRewards = (
+  delegatorAddress: string,
+  chainId?: string,
+): Promise<QueryDelegationTotalRewardsResponse> => {
+  const queryClient = getStakingQueryClient(chainId);
+  return queryClient.distribution.delegationTotalRewards(delegatorAddress);
+};
@@ -0,0 +1,237 @@
+import { TimeoutError } from "@cosmjs/stargate";
+import { cleanup } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { TX_POLL_INTERVAL_MS, TX_TIMEOUT_MS } from "../constant";
+import { useTransaction } from "../hooks/transaction";
+import type { GrazTransaction } from "../store";
+import { useGrazSessionStore } from "../store";
+import { installMockChain } from "../testing/clients";
+import { renderWithGraz } from "../testing/render";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, installMockWallet } from "../testing/wallet";
+import { connect, getChainSession } from "./account";
+import { grazEvents } from "./events";
+import { broadcastTx, estimateFee, waitForTransaction } from "./transaction";
+
+const RECIPIENT_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const UNKNOWN_HASH = "AB".repeat(32);
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+const setup = async (options?: Parameters<typeof installMockChain>[0]) => {
+  const address = await getMockAddress();
+  const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] }, ...options });
+  installMockWallet();
+  await connect({ chain });
+  return { address, mockChain };
+};
+
+const send = (address: string, onStatusChange?: (transaction: GrazTransaction) => void) =>
+  broadcastTx({
+    signerAddress: address,
+    messages: [
+      {
+        typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+        value: { fromAddress: address, toAddress: RECIPIENT_ADDRESS, amount: [{ denom: "uatom", amount: "100" }] },
+      },
+    ],
+    fee: "auto",
+    onStatusChange,
+  });
+
+const Transaction = ({ hash }: { hash: string }) => {
+  const { status } = useTransaction(hash);
+  return <span>{status ?? "unknown"}</span>;
+};
+
+describe("estimateFee", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  const messages = (address: string) => [
+    {
+      typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+      value: { fromAddress: address, toAddress: RECIPIENT_ADDRESS, amount: [{ denom: "uatom", amount: "100" }] },
+    },
+  ];
+
+  it("multiplies simulated gas and calculates fee from the chain gas price", async () => {
+    const { address } = await setup({ gasUsed: 100_000 });
+
+    const { gasUsed, gasLimit, fee } = await estimateFee({ signerAddress: address, messages: messages(address) });
+
+    expect(gasUsed).toBe(100_000);
+    expect(gasLimit).toBe(130_000);
+    expect(fee).toEqual({ gas: "130000", amount: [{ denom: "uatom", amount: "3250" }] });
+  });
+
+  it("prefers the given multiplier over the chain multiplier", async () => {
+    const address = await getMockAddress();
+    installMockChain({ gasUsed: 100_000 });
+    installMockWallet();
+    await connect({ chain: { ...chain, gas: { ...chain.gas, multiplier: 2 } } });
+
+    const fromChain = await estimateFee({ signerAddress: address, messages: messages(address) });
+    const given = await estimateFee({ signerAddress: address, messages: messages(address), gasMultiplier: 1.5 });
+
+    expect(fromChain.gasLimit).toBe(200_000);
+    expect(given.gasLimit).toBe(150_000);
+    expect(given.fee.amount).toEqual([{ denom: "uatom", amount: "3750" }]);
+  });
+
+  it("sets the fee granter", async () => {
+    const { address } = await setup();
+
+    const { fee } = await estimateFee({
+      signerAddress: address,
+      messages: messages(address),
+      feeGranter: RECIPIENT_ADDRESS,
+    });
+
+    expect(fee.granter).toBe(RECIPIENT_ADDRESS);
+  });
+
+  it("requires a gas price", async () => {
+    const address = await getMockAddress();
+    installMockChain();
+    installMockWallet();
+    await connect({ chain: mainnetChains.cosmoshub });
+
+    await expect(estimateFee({ signerAddress: address, messages: messages(address) })).rejects.toThrow(
+      "Gas price is not configured for this chain",
+    );
+  });
+});
+
+describe("broadcastTx", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("reports the lifecycle of a confirmed transaction and announces it once", async () => {
+    const { address } = await setup();
+    const broadcasted: GrazTransaction[] = [];
+    const confirmed: GrazTransaction[] = [];
+    const unsubscribe = [
+      grazEvents.on("txBroadcast", (x) => broadcasted.push(x)),
+      grazEvents.on("txConfirmed", (x) => confirmed.push(x)),
+    ];
+    const statuses: string[] = [];
+
+    const response = await send(address, ({ status }) => statuses.push(status));
+    unsubscribe.forEach((x) => x());
+
+    expect(response.code).toBe(0);
+    expect(statuses).toEqual(["signing", "broadcasting", "pending", "confirmed"]);
+    expect(broadcasted.map((x) => x.hash)).toEqual([response.transactionHash]);
+    expect(confirmed.map((x) => x.hash)).toEqual([response.transactionHash]);
+    expect(useGrazSessionStore.getState().transactions[response.transactionHash]?.status).toBe("confirmed");
+  });
+
+  it("fails transactions rejected by the chain", async () => {
+    const { address } = await setup({ deliverTx: () => ({ code: 11, log: "out of gas" }) });
+    const statuses: string[] = [];
+
+    const response = await send(address, ({ status }) => statuses.push(status));
+
+    expect(response.code).toBe(11);
+    expect(statuses).toEqual(["signing", "broadcasting", "pending", "failed"]);
+    expect(useGrazSessionStore.getState().transactions[response.transactionHash]).toMatchObject({
+      status: "failed",
+      response: { rawLog: "out of gas" },
+    });
+  });
+});
+
+describe("waitForTransaction", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanup();
+    resetGrazStores();
+  });
+
+  it("tracks transactions not broadcasted by graz without announcing them", async () => {
+    const { address } = await setup();
+    const { transactionHash } = await send(address);
+    useGrazSessionStore.setState({ transactions: {} });
+    const broadcasted: GrazTransaction[] = [];
+    const unsubscribe = grazEvents.on("txBroadcast", (x) => broadcasted.push(x));
+    const statuses: string[] = [];
+
+    await waitForTransaction(transactionHash, undefined, ({ status }) => statuses.push(status));
+    unsubscribe();
+
+    expect(statuses).toEqual(["pending", "confirmed"]);
+    expect(broadcasted).toHaveLength(0);
+  });
+
+  it("returns stored responses without polling", async () => {
+    const { address } = await setup();
+    const response = await send(address);
+    const { clients } = getChainSession();
+    if (!clients) throw new Error("No clients");
+    const tx = vi.spyOn(clients.tendermint, "tx");
+
+    expect(await waitForTransaction(response.transactionHash)).toEqual(response);
+    expect(tx).not.toHaveBeenCalled();
+  });
+
+  it("shares one poll between callers waiting for the same transaction", async () => {
+    await setup();
+    const { clients } = getChainSession();
+    if (!clients) throw new Error("No clients");
+    const tx = vi.spyOn(clients.tendermint, "tx");
+    vi.useFakeTimers();
+    const statuses: string[] = [];
+
+    const controller = new AbortController();
+    const first = waitForTransaction(UNKNOWN_HASH, undefined, undefined, controller.signal);
+    const second = waitForTransaction(UNKNOWN_HASH, undefined, ({ status }) => statuses.push(status));
+    const assertions = [expect(first).rejects.toThrow("Stopped waiting"), expect(second).rejects.toThrow(TimeoutError)];
+    await vi.advanceTimersByTimeAsync(TX_POLL_INTERVAL_MS);
+
+    expect(tx).toHaveBeenCalledTimes(2);
+
+    // the poll goes on for remaining callers
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(TX_TIMEOUT_MS);
+
+    await Promise.all(assertions);
+    expect(statuses).toEqual(["pending", "failed"]);
+  });
+
+  it("fails transactions not found within the timeout", async () => {
+    await setup();
+    vi.useFakeTimers();
+
+    const result = waitForTransaction(UNKNOWN_HASH);
+    const assertion = expect(result).rejects.toThrow(TimeoutError);
+    await vi.advanceTimersByTimeAsync(TX_TIMEOUT_MS);
+
+    await assertion;
+    expect(useGrazSessionStore.getState().transactions[UNKNOWN_HASH]?.status).toBe("failed");
+  });
+
+  it("stops polling once useTransaction unmounts", async () => {
+    await setup();
+    const { clients } = getChainSession();
+    if (!clients) throw new Error("No clients");
+    const tx = vi.spyOn(clients.tendermint, "tx");
+    vi.useFakeTimers();
+
+    const { unmount } = renderWithGraz(<Transaction hash={UNKNOWN_HASH} />);
+    await vi.advanceTimersByTimeAsync(TX_POLL_INTERVAL_MS);
+    const calls = tx.mock.calls.length;
+
+    unmount();
+    await vi.advanceTimersByTimeAsync(TX_TIMEOUT_MS);
+
+    expect(calls).toBe(2);
+    expect(tx).toHaveBeenCalledTimes(calls);
+    expect(useGrazSessionStore.getState().transactions[UNKNOWN_HASH]?.status).toBe("pending");
+  });
+});
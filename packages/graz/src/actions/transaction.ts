@@ -0,0 +1,377 @@
+import { createWasmAminoConverters } from "@cosmjs/cosmwasm-stargate";
+import { fromHex, toHex } from "@cosmjs/encoding";
+import type { EncodeObject } from "@cosmjs/proto-signing";
+import type { DeliverTxResponse, StdFee } from "@cosmjs/stargate";
+import {
+  AminoTypes,
+  BroadcastTxError,
+  calculateFee,
+  createDefaultAminoConverters,
+  fromTendermintEvent,
+  GasPrice,
+  TimeoutError,
+} from "@cosmjs/stargate";
+import { sleep } from "@cosmjs/utils";
+import { TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+
+import { DEFAULT_GAS_MULTIPLIER, TX_POLL_INTERVAL_MS, TX_TIMEOUT_MS } from "../constant";
+import type { GrazClients, GrazInternalStore, GrazSigningClients, GrazTransaction } from "../store";
+import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import { emitGrazEvent } from "../store/events";
+import { getChainSession } from "./account";
+import { buildExecMsg } from "./messages";
+
+// wrap messages of granter in authz `MsgExec` signed by the grantee
+const withGranter = (signerAddress: string, messages: EncodeObject[], granterAddress?: string): EncodeObject[] => {
+  if (!granterAddress) return messages;
+  return [buildExecMsg({ granteeAddress: signerAddress, messages })];
+};
+
+const getFeeGranter = (feeGranter?: string): string | undefined => {
+  return feeGranter ?? (useGrazInternalStore.getState().feeGranter || undefined);
+};
+
+export interface BroadcastTxArgs {
+  signerAddress: string;
+  messages: EncodeObject[];
+  fee: StdFee | "auto" | number;
+  memo?: string;
+  /**
+   * connected chain to sign and broadcast on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * signing client used to sign messages, defaults to `defaultSigningClient`
+   */
+  signingClient?: GrazInternalStore["defaultSigningClient"];
+  /**
+   * signing clients of `signerAddress` if it is not a connected account, e.g. of a session key
+   */
+  signingClients?: GrazSigningClients;
+  /**
+   * execute messages on behalf of given granter through authz `MsgExec`, signed by the grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  onStatusChange?: (transaction: GrazTransaction) => void;
+}
+
+export interface EstimateFeeArgs {
+  signerAddress: string;
+  messages: EncodeObject[];
+  memo?: string;
+  /**
+   * connected chain to simulate on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * signing client used to simulate messages, defaults to `defaultSigningClient`
+   */
+  signingClient?: GrazInternalStore["defaultSigningClient"];
+  /**
+   * signing clients of `signerAddress` if it is not a connected account, e.g. of a session key
+   */
+  signingClients?: GrazSigningClients;
+  /**
+   * execute messages on behalf of given granter through authz `MsgExec`, signed by the grantee
+   */
+  granterAddress?: string;
+  /**
+   * address paying the fee through feegrant allowance, defaults to configured `feeGranter`
+   */
+  feeGranter?: string;
+  /**
+   * multiplier applied to simulated gas, defaults to chain's `gas.multiplier` or 1.3
+   */
+  gasMultiplier?: number;
+}
+
+export interface EstimateFeeResult {
+  gasUsed: number;
+  gasLimit: number;
+  fee: StdFee;
+}
+
+/**
+ * Function to simulate given messages on the connected signing client and calculate fee from chain's gas price.
+ *
+ * @example
+ * ```ts
+ * const { gasUsed, gasLimit, fee } = await estimateFee({
+ *   signerAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   messages: [msg],
+ *   gasMultiplier: 1.5,
+ * });
+ * ```
+ */
+export const estimateFee = async ({
+  signerAddress,
+  messages,
+  memo = "",
+  chainId,
+  signingClient = useGrazInternalStore.getState().defaultSigningClient,
+  granterAddress,
+  feeGranter,
+  gasMultiplier,
+  ...args
+}: EstimateFeeArgs): Promise<EstimateFeeResult> => {
+  const { chain, ...session } = getChainSession(chainId);
+  const signingClients = args.signingClients ?? session.signingClients;
+  if (!chain || !signingClients) {
+    throw new Error("No connected account detected");
+  }
+  if (!chain.gas) {
+    throw new Error("Gas price is not configured for this chain, unable to calculate fee");
+  }
+
+  const gasUsed = await signingClients[signingClient].simulate(
+    signerAddress,
+    withGranter(signerAddress, messages, granterAddress),
+    memo,
+  );
+  const gasLimit = Math.round(gasUsed * (gasMultiplier ?? chain.gas.multiplier ?? DEFAULT_GAS_MULTIPLIER));
+  const fee: StdFee = calculateFee(gasLimit, GasPrice.fromString(`${chain.gas.price}${chain.gas.denom}`));
+  const granter = getFeeGranter(feeGranter);
+
+  return { gasUsed, gasLimit, fee: granter ? { ...fee, granter } : fee };
+};
+
+const setTransaction = (transaction: GrazTransaction) => {
+  if (!transaction.hash) return;
+  const { hash } = transaction;
+  useGrazSessionStore.setState((x) => ({ transactions: { ...x.transactions, [hash]: transaction } }));
+  if (transaction.status === "confirmed") emitGrazEvent("txConfirmed", transaction);
+};
+
+interface TransactionPoll {
+  response: Promise<DeliverTxResponse>;
+  listeners: Set<(transaction: GrazTransaction) => void>;
+  waiters: number;
+  controller: AbortController;
+}
+
+// in-flight polls keyed by chain id and hash, shared by every caller waiting for the same transaction
+const transactionPolls = new Map<string, TransactionPoll>();
+
+const pollTransaction = async (
+  hash: string,
+  tendermint: GrazClients["tendermint"],
+  update: (transaction: Omit<GrazTransaction, "chainId" | "hash">) => void,
+  signal: AbortSignal,
+): Promise<DeliverTxResponse> => {
+  const assertNotAborted = () => {
+    if (signal.aborted) throw new Error(`Stopped waiting for transaction ${hash}`);
+  };
+
+  // transactions broadcasted by graz are stored as pending already
+  if (!useGrazSessionStore.getState().transactions[hash]) update({ status: "pending" });
+
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < TX_TIMEOUT_MS) {
+    // transaction is not included in a block yet
+    // eslint-disable-next-line no-await-in-loop
+    const result = await tendermint.tx({ hash: fromHex(hash) }).catch(() => undefined);
+    assertNotAborted();
+    if (result) {
+      const response: DeliverTxResponse = {
+        height: result.height,
+        txIndex: result.index,
+        code: result.result.code,
+        transactionHash: hash,
+        events: result.result.events.map(fromTendermintEvent),
+        rawLog: result.result.log,
+        gasUsed: result.result.gasUsed,
+        gasWanted: result.result.gasWanted,
+      };
+      update({ status: response.code === 0 ? "confirmed" : "failed", response });
+      return response;
+    }
+    // eslint-disable-next-line no-await-in-loop
+    await sleep(TX_POLL_INTERVAL_MS);
+    assertNotAborted();
+  }
+
+  const error = new TimeoutError(
+    `Transaction with hash ${hash} was submitted but was not yet found on the chain. You might want to check later. There was a wait of ${
+      TX_TIMEOUT_MS / 1000
+    } seconds.`,
+    hash,
+  );
+  update({ status: "failed", error });
+  throw error;
+};
+
+/**
+ * Function to poll given transaction hash through the session's Tendermint client until it is included in a block.
+ *
+ * Stored responses are returned without polling, and callers waiting for the same transaction share a single poll.
+ * Given `signal` stops waiting, polling stops without further updates once no caller is waiting anymore.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const response = await waitForTransaction("A1B2C3...", "cosmoshub-4", undefined, controller.signal);
+ * ```
+ */
+export const waitForTransaction = async (
+  hash: string,
+  chainId?: string,
+  onStatusChange?: (transaction: GrazTransaction) => void,
+  signal?: AbortSignal,
+): Promise<DeliverTxResponse> => {
+  const { chain, clients } = getChainSession(chainId);
+  if (!chain || !clients?.tendermint) {
+    throw new Error("Tendermint client is not ready");
+  }
+  if (signal?.aborted) {
+    throw new Error(`Stopped waiting for transaction ${hash}`);
+  }
+  const stored = useGrazSessionStore.getState().transactions[hash];
+  if (stored?.response) return stored.response;
+
+  const key = `${chain.chainId}:${hash}`;
+  let poll = transactionPolls.get(key);
+  if (!poll) {
+    const listeners = new Set<(transaction: GrazTransaction) => void>();
+    const controller = new AbortController();
+    const update = (transaction: Omit<GrazTransaction, "chainId" | "hash">) => {
+      const value: GrazTransaction = { chainId: chain.chainId, hash, ...transaction };
+      setTransaction(value);
+      listeners.forEach((listener) => listener(value));
+    };
+    // deferred so the first caller subscribes before the first update
+    const response = Promise.resolve().then(() => pollTransaction(hash, clients.tendermint, update, controller.signal));
+    const created: TransactionPoll = { response, listeners, controller, waiters: 0 };
+    response
+      .finally(() => {
+        if (transactionPolls.get(key) === created) transactionPolls.delete(key);
+      })
+      .catch(() => null);
+    transactionPolls.set(key, created);
+    poll = created;
+  }
+
+  const current = poll;
+  current.waiters += 1;
+  if (onStatusChange) current.listeners.add(onStatusChange);
+  if (!signal) return current.response;
+
+  return new Promise<DeliverTxResponse>((resolve, reject) => {
+    const onAbort = () => {
+      if (onStatusChange) current.listeners.delete(onStatusChange);
+      current.waiters -= 1;
+      if (!current.waiters) {
+        transactionPolls.delete(key);
+        current.controller.abort();
+      }
+      reject(new Error(`Stopped waiting for transaction ${hash}`));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    current.response
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort))
+      .catch(() => null);
+  });
+};
+
+const aminoTypes = new AminoTypes({ ...createDefaultAminoConverters(), ...createWasmAminoConverters() });
+
+// amino-only signers (e.g. ledger) fail deep inside signing clients on messages without amino converters
+const assertAminoMessages = (messages: EncodeObject[]) => {
+  const unsupported = messages.find((msg) => {
+    try {
+      aminoTypes.toAmino(msg);
+      return false;
+    } catch (error) {
+      return true;
+    }
+  });
+  if (unsupported) {
+    throw new Error(`${unsupported.typeUrl} can not be signed by amino-only signers such as Ledger`);
+  }
+};
+
+/**
+ * Function to sign given messages, broadcast the signed transaction in sync mode and poll for its inclusion.
+ *
+ * Transaction lifecycle (signing, broadcasting, pending, confirmed, failed) is reported through `onStatusChange` and
+ * stored in session store once the transaction hash is known (see `useTransaction`).
+ *
+ * @example
+ * ```ts
+ * const response = await broadcastTx({
+ *   signerAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   messages: [msg],
+ *   fee: "auto",
+ *   onStatusChange: ({ status, hash }) => console.log(status, hash),
+ * });
+ * ```
+ */
+export const broadcastTx = async ({
+  signerAddress,
+  messages: _messages,
+  fee,
+  memo = "",
+  chainId,
+  signingClient = useGrazInternalStore.getState().defaultSigningClient,
+  granterAddress,
+  feeGranter,
+  onStatusChange,
+  ...args
+}: BroadcastTxArgs): Promise<DeliverTxResponse> => {
+  const messages = withGranter(signerAddress, _messages, granterAddress);
+  const { chain, clients, offlineSignerAuto, ...session } = getChainSession(chainId);
+  const signingClients = args.signingClients ?? session.signingClients;
+  if (!chain || !clients || !signingClients) {
+    throw new Error("No connected account detected");
+  }
+
+  const update = (transaction: Omit<GrazTransaction, "chainId">) => {
+    const value: GrazTransaction = { chainId: chain.chainId, ...transaction };
+    setTransaction(value);
+    // only transactions broadcasted by graz are announced, not hashes tracked through `waitForTransaction`
+    if (value.status === "pending") emitGrazEvent("txBroadcast", value);
+    onStatusChange?.(value);
+  };
+
+  let hash: string | undefined;
+  try {
+    update({ status: "signing" });
+    if (!args.signingClients && offlineSignerAuto && !("signDirect" in offlineSignerAuto)) {
+      assertAminoMessages(messages);
+    }
+    const granter = getFeeGranter(feeGranter);
+    const usedFee =
+      typeof fee === "object"
+        ? { ...fee, granter: fee.granter ?? granter }
+        : (
+            await estimateFee({
+              signerAddress,
+              messages,
+              memo,
+              chainId: chain.chainId,
+              signingClient,
+              signingClients,
+              feeGranter: granter,
+              gasMultiplier: typeof fee === "number" ? fee : undefined,
+            })
+          ).fee;
+    const txRaw = await signingClients[signingClient].sign(signerAddress, messages, usedFee, memo);
+
+    update({ status: "broadcasting" });
+    const result = await clients.tendermint.broadcastTxSync({ tx: TxRaw.encode(txRaw).finish() });
+    hash = toHex(result.hash).toUpperCase();
+    if (result.code) {
+      throw new BroadcastTxError(result.code, result.codespace ?? "", result.log);
+    }
+  } catch (error) {
+    update({ status: "failed", hash, error });
+    throw error;
+  }
+
+  update({ status: "pending", hash });
+  return waitForTransaction(hash, chain.chainId, onStatusChange);
+};
@@ -0,0 +1,40 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { installMockChain } from "../testing/clients";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress, MOCK_PRIVATE_KEY } from "../testing/wallet";
+import { WalletType } from "../types/wallet";
+import { connect } from "./account";
+import { configureGraz } from "./configure";
+import { sendTokens } from "./methods";
+
+const RECIPIENT_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+describe("getLocalWallet", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("connects and sends in node scripts", async () => {
+    const address = await getMockAddress();
+    const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+    configureGraz({ localWallet: { privateKey: MOCK_PRIVATE_KEY } });
+
+    const { account } = await connect({ chain, walletType: WalletType.LOCAL });
+    const response = await sendTokens({
+      senderAddress: account.bech32Address,
+      recipientAddress: RECIPIENT_ADDRESS,
+      amount: [{ denom: "uatom", amount: "100" }],
+      fee: "auto",
+    });
+
+    expect(typeof window).toBe("undefined");
+    expect(account.bech32Address).toBe(address);
+    expect(response.code).toBe(0);
+    expect(mockChain.getBalances(RECIPIENT_ADDRESS)).toEqual([{ denom: "uatom", amount: "100" }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { installMockChain } from "../testing/clients";
+import { installMockLedger } from "../testing/ledger";
+import { resetGrazStores } from "../testing/store";
+import { getMockAddress } from "../testing/wallet";
+import { WalletType } from "../types/wallet";
+import { connect } from "./account";
+import { buildGrantMsg } from "./messages";
+import { sendTokens, signAndBroadcast } from "./methods";
+import { checkWallet } from "./wallet";
+
+const RECIPIENT_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+describe("getLedger", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("is available with a configured transport outside of browsers", () => {
+    expect(checkWallet(WalletType.LEDGER)).toBe(false);
+
+    installMockLedger();
+
+    expect(checkWallet(WalletType.LEDGER)).toBe(true);
+  });
+
+  it("connects and signs amino through the transport", async () => {
+    const address = await getMockAddress();
+    const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+    const ledger = installMockLedger({ accountIndex: 2 });
+
+    const { account } = await connect({ chain, walletType: WalletType.LEDGER });
+    await sendTokens({
+      senderAddress: account.bech32Address,
+      recipientAddress: RECIPIENT_ADDRESS,
+      amount: [{ denom: "uatom", amount: "100" }],
+      fee: "auto",
+    });
+
+    expect(account.bech32Address).toBe(address);
+    expect(ledger.paths).toContain("m/44'/118'/0'/0/2");
+    expect(ledger.signed[0]?.msgs[0]?.type).toBe("cosmos-sdk/MsgSend");
+    expect(mockChain.getBalances(RECIPIENT_ADDRESS)).toEqual([{ denom: "uatom", amount: "100" }]);
+  });
+
+  it("rejects messages without amino converters before prompting the device", async () => {
+    installMockChain();
+    const ledger = installMockLedger();
+    const { account } = await connect({ chain, walletType: WalletType.LEDGER });
+
+    const grant = buildGrantMsg({
+      granterAddress: account.bech32Address,
+      granteeAddress: RECIPIENT_ADDRESS,
+      authorization: { type: "generic", msgTypeUrl: "/cosmos.bank.v1beta1.MsgSend" },
+    });
+
+    await expect(signAndBroadcast({ messages: [grant], fee: "auto" })).rejects.toThrow(
+      "/cosmos.authz.v1beta1.MsgGrant can not be signed by amino-only signers such as Ledger",
+    );
+    expect(ledger.signed).toHaveLength(0);
+  });
+});
@@ -1,22 +1,48 @@
-import type { AminoSignResponse, StdSignature } from "@cosmjs/amino";
-import { fromBech32 } from "@cosmjs/encoding";
-import type { AccountData, Algo, DirectSignResponse } from "@cosmjs/proto-signing";
-import type { Keplr, Key } from "@keplr-wallet/types";
+import type { AminoSignResponse, StdSignature, StdSignDoc } from "@cosmjs/amino";
+import { rawSecp256k1PubkeyToRawAddress, Secp256k1HdWallet, Secp256k1Wallet } from "@cosmjs/amino";
+import { stringToPath } from "@cosmjs/crypto";
+import { fromBech32, fromHex } from "@cosmjs/encoding";
+import type { OfflineSigner } from "@cosmjs/launchpad";
+import { LedgerSigner } from "@cosmjs/ledger-amino";
+import type { AccountData, Algo, DirectSignResponse, OfflineDirectSigner } from "@cosmjs/proto-signing";
+import { DirectSecp256k1HdWallet, DirectSecp256k1Wallet, makeCosmoshubPath } from "@cosmjs/proto-signing";
+import type { ChainInfo, Keplr, Key } from "@keplr-wallet/types";
 import { SignClient } from "@walletconnect/sign-client";
-import type { ISignClient } from "@walletconnect/types";
-import { getSdkError } from "@walletconnect/utils";
+import type { ISignClient, ProposalTypes, SessionTypes, SignClientTypes } from "@walletconnect/types";
+import { getSdkError, parseUri } from "@walletconnect/utils";
+import type { SignDoc } from "cosmjs-types/cosmos/tx/v1beta1/tx";
 // eslint-disable-next-line import/no-named-as-default
 import Long from "long";
 
-import { RECONNECT_SESSION_KEY } from "../constant";
+import type { GrazAdapter } from "../adapter";
+import { makeADR36AminoSignDoc, verifyADR36Signature } from "../adr36";
+import type { GrazChain } from "../chains";
+import { mainnetChainsArray, testnetChainsArray } from "../chains";
+import { DEFAULT_COIN_TYPE, METAMASK_SNAP_LEAP_ID, RECONNECT_SESSION_KEY } from "../constant";
+import type { LedgerOptions, LedgerTransport, LocalWalletOptions } from "../store";
 import { grazSessionDefaultValues, useGrazInternalStore, useGrazSessionStore } from "../store";
-import type { Wallet } from "../types/wallet";
+import { emitGrazEvent } from "../store/events";
+import type { Wallet, WalletId } from "../types/wallet";
 import { WALLET_TYPES, WalletType } from "../types/wallet";
 import { isAndroid, isIos, isMobile } from "../utils/os";
 import { promiseWithTimeout } from "../utils/timeout";
+import type {
+  WalletConnectAccount,
+  WalletConnectSignAminoResponse,
+  WalletConnectSignArbitraryResponse,
+  WalletConnectSignDirectResponse,
+} from "../utils/walletconnect";
+import {
+  encodeWalletConnectBytes,
+  getWalletConnectPeerEncoding,
+  normalizeWalletConnectAccount,
+  normalizeWalletConnectSignAminoResponse,
+  normalizeWalletConnectSignArbitraryResponse,
+  normalizeWalletConnectSignDirectResponse,
+} from "../utils/walletconnect";
 
 /**
- * Function to check whether given {@link WalletType} or default configured wallet exists.
+ * Function to check whether given {@link WalletType}, registered adapter id or default configured wallet exists.
  *
  * @example
  * ```ts
@@ -24,7 +50,9 @@ import { promiseWithTimeout } from "../utils/timeout";
  * const isKeplrSupported = checkWallet("keplr");
  * ```
  */
-export const checkWallet = (type: WalletType = useGrazInternalStore.getState().walletType): boolean => {
+export const checkWallet = (type: WalletId = useGrazInternalStore.getState().walletType): boolean => {
+  const adapter = getRegisteredAdapter(type);
+  if (adapter) return adapter.checkConnector();
   try {
     getWallet(type);
     return true;
@@ -55,16 +83,14 @@ const clearSession = () => {
 export const getKeplr = (): Wallet => {
   if (typeof window.keplr !== "undefined") {
     const keplr = window.keplr;
-    const subscription: (reconnect: () => void) => void = (reconnect) => {
-      window.addEventListener("keplr_keystorechange", () => {
+    const subscription = (reconnect: () => void) => {
+      const listener = () => {
         clearSession();
         reconnect();
-      });
+      };
+      window.addEventListener("keplr_keystorechange", listener);
       return () => {
-        window.removeEventListener("keplr_keystorechange", () => {
-          clearSession();
-          reconnect();
-        });
+        window.removeEventListener("keplr_keystorechange", listener);
       };
     };
     const res = Object.assign(keplr, {
@@ -94,16 +120,14 @@ export const getKeplr = (): Wallet => {
 export const getLeap = (): Wallet => {
   if (typeof window.leap !== "undefined") {
     const leap = window.leap;
-    const subscription: (reconnect: () => void) => void = (reconnect) => {
-      window.addEventListener("leap_keystorechange", () => {
+    const subscription = (reconnect: () => void) => {
+      const listener = () => {
         clearSession();
         reconnect();
-      });
+      };
+      window.addEventListener("leap_keystorechange", listener);
       return () => {
-        window.removeEventListener("leap_keystorechange", () => {
-          clearSession();
-          reconnect();
-        });
+        window.removeEventListener("leap_keystorechange", listener);
       };
     };
     const res = Object.assign(leap, {
@@ -116,8 +140,44 @@ export const getLeap = (): Wallet => {
   throw new Error("window.leap is not defined");
 };
 
+interface CosmostationAccount {
+  name: string;
+  address: string;
+  publicKey: Uint8Array | Record<string, number>;
+  isLedger: boolean;
+}
+
+interface CosmostationSignDirectResponse {
+  signature: string;
+  pub_key: StdSignature["pub_key"];
+  signed_doc: {
+    chain_id: string;
+    account_number: string;
+    auth_info_bytes: Uint8Array | Record<string, number>;
+    body_bytes: Uint8Array | Record<string, number>;
+  };
+}
+
+interface CosmostationSignAminoResponse {
+  signature: string;
+  pub_key: StdSignature["pub_key"];
+  signed_doc: StdSignDoc;
+}
+
+interface CosmostationSignMessageResponse {
+  signature: string;
+  pub_key: StdSignature["pub_key"];
+}
+
+interface CosmostationSupportedChainIds {
+  official: string[];
+  unofficial: string[];
+}
+
 /**
  * Function to return cosmostation object (which is {@link Wallet}) and throws and error if it does not exist on `window`.
+ * Uses the native `window.cosmostation.cosmos` api, falling back to the keplr compatible provider on older extension
+ * versions.
  *
  * @example
  * ```ts
@@ -128,31 +188,184 @@ export const getLeap = (): Wallet => {
  * }
  * ```
  *
- * @see https://docs.cosmostation.io/integration-extension/cosmos/integrate-keplr
+ * @see https://docs.cosmostation.io/extension/cosmos/integrate
  */
 export const getCosmostation = (): Wallet => {
-  if (typeof window.cosmostation.providers.keplr !== "undefined") {
-    const cosmostation = window.cosmostation.providers.keplr;
-    const subscription: (reconnect: () => void) => void = (reconnect) => {
-      window.cosmostation.cosmos.on("accountChanged", () => {
-        clearSession();
-        reconnect();
-      });
-      return () => {
-        window.cosmostation.cosmos.off("accountChanged", () => {
-          clearSession();
-          reconnect();
-        });
-      };
+  const cosmostation = window.cosmostation;
+  if (!cosmostation) {
+    useGrazInternalStore.getState()._notFoundFn();
+    throw new Error("window.cosmostation is not defined");
+  }
+
+  const subscription = (reconnect: () => void) => {
+    const listener = () => {
+      clearSession();
+      reconnect();
     };
-    const res = Object.assign(cosmostation, {
-      subscription,
-    });
-    return res;
+    cosmostation.cosmos.on("accountChanged", listener);
+    return () => {
+      cosmostation.cosmos.off("accountChanged", listener);
+    };
+  };
+
+  // fallback to keplr compatible provider on extension versions without the native api
+  const { request } = cosmostation.cosmos;
+  if (!request) {
+    if (typeof cosmostation.providers.keplr === "undefined") {
+      useGrazInternalStore.getState()._notFoundFn();
+      throw new Error("window.cosmostation.providers.keplr is not defined");
+    }
+    return Object.assign(cosmostation.providers.keplr, { subscription });
   }
 
-  useGrazInternalStore.getState()._notFoundFn();
-  throw new Error("window.cosmostation.providers.keplr is not defined");
+  const getKey = async (chainId: string): Promise<Key> => {
+    const account = await request<CosmostationAccount>({
+      method: "cos_requestAccount",
+      params: { chainName: chainId },
+    });
+    return {
+      address: fromBech32(account.address).data,
+      algo: "secp256k1",
+      bech32Address: account.address,
+      name: account.name,
+      pubKey: fromSerializedBytes(account.publicKey),
+      isKeystone: false,
+      isNanoLedger: account.isLedger,
+    };
+  };
+
+  const enable = async (...args: Parameters<Wallet["enable"]>) => {
+    const [chainIds] = args;
+    // requesting accounts prompts to connect the extension to given chains
+    for (const chainId of typeof chainIds === "string" ? [chainIds] : chainIds) {
+      // eslint-disable-next-line no-await-in-loop
+      await getKey(chainId);
+    }
+  };
+
+  const getAccount = async (chainId: string): Promise<AccountData> => {
+    const { bech32Address, algo, pubKey } = await getKey(chainId);
+    return { address: bech32Address, algo: algo as Algo, pubkey: pubKey };
+  };
+
+  const signDirect = async (...args: SignDirectParams): Promise<DirectSignResponse> => {
+    const [chainId, _signer, signDoc] = args;
+    const result = await request<CosmostationSignDirectResponse>({
+      method: "cos_signDirect",
+      params: {
+        chainName: chainId,
+        doc: {
+          chain_id: signDoc.chainId || chainId,
+          account_number: signDoc.accountNumber?.toString() || "",
+          auth_info_bytes: signDoc.authInfoBytes || Uint8Array.from([]),
+          body_bytes: signDoc.bodyBytes || Uint8Array.from([]),
+        },
+        isEditFee: false,
+        isEditMemo: false,
+      },
+    });
+    return {
+      signed: {
+        chainId: result.signed_doc.chain_id,
+        accountNumber: Long.fromString(result.signed_doc.account_number, false),
+        authInfoBytes: fromSerializedBytes(result.signed_doc.auth_info_bytes),
+        bodyBytes: fromSerializedBytes(result.signed_doc.body_bytes),
+      },
+      signature: { pub_key: result.pub_key, signature: result.signature },
+    };
+  };
+
+  const signAmino = async (...args: SignAminoParams): Promise<AminoSignResponse> => {
+    const [chainId, _signer, signDoc] = args;
+    const result = await request<CosmostationSignAminoResponse>({
+      method: "cos_signAmino",
+      params: { chainName: chainId, doc: signDoc, isEditFee: false, isEditMemo: false },
+    });
+    return { signed: result.signed_doc, signature: { pub_key: result.pub_key, signature: result.signature } };
+  };
+
+  // extension signs the ADR-036 sign doc of given message, which is text only
+  const signArbitrary = async (...args: SignArbitraryParams): Promise<StdSignature> => {
+    const [chainId, signer, data] = args;
+    if (typeof data !== "string") throw new Error("Cosmostation only supports signing arbitrary text");
+    const result = await request<CosmostationSignMessageResponse>({
+      method: "cos_signMessage",
+      params: { chainName: chainId, signer, message: data },
+    });
+    return { pub_key: result.pub_key, signature: result.signature };
+  };
+
+  const experimentalSuggestChain = async (...args: Parameters<Wallet["experimentalSuggestChain"]>) => {
+    const [chainInfo] = args;
+    const { official, unofficial } = await request<CosmostationSupportedChainIds>({ method: "cos_supportedChainIds" });
+    if ([...official, ...unofficial].includes(chainInfo.chainId)) return;
+    const gasPriceStep = chainInfo.feeCurrencies[0]?.gasPriceStep;
+    await request({
+      method: "cos_addChain",
+      params: {
+        chainId: chainInfo.chainId,
+        chainName: chainInfo.chainName,
+        addressPrefix: chainInfo.bech32Config.bech32PrefixAccAddr,
+        baseDenom: chainInfo.stakeCurrency.coinMinimalDenom,
+        displayDenom: chainInfo.stakeCurrency.coinDenom,
+        restURL: chainInfo.rest,
+        coinType: String(chainInfo.bip44.coinType),
+        decimals: chainInfo.stakeCurrency.coinDecimals,
+        coinGeckoId: chainInfo.stakeCurrency.coinGeckoId,
+        imageURL: chainInfo.stakeCurrency.coinImageUrl,
+        // cosmostation steps are one below keplr's, i.e. `tiny`, `low` and `average` for `low`, `average` and `high`
+        gasRate: gasPriceStep
+          ? {
+              average: String(gasPriceStep.high),
+              low: String(gasPriceStep.average),
+              tiny: String(gasPriceStep.low),
+            }
+          : undefined,
+      },
+    });
+  };
+
+  const getOfflineSignerDirect = (chainId: string) => {
+    return {
+      getAccounts: async () => [await getAccount(chainId)],
+      signDirect: (signerAddress: string, signDoc: SignDirectParams["2"]) =>
+        signDirect(chainId, signerAddress, signDoc),
+    };
+  };
+
+  const getOfflineSignerOnlyAmino = (chainId: string) => {
+    return {
+      getAccounts: async () => [await getAccount(chainId)],
+      signAmino: (signerAddress: string, signDoc: SignAminoParams["2"]) => signAmino(chainId, signerAddress, signDoc),
+    };
+  };
+
+  const getOfflineSigner = (chainId: string) => {
+    return {
+      ...getOfflineSignerDirect(chainId),
+      ...getOfflineSignerOnlyAmino(chainId),
+    };
+  };
+
+  const getOfflineSignerAuto = async (chainId: string) => {
+    const key = await getKey(chainId);
+    if (key.isNanoLedger) return getOfflineSignerOnlyAmino(chainId);
+    return getOfflineSignerDirect(chainId);
+  };
+
+  return {
+    enable,
+    experimentalSuggestChain,
+    getKey,
+    getOfflineSigner,
+    getOfflineSignerAuto,
+    getOfflineSignerOnlyAmino,
+    signAmino,
+    signArbitrary,
+    signDirect,
+    subscription,
+    verifyArbitrary,
+  };
 };
 
 /**
@@ -172,16 +385,14 @@ export const getCosmostation = (): Wallet => {
 export const getVectis = (): Wallet => {
   if (typeof window.vectis !== "undefined") {
     const vectis = window.vectis.cosmos;
-    const subscription: (reconnect: () => void) => void = (reconnect) => {
-      window.addEventListener("vectis_accountChanged", () => {
+    const subscription = (reconnect: () => void) => {
+      const listener = () => {
         clearSession();
         reconnect();
-      });
+      };
+      window.addEventListener("vectis_accountChanged", listener);
       return () => {
-        window.removeEventListener("vectis_accountChanged", () => {
-          clearSession();
-          reconnect();
-        });
+        window.removeEventListener("vectis_accountChanged", listener);
       };
     };
     const getOfflineSignerOnlyAmino = (...args: Parameters<Wallet["getOfflineSignerOnlyAmino"]>) => {
@@ -228,6 +439,12 @@ export const getVectis = (): Wallet => {
       return vectis.signAmino(signer, signDoc);
     };
 
+    const signArbitrary = async (...args: SignArbitraryParams): Promise<StdSignature> => {
+      const [chainId, signer, data] = args;
+      const { signature } = await vectis.signArbitrary(chainId, signer, data);
+      return signature;
+    };
+
     return {
       enable: (chainId: string) => vectis.enable(chainId),
       getOfflineSigner: (chainId: string) => vectis.getOfflineSigner(chainId),
@@ -238,6 +455,8 @@ export const getVectis = (): Wallet => {
       experimentalSuggestChain,
       signDirect,
       signAmino,
+      signArbitrary,
+      verifyArbitrary: (...args: VerifyArbitraryParams) => vectis.verifyArbitrary(...args),
     };
   }
 
@@ -245,21 +464,292 @@ export const getVectis = (): Wallet => {
   throw new Error("window.vectis is not defined");
 };
 
+/**
+ * Function to return {@link Wallet} object from given {@link GrazAdapter}, signing is done using the adapter's offline
+ * signers and account changes are tracked using the adapter's `keystoreEvent`.
+ *
+ * @example
+ * ```ts
+ * import { KeplrAdapter } from "graz-adapter-keplr";
+ *
+ * const wallet = getAdapterWallet(new KeplrAdapter());
+ * ```
+ */
+export const getAdapterWallet = (adapter: GrazAdapter): Wallet => {
+  if (!adapter.checkConnector()) {
+    useGrazInternalStore.getState()._notFoundFn();
+    throw new Error(`${adapter.name} is not available`);
+  }
+
+  const subscription = (reconnect: () => void) => {
+    // keystore events are only dispatched in browsers, e.g. local wallet connects in node scripts too
+    if (typeof window === "undefined") return () => undefined;
+    const listener = () => {
+      clearSession();
+      reconnect();
+    };
+    window.addEventListener(adapter.keystoreEvent, listener);
+    return () => {
+      window.removeEventListener(adapter.keystoreEvent, listener);
+    };
+  };
+
+  const getKey = async (chainId: string): Promise<Key> => {
+    const account = await adapter.getAccount(chainId);
+    return {
+      address: account.address.length ? account.address : fromBech32(account.bech32Address).data,
+      algo: account.algo,
+      bech32Address: account.bech32Address,
+      name: "",
+      pubKey: account.pubKey,
+      isKeystone: false,
+      isNanoLedger: Boolean(account.isNanoLedger),
+    };
+  };
+
+  const experimentalSuggestChain = async (...args: Parameters<Wallet["experimentalSuggestChain"]>) => {
+    if (!adapter.experimentalSuggestChain) {
+      throw new Error(`${adapter.name} does not support experimentalSuggestChain`);
+    }
+    await adapter.experimentalSuggestChain(...args);
+  };
+
+  const signDirect = async (...args: SignDirectParams): Promise<DirectSignResponse> => {
+    const { 0: chainId, 1: signer, 2: signDoc } = args;
+    return adapter.getOfflineSigner(chainId).signDirect(signer, {
+      bodyBytes: signDoc.bodyBytes || Uint8Array.from([]),
+      authInfoBytes: signDoc.authInfoBytes || Uint8Array.from([]),
+      accountNumber: Long.fromString(signDoc.accountNumber?.toString() || "", false),
+      chainId: signDoc.chainId || "",
+    });
+  };
+
+  const signAmino = async (...args: SignAminoParams): Promise<AminoSignResponse> => {
+    const { 0: chainId, 1: signer, 2: signDoc } = args;
+    return adapter.getOfflineSignerOnlyAmino(chainId).signAmino(signer, signDoc);
+  };
+
+  const signArbitrary = async (...args: SignArbitraryParams): Promise<StdSignature> => {
+    if (!adapter.signArbitrary) {
+      throw new Error(`${adapter.name} does not support signArbitrary`);
+    }
+    return adapter.signArbitrary(...args);
+  };
+
+  return {
+    enable: (chainId: string) => adapter.enable(chainId),
+    getOfflineSigner: (chainId: string) => adapter.getOfflineSigner(chainId),
+    getOfflineSignerAuto: (chainId: string) => adapter.getOfflineSignerAuto(chainId),
+    getOfflineSignerOnlyAmino: (chainId: string) => adapter.getOfflineSignerOnlyAmino(chainId),
+    getKey,
+    subscription,
+    experimentalSuggestChain,
+    signDirect,
+    signAmino,
+    signArbitrary,
+    verifyArbitrary,
+  };
+};
+
+const getRegisteredAdapter = (id: string): GrazAdapter | undefined => {
+  return useGrazInternalStore.getState().adapters.find((adapter) => adapter.id === id);
+};
+
 type SignDirectParams = Parameters<Wallet["signDirect"]>;
 type SignAminoParams = Parameters<Wallet["signAmino"]>;
+type SignArbitraryParams = Parameters<Wallet["signArbitrary"]>;
+type VerifyArbitraryParams = Parameters<Wallet["verifyArbitrary"]>;
 
-interface WalletConnectSignDirectSigned {
-  chainId: string;
-  accountNumber: string;
-  authInfoBytes: string;
-  bodyBytes: string;
+// verify ADR-036 signature locally for wallets which sign arbitrary data through amino sign doc
+const verifyArbitrary = async (...args: VerifyArbitraryParams): Promise<boolean> => {
+  const { 1: signer, 2: data, 3: signature } = args;
+  return verifyADR36Signature({ signer, data, signature });
+};
+
+// bytes of snap and extension responses, either `Uint8Array` or its JSON serialized form keyed by index
+const fromSerializedBytes = (value: Uint8Array | Record<string, number>) => new Uint8Array(Object.values(value));
+
+interface MetamaskSnapKey {
+  address: string;
+  algo: Algo;
+  pubkey: Record<string, number>;
 }
 
-interface WalletConnectSignDirectResponse {
+interface MetamaskSnapSignDirectResponse {
   signature: StdSignature;
-  signed: WalletConnectSignDirectSigned;
+  signed: {
+    chainId: string;
+    accountNumber: string | { low: number; high: number; unsigned: boolean };
+    authInfoBytes: Record<string, number>;
+    bodyBytes: Record<string, number>;
+  };
 }
 
+// chain info schema of the snap's `suggestChain`, which derives keys from `bip44` and addresses from `bech32Config`
+interface MetamaskSnapChainInfo {
+  chainId: string;
+  chainName: string;
+  bip44: { coinType: number };
+  bech32Config: { bech32PrefixAccAddr: string };
+}
+
+export interface GetMetamaskSnapLeapParams {
+  /**
+   * snap id, defaults to `"npm:@leapwallet/metamask-cosmos-snap"`
+   */
+  id?: string;
+  /**
+   * snap version range to install
+   */
+  version?: string;
+}
+
+/**
+ * Function to return {@link Wallet} object which signs through Leap's Cosmos MetaMask Snap and throws an error if
+ * MetaMask does not exist on `window`. The snap is installed (if needed) when enabling a chain.
+ *
+ * Note: snap keys are derived from MetaMask's recovery phrase and do not change with the selected MetaMask account, so
+ * there are no account changes to track.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const snap = getMetamaskSnapLeap();
+ * } catch (error: Error) {
+ *   console.error(error.message);
+ * }
+ * ```
+ *
+ * @see https://github.com/leapwallet/cosmos-metamask-snap
+ */
+export const getMetamaskSnapLeap = (params?: GetMetamaskSnapLeapParams): Wallet => {
+  const ethereum = window.ethereum;
+  if (!ethereum?.isMetaMask) {
+    useGrazInternalStore.getState()._notFoundFn();
+    throw new Error("window.ethereum is not defined or not MetaMask");
+  }
+
+  const snapId = params?.id || METAMASK_SNAP_LEAP_ID;
+
+  const invokeSnap = <T>(method: string, snapParams: Record<string, unknown>) =>
+    ethereum.request<T>({
+      method: "wallet_invokeSnap",
+      params: { snapId, request: { method, params: snapParams } },
+    });
+
+  const enable = async (..._args: Parameters<Wallet["enable"]>) => {
+    const snaps = await ethereum.request<Record<string, unknown>>({ method: "wallet_getSnaps" });
+    if (snaps[snapId]) return;
+    await ethereum.request({
+      method: "wallet_requestSnaps",
+      params: { [snapId]: params?.version ? { version: params.version } : {} },
+    });
+  };
+
+  const getKey = async (chainId: string): Promise<Key> => {
+    const key = await invokeSnap<MetamaskSnapKey | null>("getKey", { chainId });
+    if (!key) throw new Error("Leap MetaMask Snap did not return a key");
+    return {
+      address: fromBech32(key.address).data,
+      algo: key.algo,
+      bech32Address: key.address,
+      name: "",
+      pubKey: fromSerializedBytes(key.pubkey),
+      isKeystone: false,
+      isNanoLedger: false,
+    };
+  };
+
+  const getAccount = async (chainId: string): Promise<AccountData> => {
+    const { bech32Address, algo, pubKey } = await getKey(chainId);
+    return { address: bech32Address, algo: algo as Algo, pubkey: pubKey };
+  };
+
+  const signDirect = async (...args: SignDirectParams): Promise<DirectSignResponse> => {
+    const [chainId, signer, signDoc] = args;
+    const { signature, signed } = await invokeSnap<MetamaskSnapSignDirectResponse>("signDirect", {
+      chainId,
+      signerAddress: signer,
+      signDoc: {
+        bodyBytes: signDoc.bodyBytes || Uint8Array.from([]),
+        authInfoBytes: signDoc.authInfoBytes || Uint8Array.from([]),
+        accountNumber: signDoc.accountNumber?.toString() || "",
+        chainId: signDoc.chainId || "",
+      },
+    });
+    return {
+      signed: {
+        chainId: signed.chainId,
+        accountNumber:
+          typeof signed.accountNumber === "string"
+            ? Long.fromString(signed.accountNumber, false)
+            : new Long(signed.accountNumber.low, signed.accountNumber.high, signed.accountNumber.unsigned),
+        authInfoBytes: fromSerializedBytes(signed.authInfoBytes),
+        bodyBytes: fromSerializedBytes(signed.bodyBytes),
+      },
+      signature,
+    };
+  };
+
+  const signAmino = async (...args: SignAminoParams): Promise<AminoSignResponse> => {
+    const [chainId, signer, signDoc] = args;
+    return invokeSnap<AminoSignResponse>("signAmino", { chainId, signerAddress: signer, signDoc });
+  };
+
+  // ADR-036 arbitrary signing through amino sign doc, as the snap does not expose keplr's signArbitrary
+  const signArbitrary = async (...args: SignArbitraryParams): Promise<StdSignature> => {
+    const [chainId, signer, data] = args;
+    const { signature } = await signAmino(chainId, signer, makeADR36AminoSignDoc(signer, data));
+    return signature;
+  };
+
+  const experimentalSuggestChain = async (...args: Parameters<Wallet["experimentalSuggestChain"]>) => {
+    const [chainInfo] = args;
+    const snapChainInfo: MetamaskSnapChainInfo = {
+      chainId: chainInfo.chainId,
+      chainName: chainInfo.chainName,
+      bip44: { coinType: chainInfo.bip44.coinType },
+      bech32Config: { bech32PrefixAccAddr: chainInfo.bech32Config.bech32PrefixAccAddr },
+    };
+    await invokeSnap("suggestChain", { chainInfo: snapChainInfo });
+  };
+
+  const getOfflineSignerDirect = (chainId: string) => {
+    return {
+      getAccounts: async () => [await getAccount(chainId)],
+      signDirect: (signerAddress: string, signDoc: SignDirectParams["2"]) =>
+        signDirect(chainId, signerAddress, signDoc),
+    };
+  };
+
+  const getOfflineSignerOnlyAmino = (chainId: string) => {
+    return {
+      getAccounts: async () => [await getAccount(chainId)],
+      signAmino: (signerAddress: string, signDoc: SignAminoParams["2"]) => signAmino(chainId, signerAddress, signDoc),
+    };
+  };
+
+  const getOfflineSigner = (chainId: string) => {
+    return {
+      ...getOfflineSignerDirect(chainId),
+      ...getOfflineSignerOnlyAmino(chainId),
+    };
+  };
+
+  return {
+    enable,
+    experimentalSuggestChain,
+    getKey,
+    getOfflineSigner,
+    getOfflineSignerAuto: (chainId: string) => Promise.resolve(getOfflineSignerDirect(chainId)),
+    getOfflineSignerOnlyAmino,
+    signAmino,
+    signArbitrary,
+    signDirect,
+    verifyArbitrary,
+  };
+};
+
 export interface GetWalletConnectParams {
   encoding: BufferEncoding;
   walletType: WalletType.WC_KEPLR_MOBILE | WalletType.WC_LEAP_MOBILE;
@@ -272,13 +762,63 @@ export interface GetWalletConnectParams {
   formatNativeUrl: (appUrl: string, wcUri: string, os?: "android" | "ios") => string;
 }
 
+const WALLETCONNECT_REQUIRED_METHODS = ["cosmos_getAccounts", "cosmos_signAmino", "cosmos_signDirect"];
+
+// not supported by every peer, peers rejecting a required method fail to pair
+const WALLETCONNECT_OPTIONAL_METHODS = ["cosmos_signArbitrary"];
+
+const getWalletConnectNamespace = (chainIds: string[], methods: string[]): ProposalTypes.RequiredNamespace => ({
+  methods,
+  chains: chainIds.map((chainId) => `cosmos:${chainId}`),
+  events: ["chainChanged", "accountsChanged"],
+});
+
+// approved chain ids of session namespaces, from namespace chains and accounts (`cosmos:<chainId>:<address>`)
+const getWalletConnectSessionChainIds = (namespaces: SessionTypes.Namespaces): string[] => {
+  const namespace = namespaces.cosmos;
+  if (!namespace) return [];
+  const chainIds = [...(namespace.chains || []), ...namespace.accounts].map((x) => x.split(":")[1]);
+  return [...new Set(chainIds.filter((x): x is string => Boolean(x)))];
+};
+
+/**
+ * Function to return chain ids approved by the current WalletConnect session, connecting to any of these chains
+ * reuses the session without pairing again.
+ *
+ * @example
+ * ```ts
+ * import { getWalletConnectChainIds } from "graz";
+ *
+ * const chainIds = getWalletConnectChainIds();
+ * // ["cosmoshub-4", "osmosis-1", "juno-1"]
+ * ```
+ */
+export const getWalletConnectChainIds = (): string[] => {
+  return useGrazSessionStore.getState().wcChainIds;
+};
+
+let cancelPendingPairing: (() => void) | null = null;
+
+/**
+ * Function to cancel pending WalletConnect pairing, which rejects the connecting `connect` call. Useful to close a
+ * custom pairing modal rendered with `walletConnect.onUri`.
+ *
+ * @example
+ * ```ts
+ * import { cancelWalletConnectPairing } from "graz";
+ *
+ * <QRCodeModal uri={uri} onClose={() => cancelWalletConnectPairing()} />
+ * ```
+ */
+export const cancelWalletConnectPairing = () => {
+  cancelPendingPairing?.();
+};
+
 export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
   if (!useGrazInternalStore.getState().walletConnect?.options?.projectId?.trim()) {
     throw new Error("walletConnect.options.projectId is not defined");
   }
 
-  const encoding = params?.encoding || "base64";
-
   const redirectToApp = (wcUri?: string) => {
     if (!params) return;
     const { appUrl, formatNativeUrl } = params;
@@ -311,6 +851,7 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
       _reconnectConnector: null,
       recentChain: null,
     });
+    emitGrazEvent("disconnected", undefined);
   };
 
   const wcDisconnect = async (topic?: string) => {
@@ -326,43 +867,28 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
     _disconnect();
   };
 
+  const isSessionActive = (session: SessionTypes.Struct) => session.expiry * 1000 > Date.now() + 1000;
+
+  // most recent active session approving given chain, a single session may cover multiple chains
   const getSession = (chainId: string) => {
     try {
       const { wcSignClient } = useGrazSessionStore.getState();
       if (!wcSignClient) throw new Error("walletConnect.signClient is not defined");
 
-      const lastSession = wcSignClient.session.getAll().at(-1);
+      const sessions = wcSignClient.session.getAll();
+      const lastSession = sessions.at(-1);
       if (!lastSession) return;
-      const isSameChain = wcSignClient.session
-        .getAll()
-        .at(-1)
-        ?.namespaces.cosmos?.accounts.find((i) => i.startsWith(`cosmos:${chainId}`));
-      const isNotExpired = lastSession.expiry * 1000 > Date.now() + 1000;
-      if (!isNotExpired) {
+      if (!isSessionActive(lastSession)) {
         void wcDisconnect(lastSession.topic);
         throw new Error("invalid session");
       }
-      if (!isSameChain) {
-        try {
-          const chainSession = wcSignClient.find({
-            requiredNamespaces: {
-              cosmos: {
-                methods: ["cosmos_getAccounts", "cosmos_signAmino", "cosmos_signDirect"],
-                chains: [`cosmos:${chainId}`],
-                events: ["chainChanged", "accountsChanged"],
-              },
-            },
-          });
-          if (!chainSession.length) {
-            throw new Error("no session");
-          }
-          return chainSession.at(-1);
-        } catch (error) {
-          if (!(error as Error).message.toLowerCase().includes("no matching key")) throw error;
-        }
-      }
 
-      return lastSession;
+      return [...sessions]
+        .reverse()
+        .find(
+          (session) =>
+            isSessionActive(session) && getWalletConnectSessionChainIds(session.namespaces).includes(chainId),
+        );
     } catch (error) {
       if (!(error as Error).message.toLowerCase().includes("no matching key")) throw error;
     }
@@ -394,7 +920,11 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
     }
   };
 
-  const init = async () => {
+  // chains requested by `connect`, which are required namespaces of the next pairing
+  let requestedChainIds: string[] = [];
+
+  const init = async (chains?: GrazChain[]) => {
+    requestedChainIds = chains?.map((x) => x.chainId) || [];
     const { walletConnect } = useGrazInternalStore.getState();
     if (!walletConnect?.options) throw new Error("walletConnect.options is not defined");
     const { wcSignClient } = useGrazSessionStore.getState();
@@ -402,22 +932,22 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
       useGrazSessionStore.setState({ wcSignClient });
       return wcSignClient;
     }
-    const signClient = await SignClient.init(walletConnect.options);
+    const { _signClientFactory } = useGrazInternalStore.getState();
+    const signClient = await (_signClientFactory
+      ? _signClientFactory(walletConnect.options)
+      : SignClient.init(walletConnect.options));
     useGrazSessionStore.setState({ wcSignClient: signClient });
     return signClient;
   };
 
-  const subscription: (reconnect: () => void) => void = (reconnect) => {
+  const subscription = (reconnect: () => void) => {
     const { wcSignClient } = useGrazSessionStore.getState();
-    if (!wcSignClient) return;
+    if (!wcSignClient) return () => undefined;
 
-    wcSignClient.events.on("session_delete", (_) => {
-      _disconnect();
-    });
-    wcSignClient.events.on("session_expire", (_) => {
+    const onSessionEnd = () => {
       _disconnect();
-    });
-    wcSignClient.events.on("session_event", (args) => {
+    };
+    const onSessionEvent = (args: SignClientTypes.EventArguments["session_event"]) => {
       if (
         args.params.event.name === "accountsChanged" &&
         // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
@@ -428,37 +958,40 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
       } else {
         reconnect();
       }
-    });
+    };
+    const onSessionUpdate = (args: SignClientTypes.EventArguments["session_update"]) => {
+      useGrazSessionStore.setState({ wcChainIds: getWalletConnectSessionChainIds(args.params.namespaces) });
+    };
+    wcSignClient.events.on("session_delete", onSessionEnd);
+    wcSignClient.events.on("session_expire", onSessionEnd);
+    wcSignClient.events.on("session_event", onSessionEvent);
+    wcSignClient.events.on("session_update", onSessionUpdate);
 
     return () => {
-      wcSignClient.events.off("session_delete", (_) => {
-        _disconnect();
-      });
-      wcSignClient.events.off("session_expire", (_) => {
-        _disconnect();
-      });
-      wcSignClient.events.off("session_event", (args) => {
-        if (
-          args.params.event.name === "accountsChanged" &&
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-          args.params.event.data?.[0] !== useGrazSessionStore.getState().account?.bech32Address
-        ) {
-          const chainId = args.params.chainId.split(":")[1];
-          chainId && void enable(chainId);
-        } else {
-          reconnect();
-        }
-      });
+      wcSignClient.events.off("session_delete", onSessionEnd);
+      wcSignClient.events.off("session_expire", onSessionEnd);
+      wcSignClient.events.off("session_event", onSessionEvent);
+      wcSignClient.events.off("session_update", onSessionUpdate);
     };
   };
 
-  const enable = async (chainId: string) => {
-    const { wcSignClient: signClient } = useGrazSessionStore.getState();
-    if (!signClient) throw new Error("enable walletConnect.signClient is not defined");
+  // show pairing uri on custom ui, mobile app or lazily loaded web3modal, returns function to close the modal
+  const openModal = async (uri: string) => {
     const { walletConnect } = useGrazInternalStore.getState();
     if (!walletConnect?.options?.projectId) throw new Error("walletConnect.options.projectId is not defined");
+    if (walletConnect.onUri) {
+      walletConnect.onUri(uri);
+      return () => undefined;
+    }
+    if (params) {
+      redirectToApp(uri);
+      return () => undefined;
+    }
 
-    const { Web3Modal } = await import("@web3modal/standalone");
+    // optional peer dependency, only needed without `onUri`
+    const { Web3Modal } = await import("@web3modal/standalone").catch(() => {
+      throw new Error("@web3modal/standalone is not installed, install it or set walletConnect.onUri");
+    });
 
     const web3Modal = new Web3Modal({
       projectId: walletConnect.options.projectId,
@@ -482,41 +1015,56 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
       // ],
     });
 
-    const { account, activeChain } = useGrazSessionStore.getState();
+    await web3Modal.openModal({ uri });
+    return () => web3Modal.closeModal();
+  };
+
+  const enable = async (chainId: string) => {
+    const { wcSignClient: signClient } = useGrazSessionStore.getState();
+    if (!signClient) throw new Error("enable walletConnect.signClient is not defined");
+    const { walletConnect } = useGrazInternalStore.getState();
+    if (!walletConnect?.options?.projectId) throw new Error("walletConnect.options.projectId is not defined");
+
     const lastSession = checkSession(chainId);
-    if ((activeChain?.chainId !== chainId && !lastSession) || !account) {
+    if (!lastSession) {
+      const requiredChainIds = [...new Set([chainId, ...requestedChainIds])];
+      const optionalChainIds = (walletConnect.chains || [])
+        .map((x) => x.chainId)
+        .filter((x) => !requiredChainIds.includes(x));
       const { uri, approval } = await signClient.connect({
         requiredNamespaces: {
-          cosmos: {
-            methods: ["cosmos_getAccounts", "cosmos_signAmino", "cosmos_signDirect"],
-            chains: [`cosmos:${chainId}`],
-            events: ["chainChanged", "accountsChanged"],
-          },
+          cosmos: getWalletConnectNamespace(requiredChainIds, WALLETCONNECT_REQUIRED_METHODS),
+        },
+        optionalNamespaces: {
+          cosmos: getWalletConnectNamespace(
+            [...requiredChainIds, ...optionalChainIds],
+            [...WALLETCONNECT_REQUIRED_METHODS, ...WALLETCONNECT_OPTIONAL_METHODS],
+          ),
         },
       });
       if (!uri) throw new Error("No wallet connect uri");
-      if (!params) {
-        await web3Modal.openModal({ uri });
-      } else {
-        redirectToApp(uri);
-      }
+      const closeModal = await openModal(uri);
+      const cancelled = new Promise<never>((_, reject) => {
+        cancelPendingPairing = () => reject(new Error("Pairing cancelled"));
+      });
       try {
-        await promiseWithTimeout(
-          (async () => {
-            await approval();
-          })(),
-          40000,
+        const session = await promiseWithTimeout(
+          Promise.race([approval(), cancelled]),
+          walletConnect.approvalTimeout ?? 40000,
           new Error("Modal approval timeout"),
         );
+        useGrazSessionStore.setState({ wcChainIds: getWalletConnectSessionChainIds(session.namespaces) });
       } catch (error) {
-        web3Modal.closeModal();
+        void signClient.core.pairing.disconnect({ topic: parseUri(uri).topic }).catch(() => undefined);
         if (!(error as Error).message.toLowerCase().includes("no matching key")) return Promise.reject(error);
-      }
-      if (!params) {
-        web3Modal.closeModal();
+      } finally {
+        cancelPendingPairing = null;
+        closeModal();
+        walletConnect.onApprovalComplete?.();
       }
       return Promise.resolve();
     }
+    useGrazSessionStore.setState({ wcChainIds: getWalletConnectSessionChainIds(lastSession.namespaces) });
     try {
       await promiseWithTimeout(
         (async () => {
@@ -525,22 +1073,30 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
             account: wcAccount,
           });
         })(),
-        10000,
+        walletConnect.requestTimeout ?? 10000,
         new Error("Connection timeout"),
       );
     } catch (error) {
-      void wcDisconnect(lastSession?.topic);
+      void wcDisconnect(lastSession.topic);
       if (!(error as Error).message.toLowerCase().includes("no matching key")) throw error;
     }
   };
 
-  const getAccount = async (chainId: string): Promise<AccountData> => {
+  // session and bytes encoding of requests to the peer approving given chain
+  const getRequestSession = (chainId: string) => {
     const { wcSignClient } = useGrazSessionStore.getState();
     if (!wcSignClient) throw new Error("walletConnect.signClient is not defined");
-    const topic = getSession(chainId)?.topic;
-    if (!topic) throw new Error("No wallet connect session");
+    const session = getSession(chainId);
+    if (!session) throw new Error("No wallet connect session");
+    const encoding = params?.encoding || getWalletConnectPeerEncoding(session.peer.metadata.name);
+    const methods = session.namespaces.cosmos?.methods || [];
+    return { encoding, methods, signClient: wcSignClient, topic: session.topic };
+  };
+
+  const getAccount = async (chainId: string): Promise<AccountData> => {
+    const { encoding, signClient, topic } = getRequestSession(chainId);
     redirectToApp();
-    const result: { address: string; algo: string; pubkey: string }[] = await wcSignClient.request({
+    const result: WalletConnectAccount[] = await signClient.request({
       topic,
       chainId: `cosmos:${chainId}`,
       request: {
@@ -550,11 +1106,7 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
     });
 
     if (!result[0]) throw new Error("No wallet connect account");
-    return {
-      address: result[0].address,
-      algo: result[0].algo as Algo,
-      pubkey: new Uint8Array(Buffer.from(result[0].pubkey, encoding)),
-    };
+    return normalizeWalletConnectAccount(result[0], encoding);
   };
 
   const getKey = async (chainId: string): Promise<Key> => {
@@ -570,18 +1122,15 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
     };
   };
 
-  const wcSignDirect = async (...args: SignDirectParams) => {
+  const signDirect = async (...args: SignDirectParams): Promise<DirectSignResponse> => {
     const [chainId, signer, signDoc] = args;
-    const { account, wcSignClient } = useGrazSessionStore.getState();
-    if (!wcSignClient) throw new Error("walletConnect.signClient is not defined");
-    if (!account) throw new Error("account is not defined");
-
-    const topic = getSession(chainId)?.topic;
-    if (!topic) throw new Error("No wallet connect session");
+    if (!useGrazSessionStore.getState().account) throw new Error("account is not defined");
+    const { encoding, signClient, topic } = getRequestSession(chainId);
 
     if (!signDoc.bodyBytes) throw new Error("No bodyBytes");
     if (!signDoc.authInfoBytes) throw new Error("No authInfoBytes");
-    const req = {
+    redirectToApp();
+    const result: WalletConnectSignDirectResponse = await signClient.request({
       topic,
       chainId: `cosmos:${chainId}`,
       request: {
@@ -590,61 +1139,59 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
           signerAddress: signer,
           signDoc: {
             ...signDoc,
-            bodyBytes: Buffer.from(signDoc.bodyBytes).toString(encoding),
-            authInfoBytes: Buffer.from(signDoc.authInfoBytes).toString(encoding),
+            bodyBytes: encodeWalletConnectBytes(signDoc.bodyBytes, encoding),
+            authInfoBytes: encodeWalletConnectBytes(signDoc.authInfoBytes, encoding),
             accountNumber: signDoc.accountNumber?.toString(),
           },
         },
       },
-    };
-    redirectToApp();
-    const result: WalletConnectSignDirectResponse = await wcSignClient.request(req);
-    return result;
-  };
-
-  const signDirect = async (...args: SignDirectParams): Promise<DirectSignResponse> => {
-    const [chainId, signer, signDoc] = args;
-    const { signature, signed } = await wcSignDirect(chainId, signer, signDoc);
-    return {
-      signed: {
-        chainId: signed.chainId,
-        accountNumber: Long.fromString(signed.accountNumber, false),
-        authInfoBytes: new Uint8Array(Buffer.from(signed.authInfoBytes, encoding)),
-        bodyBytes: new Uint8Array(Buffer.from(signed.bodyBytes, encoding)),
-      },
-      signature,
-    };
+    });
+    return normalizeWalletConnectSignDirectResponse(result, signDoc as SignDoc, encoding);
   };
 
-  const wcSignAmino = async (...args: SignAminoParams) => {
+  const signAmino = async (...args: SignAminoParams): Promise<AminoSignResponse> => {
     const [chainId, signer, signDoc, _signOptions] = args;
-    const { wcSignClient } = useGrazSessionStore.getState();
-    const { account } = useGrazSessionStore.getState();
-    if (!wcSignClient) throw new Error("walletConnect.signClient is not defined");
-    if (!account) throw new Error("account is not defined");
-
-    const topic = getSession(chainId)?.topic;
-    if (!topic) throw new Error("No wallet connect session");
+    if (!useGrazSessionStore.getState().account) throw new Error("account is not defined");
+    const { encoding, signClient, topic } = getRequestSession(chainId);
 
     redirectToApp();
-    const result: AminoSignResponse = await wcSignClient.request({
+    const result: WalletConnectSignAminoResponse = await signClient.request({
       topic,
       chainId: `cosmos:${chainId}`,
       request: {
-        method: "cosmos_signDirect",
+        method: "cosmos_signAmino",
         params: {
           signerAddress: signer,
           signDoc,
         },
       },
     });
-    return result;
+    return normalizeWalletConnectSignAminoResponse(result, signDoc, encoding);
   };
 
-  const signAmino = async (...args: SignAminoParams) => {
-    const [chainId, signer, signDoc, _signOptions] = args;
-    const result = await wcSignAmino(chainId, signer, signDoc);
-    return result;
+  const signArbitrary = async (...args: SignArbitraryParams): Promise<StdSignature> => {
+    const [chainId, signer, data] = args;
+    // peers sign the ADR-036 sign doc of given text, bytes can not be told apart from it
+    if (typeof data !== "string") throw new Error("WalletConnect only supports signing arbitrary text");
+    if (!useGrazSessionStore.getState().account) throw new Error("account is not defined");
+    const { encoding, methods, signClient, topic } = getRequestSession(chainId);
+    if (!methods.includes("cosmos_signArbitrary")) {
+      throw new Error("WalletConnect session did not approve cosmos_signArbitrary, the wallet does not support it");
+    }
+
+    redirectToApp();
+    const result: WalletConnectSignArbitraryResponse = await signClient.request({
+      topic,
+      chainId: `cosmos:${chainId}`,
+      request: {
+        method: "cosmos_signArbitrary",
+        params: {
+          signerAddress: signer,
+          data,
+        },
+      },
+    });
+    return normalizeWalletConnectSignArbitraryResponse(result, encoding);
   };
 
   const getOfflineSignerDirect = (chainId: string) => {
@@ -689,8 +1236,10 @@ export const getWalletConnect = (params?: GetWalletConnectParams): Wallet => {
     getOfflineSignerAuto,
     getOfflineSignerOnlyAmino,
     signAmino,
+    signArbitrary,
     signDirect,
     subscription,
+    verifyArbitrary,
     init,
   };
 };
@@ -786,9 +1335,272 @@ export const getWCCosmostation = (): Wallet => {
   return getWalletConnect(params);
 };
 
+type LocalSigners = readonly [DirectSecp256k1HdWallet | DirectSecp256k1Wallet, Secp256k1HdWallet | Secp256k1Wallet];
+
+const localSigners = new WeakMap<LocalWalletOptions, Map<string, Promise<LocalSigners>>>();
+
+// bech32 prefixes and coin types of chains given to `connect` or suggested, for wallets which derive addresses
+// themselves
+const chainPrefixes = new Map<string, string>();
+const chainCoinTypes = new Map<string, number>();
+
+const initKnownChains = (chains: GrazChain[] = []) => {
+  chains.forEach((chain) => {
+    if (chain.bech32Config) chainPrefixes.set(chain.chainId, chain.bech32Config.bech32PrefixAccAddr);
+    if (chain.bip44) chainCoinTypes.set(chain.chainId, chain.bip44.coinType);
+  });
+  return Promise.resolve();
+};
+
+const suggestKnownChain = (chainInfo: ChainInfo) => {
+  chainPrefixes.set(chainInfo.chainId, chainInfo.bech32Config.bech32PrefixAccAddr);
+  chainCoinTypes.set(chainInfo.chainId, chainInfo.bip44.coinType);
+  return Promise.resolve();
+};
+
+const getKnownChain = (chainId: string) => {
+  const { defaultChain, recentChains } = useGrazInternalStore.getState();
+  const { sessions } = useGrazSessionStore.getState();
+  const knownChains = [
+    defaultChain,
+    ...(recentChains || []),
+    ...Object.values(sessions).map((x) => x.chain),
+    ...mainnetChainsArray,
+    ...testnetChainsArray,
+  ];
+  return knownChains.find((x) => x?.chainId === chainId);
+};
+
+const getChainPrefix = (chainId: string, prefix: string | Record<string, string> | undefined, optionName: string) => {
+  if (typeof prefix === "string") return prefix;
+  const result =
+    prefix?.[chainId] || chainPrefixes.get(chainId) || getKnownChain(chainId)?.bech32Config?.bech32PrefixAccAddr;
+  if (!result) {
+    throw new Error(`Unknown bech32 prefix of ${chainId}, set ${optionName}.prefix`);
+  }
+  return result;
+};
+
+const getChainCoinType = (chainId: string) => {
+  return chainCoinTypes.get(chainId) ?? getKnownChain(chainId)?.bip44?.coinType ?? DEFAULT_COIN_TYPE;
+};
+
+const getLocalSigners = (options: LocalWalletOptions, prefix: string): Promise<LocalSigners> => {
+  const cache = localSigners.get(options) || new Map<string, Promise<LocalSigners>>();
+  localSigners.set(options, cache);
+  let signers = cache.get(prefix);
+  if (!signers) {
+    const hdPaths = [options.hdPath ? stringToPath(options.hdPath) : makeCosmoshubPath(0)];
+    const privateKey = typeof options.privateKey === "string" ? fromHex(options.privateKey) : options.privateKey;
+    const mnemonicOptions = { bip39Password: options.bip39Password, hdPaths, prefix };
+    signers = Promise.all(
+      privateKey
+        ? ([DirectSecp256k1Wallet.fromKey(privateKey, prefix), Secp256k1Wallet.fromKey(privateKey, prefix)] as const)
+        : ([
+            DirectSecp256k1HdWallet.fromMnemonic(options.mnemonic || "", mnemonicOptions),
+            Secp256k1HdWallet.fromMnemonic(options.mnemonic || "", mnemonicOptions),
+          ] as const),
+    );
+    cache.set(prefix, signers);
+  }
+  return signers;
+};
+
+/**
+ * Function to return {@link Wallet} object backed by cosmjs wallets of configured mnemonic or private key (see
+ * `localWallet` on `configureGraz`) and throws an error if neither is configured.
+ *
+ * **Note: keys are held in memory, only use for tests, scripts and local devnets.**
+ *
+ * @example
+ * ```ts
+ * configureGraz({ localWallet: { mnemonic: process.env.TEST_MNEMONIC } });
+ * await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.LOCAL });
+ * ```
+ */
+export const getLocal = (): Wallet => {
+  const options = useGrazInternalStore.getState().localWallet;
+  if (!options?.mnemonic && !options?.privateKey) {
+    throw new Error("localWallet.mnemonic or localWallet.privateKey is not defined");
+  }
+
+  const getSigners = (chainId: string) =>
+    getLocalSigners(options, getChainPrefix(chainId, options.prefix, "localWallet"));
+
+  const getAccounts = async (chainId: string) => {
+    const [, amino] = await getSigners(chainId);
+    return amino.getAccounts();
+  };
+
+  const signAmino = async (chainId: string, signerAddress: string, signDoc: StdSignDoc) => {
+    const [, amino] = await getSigners(chainId);
+    return amino.signAmino(signerAddress, signDoc);
+  };
+
+  const getOfflineSignerOnlyAmino = (chainId: string) =>
+    ({
+      getAccounts: () => getAccounts(chainId),
+      signAmino: (signerAddress: string, signDoc: StdSignDoc) => signAmino(chainId, signerAddress, signDoc),
+    } as OfflineSigner);
+
+  const getOfflineSigner = (chainId: string) =>
+    ({
+      getAccounts: () => getAccounts(chainId),
+      signAmino: (signerAddress: string, signDoc: StdSignDoc) => signAmino(chainId, signerAddress, signDoc),
+      signDirect: async (signerAddress: string, signDoc: SignDoc) => {
+        const [direct] = await getSigners(chainId);
+        return direct.signDirect(signerAddress, signDoc);
+      },
+    } as OfflineSigner & OfflineDirectSigner);
+
+  const adapter: GrazAdapter = {
+    id: WalletType.LOCAL,
+    name: "Local wallet",
+    keystoreEvent: "graz_local_keystorechange",
+    checkConnector: () => true,
+    enable: async (chainId) => {
+      await getSigners(chainId);
+    },
+    getAccount: async (chainId) => {
+      const [account] = await getAccounts(chainId);
+      if (!account) throw new Error("Local wallet has no accounts");
+      return {
+        address: rawSecp256k1PubkeyToRawAddress(account.pubkey),
+        bech32Address: account.address,
+        pubKey: account.pubkey,
+        algo: account.algo,
+      };
+    },
+    getOfflineSigner,
+    getOfflineSignerOnlyAmino,
+    getOfflineSignerAuto: (chainId) => Promise.resolve(getOfflineSigner(chainId)),
+    experimentalSuggestChain: suggestKnownChain,
+  };
+
+  // chains given to `connect` are not stored yet when the wallet is enabled
+  return { ...getAdapterWallet(adapter), init: initKnownChains };
+};
+
+let ledgerTransport: { options: LedgerOptions; transport: Promise<LedgerTransport> } | null = null;
+const ledgerSigners = new WeakMap<LedgerOptions, Map<string, LedgerSigner>>();
+
+// browser transport when `ledger.transport` is not configured
+const openWebHidTransport = async (): Promise<LedgerTransport> => {
+  // optional peer dependency, only needed without `ledger.transport`
+  const { default: TransportWebHID } = await import("@ledgerhq/hw-transport-webhid").catch(() => {
+    throw new Error("@ledgerhq/hw-transport-webhid is not installed, install it or set ledger.transport");
+  });
+  return TransportWebHID.create();
+};
+
+const isWebHidSupported = () => typeof navigator !== "undefined" && "hid" in navigator;
+
+const getLedgerTransport = (options: LedgerOptions) => {
+  if (ledgerTransport?.options !== options) {
+    const transport = options.transport ? options.transport() : openWebHidTransport();
+    // reopen transport on next request if the device could not be opened
+    transport.catch(() => {
+      if (ledgerTransport?.transport === transport) ledgerTransport = null;
+    });
+    ledgerTransport = { options, transport };
+  }
+  return ledgerTransport.transport;
+};
+
+const getLedgerSigner = async (options: LedgerOptions, prefix: string, coinType: number) => {
+  const transport = await getLedgerTransport(options);
+  const cache = ledgerSigners.get(options) || new Map<string, LedgerSigner>();
+  ledgerSigners.set(options, cache);
+  const key = `${coinType}/${prefix}`;
+  let signer = cache.get(key);
+  if (!signer) {
+    signer = new LedgerSigner(transport, {
+      hdPaths: [stringToPath(`m/44'/${coinType}'/0'/0/${options.accountIndex || 0}`)],
+      prefix,
+      testModeAllowed: options.testModeAllowed,
+    });
+    cache.set(key, signer);
+  }
+  return signer;
+};
+
+const defaultLedgerOptions: LedgerOptions = {};
+
+/**
+ * Function to return {@link Wallet} object which signs with a Ledger device running the Cosmos app, using the
+ * transport configured with `ledger` on `configureGraz`. Without a configured transport it falls back to WebHID and
+ * throws an error if the browser does not support it.
+ *
+ * Ledger devices only sign amino (`SIGN_MODE_LEGACY_AMINO_JSON`) transactions, so messages without amino converters
+ * can not be signed. Accounts are derived with the coin type of the chain's `bip44`.
+ *
+ * @example
+ * ```ts
+ * import TransportWebHID from "@ledgerhq/hw-transport-webhid";
+ *
+ * configureGraz({ ledger: { transport: () => TransportWebHID.create(), accountIndex: 1 } });
+ * await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.LEDGER });
+ * ```
+ *
+ * @see https://github.com/cosmos/ledger-cosmos
+ */
+export const getLedger = (): Wallet => {
+  const options = useGrazInternalStore.getState().ledger || defaultLedgerOptions;
+
+  const getSigner = (chainId: string) =>
+    getLedgerSigner(options, getChainPrefix(chainId, options.prefix, "ledger"), getChainCoinType(chainId));
+
+  const getAccounts = async (chainId: string) => (await getSigner(chainId)).getAccounts();
+
+  const signAmino = async (chainId: string, signerAddress: string, signDoc: StdSignDoc) =>
+    (await getSigner(chainId)).signAmino(signerAddress, signDoc);
+
+  const getOfflineSignerOnlyAmino = (chainId: string) =>
+    ({
+      getAccounts: () => getAccounts(chainId),
+      signAmino: (signerAddress: string, signDoc: StdSignDoc) => signAmino(chainId, signerAddress, signDoc),
+    } as OfflineSigner);
+
+  const getOfflineSigner = (chainId: string) =>
+    ({
+      ...getOfflineSignerOnlyAmino(chainId),
+      signDirect: () => Promise.reject(new Error("Ledger does not support direct signing, use amino signing instead")),
+    } as OfflineSigner & OfflineDirectSigner);
+
+  const adapter: GrazAdapter = {
+    id: WalletType.LEDGER,
+    name: "Ledger",
+    keystoreEvent: "graz_ledger_keystorechange",
+    // configured transports work anywhere, e.g. mock transports in tests
+    checkConnector: () => Boolean(options.transport) || isWebHidSupported(),
+    enable: async (chainId) => {
+      await getAccounts(chainId);
+    },
+    getAccount: async (chainId) => {
+      const [account] = await getAccounts(chainId);
+      if (!account) throw new Error("Ledger has no accounts");
+      return {
+        address: rawSecp256k1PubkeyToRawAddress(account.pubkey),
+        bech32Address: account.address,
+        pubKey: account.pubkey,
+        algo: account.algo,
+        isNanoLedger: true,
+      };
+    },
+    getOfflineSigner,
+    getOfflineSignerOnlyAmino,
+    getOfflineSignerAuto: (chainId) => Promise.resolve(getOfflineSignerOnlyAmino(chainId)),
+    experimentalSuggestChain: suggestKnownChain,
+  };
+
+  return { ...getAdapterWallet(adapter), init: initKnownChains };
+};
+
 /**
- * Function to return wallet object based on given {@link WalletType} or from store and throws an error if it does not
- * exist on `window` or unknown wallet type.
+ * Function to return wallet object based on given {@link WalletType}, registered adapter id or from store and throws
+ * an error if it does not exist on `window` or unknown wallet type.
+ *
+ * Registered adapters (see `adapters` on `configureGraz`) take precedence over built-in wallets with the same id.
  *
  * @example
  * ```ts
@@ -797,8 +1609,12 @@ export const getWCCosmostation = (): Wallet => {
  * ```
  *
  * @see {@link getKeplr}
+ * @see {@link getAdapterWallet}
  */
-export const getWallet = (type: WalletType = useGrazInternalStore.getState().walletType): Wallet => {
+export const getWallet = (type: WalletId = useGrazInternalStore.getState().walletType): Wallet => {
+  const adapter = getRegisteredAdapter(type);
+  if (adapter) return getAdapterWallet(adapter);
+
   switch (type) {
     case WalletType.KEPLR: {
       return getKeplr();
@@ -824,12 +1640,23 @@ export const getWallet = (type: WalletType = useGrazInternalStore.getState().wal
     case WalletType.WC_COSMOSTATION_MOBILE: {
       return getWCCosmostation();
     }
+    case WalletType.LOCAL: {
+      return getLocal();
+    }
+    case WalletType.LEDGER: {
+      return getLedger();
+    }
+    case WalletType.METAMASK_SNAP_LEAP: {
+      return getMetamaskSnapLeap();
+    }
     default: {
       throw new Error("Unknown wallet type");
     }
   }
 };
 
-export const getAvailableWallets = (): Record<WalletType, boolean> => {
-  return Object.fromEntries(WALLET_TYPES.map((type) => [type, checkWallet(type)])) as Record<WalletType, boolean>;
+export const getAvailableWallets = (): Record<WalletId, boolean> => {
+  const adapterIds = useGrazInternalStore.getState().adapters.map((adapter) => adapter.id);
+  const types = [...new Set<WalletId>([...WALLET_TYPES, ...adapterIds])];
+  return Object.fromEntries(types.map((type) => [type, checkWallet(type)])) as Record<WalletId, boolean>;
 };
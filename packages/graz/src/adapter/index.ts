@@ -1,11 +1,14 @@
+import type { StdSignature } from "@cosmjs/amino";
 import type { OfflineSigner } from "@cosmjs/launchpad";
 import type { OfflineDirectSigner } from "@cosmjs/proto-signing";
+import type { ChainInfo } from "@keplr-wallet/types";
 
 export interface AccountData {
   address: Uint8Array;
   bech32Address: string;
   pubKey: Uint8Array;
   algo: string;
+  isNanoLedger?: boolean;
 }
 
 export interface Connector {
@@ -18,6 +21,19 @@ export interface Connector {
 
 export interface GrazAdapter extends Connector {
   name: string;
+  /**
+   * Unique identifier used as `walletType` when connecting, registering an adapter with a built-in
+   * `WalletType` value will override the built-in wallet
+   */
   id: string;
+  /**
+   * `window` event name dispatched when the wallet account changes
+   */
   keystoreEvent: string;
+  enable: (chainId: string) => Promise<void>;
+  experimentalSuggestChain?: (chainInfo: ChainInfo) => Promise<void>;
+  /**
+   * ADR-036 arbitrary signing with the wallet's native `signArbitrary`
+   */
+  signArbitrary?: (chainId: string, signer: string, data: string | Uint8Array) => Promise<StdSignature>;
 }
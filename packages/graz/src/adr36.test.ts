@@ -0,0 +1,51 @@
+import type { StdSignature } from "@cosmjs/amino";
+import { Secp256k1Wallet } from "@cosmjs/amino";
+import { sha256 } from "@cosmjs/crypto";
+import { toUtf8 } from "@cosmjs/encoding";
+import { describe, expect, it } from "vitest";
+
+import { makeADR36AminoSignDoc, verifyADR36Signature } from "./adr36";
+import { MOCK_PRIVATE_KEY } from "./testing/wallet";
+
+const DATA = "Sign in to example.com";
+
+const sign = async (data: string | Uint8Array, privateKey = MOCK_PRIVATE_KEY) => {
+  const wallet = await Secp256k1Wallet.fromKey(privateKey);
+  const [account] = await wallet.getAccounts();
+  const signer = account?.address ?? "";
+  const { signature } = await wallet.signAmino(signer, makeADR36AminoSignDoc(signer, data));
+  return { signer, signature };
+};
+
+describe("verifyADR36Signature", () => {
+  it("accepts signatures of the signer", async () => {
+    const { signer, signature } = await sign(DATA);
+
+    expect(await verifyADR36Signature({ signer, data: DATA, signature })).toBe(true);
+    expect(await verifyADR36Signature({ signer, data: toUtf8(DATA), signature })).toBe(true);
+  });
+
+  it("rejects tampered data", async () => {
+    const { signer, signature } = await sign(DATA);
+
+    expect(await verifyADR36Signature({ signer, data: "Sign in to evil.com", signature })).toBe(false);
+  });
+
+  it("rejects signatures of another account", async () => {
+    const { signer } = await sign(DATA);
+    const { signer: otherSigner, signature } = await sign(DATA, sha256(toUtf8("other")));
+
+    expect(await verifyADR36Signature({ signer, data: DATA, signature })).toBe(false);
+    expect(await verifyADR36Signature({ signer: otherSigner, data: DATA, signature })).toBe(true);
+  });
+
+  it("rejects malformed signers and signatures", async () => {
+    const { signer, signature } = await sign(DATA);
+    const truncated: StdSignature = { ...signature, signature: signature.signature.slice(0, 20) };
+    const unknownPubkey: StdSignature = { ...signature, pub_key: { type: "tendermint/PubKeyEd25519", value: "" } };
+
+    expect(await verifyADR36Signature({ signer: "cosmos1invalid", data: DATA, signature })).toBe(false);
+    expect(await verifyADR36Signature({ signer, data: DATA, signature: truncated })).toBe(false);
+    expect(await verifyADR36Signature({ signer, data: DATA, signature: unknownPubkey })).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import type { StdSignature, StdSignDoc } from "@cosmjs/amino";
+import { decodeSignature, rawSecp256k1PubkeyToRawAddress, serializeSignDoc } from "@cosmjs/amino";
+import { Secp256k1, Secp256k1Signature, sha256 } from "@cosmjs/crypto";
+import { fromBech32, toBase64, toBech32, toUtf8 } from "@cosmjs/encoding";
+
+/**
+ * Function to create ADR-036 amino sign doc of given arbitrary data, which can be signed with any amino signer.
+ *
+ * @example
+ * ```ts
+ * import { makeADR36AminoSignDoc } from "graz";
+ *
+ * const signDoc = makeADR36AminoSignDoc("cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430", "Sign in to example.com");
+ * const { signature } = await offlineSignerAmino.signAmino(signer, signDoc);
+ * ```
+ *
+ * @see https://github.com/cosmos/cosmos-sdk/blob/main/docs/architecture/adr-036-arbitrary-signature.md
+ */
+export const makeADR36AminoSignDoc = (signer: string, data: string | Uint8Array): StdSignDoc => ({
+  chain_id: "",
+  account_number: "0",
+  sequence: "0",
+  fee: { gas: "0", amount: [] },
+  msgs: [
+    {
+      type: "sign/MsgSignData",
+      value: {
+        signer,
+        data: toBase64(typeof data === "string" ? toUtf8(data) : data),
+      },
+    },
+  ],
+  memo: "",
+});
+
+export interface VerifyADR36SignatureArgs {
+  signer: string;
+  data: string | Uint8Array;
+  signature: StdSignature;
+}
+
+/**
+ * Function to verify ADR-036 arbitrary signature without a wallet, which makes it usable on the server (e.g. to
+ * implement "sign in with Cosmos"). It checks that the signature's public key belongs to `signer` and that the
+ * signature is valid for given data. Malformed signer addresses or signatures are reported as invalid.
+ *
+ * Note: only `secp256k1` public keys are supported.
+ *
+ * @example
+ * ```ts
+ * import { verifyADR36Signature } from "graz";
+ *
+ * const isValid = await verifyADR36Signature({ signer, data: "Sign in to example.com", signature });
+ * ```
+ */
+export const verifyADR36Signature = async ({ signer, data, signature }: VerifyADR36SignatureArgs): Promise<boolean> => {
+  try {
+    const { pubkey, signature: signatureBytes } = decodeSignature(signature);
+    const { prefix } = fromBech32(signer);
+    if (toBech32(prefix, rawSecp256k1PubkeyToRawAddress(pubkey)) !== signer) {
+      return false;
+    }
+
+    const messageHash = sha256(serializeSignDoc(makeADR36AminoSignDoc(signer, data)));
+    return await Secp256k1.verifySignature(Secp256k1Signature.fromFixedLength(signatureBytes), messageHash, pubkey);
+  } catch (error) {
+    // malformed signer address, public key or signature
+    return false;
+  }
+};
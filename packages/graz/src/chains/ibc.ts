@@ -0,0 +1,75 @@
+/**
+ * IBC transfer channel between two chains, `portId` defaults to `"transfer"`
+ */
+export interface GrazIbcChannel {
+  chain1: { chainId: string; channelId: string; portId?: string };
+  chain2: { chainId: string; channelId: string; portId?: string };
+}
+
+/**
+ * Helper function to define IBC transfer channels, e.g. to configure `ibcChannels` of graz.
+ *
+ * This function does not do anything special else than providing type safety
+ * when defining channels.
+ *
+ * @example
+ * ```ts
+ * import { configureGraz, defineIbcChannels } from "graz";
+ *
+ * configureGraz({
+ *   ibcChannels: defineIbcChannels([
+ *     {
+ *       chain1: { chainId: "cosmoshub-4", channelId: "channel-141" },
+ *       chain2: { chainId: "osmosis-1", channelId: "channel-0" },
+ *     },
+ *   ]),
+ * });
+ * ```
+ */
+export const defineIbcChannels = (channels: GrazIbcChannel[]): GrazIbcChannel[] => {
+  return channels;
+};
+
+/**
+ * Transfer channels between provided mainnet chains, used to resolve the channel of `sendIbcTokensToChain` unless
+ * configured in `ibcChannels` of graz
+ *
+ * @see https://github.com/cosmos/chain-registry/tree/master/_IBC
+ */
+export const mainnetIbcChannels = defineIbcChannels([
+  /**
+   * @see https://github.com/cosmos/chain-registry/blob/master/_IBC/axelar-osmosis.json
+   */
+  {
+    chain1: { chainId: "axelar-dojo-1", channelId: "channel-3" },
+    chain2: { chainId: "osmosis-1", channelId: "channel-208" },
+  },
+  /**
+   * @see https://github.com/cosmos/chain-registry/blob/master/_IBC/cosmoshub-juno.json
+   */
+  {
+    chain1: { chainId: "cosmoshub-4", channelId: "channel-207" },
+    chain2: { chainId: "juno-1", channelId: "channel-1" },
+  },
+  /**
+   * @see https://github.com/cosmos/chain-registry/blob/master/_IBC/cosmoshub-osmosis.json
+   */
+  {
+    chain1: { chainId: "cosmoshub-4", channelId: "channel-141" },
+    chain2: { chainId: "osmosis-1", channelId: "channel-0" },
+  },
+  /**
+   * @see https://github.com/cosmos/chain-registry/blob/master/_IBC/juno-osmosis.json
+   */
+  {
+    chain1: { chainId: "juno-1", channelId: "channel-0" },
+    chain2: { chainId: "osmosis-1", channelId: "channel-42" },
+  },
+  /**
+   * @see https://github.com/cosmos/chain-registry/blob/master/_IBC/osmosis-sommelier.json
+   */
+  {
+    chain1: { chainId: "osmosis-1", channelId: "channel-165" },
+    chain2: { chainId: "sommelier-3", channelId: "channel-0" },
+  },
+]);
@@ -1,4 +1,4 @@
-import type { AppCurrency, ChainInfo } from "@keplr-wallet/types";
+import type { AppCurrency, Bech32Config, BIP44, ChainInfo } from "@keplr-wallet/types";
 
 import type { Dictionary } from "../types/core";
 import type { ChainInfoWithPath } from "../types/keplr";
@@ -11,6 +11,8 @@ import { crescentTestnet } from "./testnet/crescent";
 import { junoTestnet } from "./testnet/juno";
 import { osmosisTestnet } from "./testnet/osmosis";
 
+export * from "./ibc";
+
 export interface GrazChain {
   chainId: string;
   currencies: AppCurrency[];
@@ -18,9 +20,21 @@ export interface GrazChain {
   rest: string;
   rpc: string;
   rpcHeaders?: Dictionary;
+  /**
+   * bech32 prefixes of the chain, used to derive addresses of `WalletType.LOCAL` accounts
+   */
+  bech32Config?: Pick<Bech32Config, "bech32PrefixAccAddr">;
+  /**
+   * coin type of the chain, used in HD paths of `WalletType.LEDGER` accounts
+   */
+  bip44?: Pick<BIP44, "coinType">;
   gas?: {
     price: string;
     denom: string;
+    /**
+     * multiplier applied to simulated gas when estimating fee, defaults to 1.3
+     */
+    multiplier?: number;
   };
 }
 
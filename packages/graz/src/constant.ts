@@ -1 +1,19 @@
 export const RECONNECT_SESSION_KEY = "graz-reconnect-session";
+
+export const SESSION_KEYS_STORAGE_KEY = "graz-session-keys";
+
+export const SESSION_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const TX_POLL_INTERVAL_MS = 3_000;
+
+export const TX_TIMEOUT_MS = 60_000;
+
+export const IBC_TRANSFER_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const IBC_TRANSFER_POLL_INTERVAL_MS = 6_000;
+
+export const DEFAULT_GAS_MULTIPLIER = 1.3;
+
+export const METAMASK_SNAP_LEAP_ID = "npm:@leapwallet/metamask-cosmos-snap";
+
+export const DEFAULT_COIN_TYPE = 118;
@@ -7,11 +7,15 @@ import { shallow } from "zustand/shallow";
 import type { ConnectArgs, ConnectResult } from "../actions/account";
 import { connect, disconnect, reconnect } from "../actions/account";
 import { getBalances, getBalanceStaked } from "../actions/methods";
-import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import { selectChainSession, useGrazInternalStore, useGrazSessionStore } from "../store";
 import type { MutationEventArgs } from "../types/hooks";
 import { useCheckWallet } from "./wallet";
 
 export interface UseAccountArgs {
+  /**
+   * connected chain id to retrieve account from, defaults to active chain
+   */
+  chainId?: string;
   onConnect?: (args: ConnectResult & { isReconnect: boolean }) => void;
   onDisconnect?: () => void;
 }
@@ -32,10 +36,13 @@ export interface UseAccountArgs {
  *   onConnect: ({ account, isReconnect }) => { ... },
  *   onDisconnect: () => { ... },
  * });
+ *
+ * // account of other connected chain
+ * const { data: junoAccount } = useAccount({ chainId: "juno-1" });
  * ```
  */
-export const useAccount = ({ onConnect, onDisconnect }: UseAccountArgs = {}) => {
-  const _account = useGrazSessionStore((x) => x.account);
+export const useAccount = ({ chainId, onConnect, onDisconnect }: UseAccountArgs = {}) => {
+  const _account = useGrazSessionStore((x) => selectChainSession(x, chainId).account);
   const status = useGrazSessionStore((x) => x.status);
 
   useEffect(() => {
@@ -43,10 +50,11 @@ export const useAccount = ({ onConnect, onDisconnect }: UseAccountArgs = {}) =>
       (x) => x.status,
       (stat, prevStat) => {
         if (stat === "connected") {
-          const { account, activeChain } = useGrazSessionStore.getState();
+          const { account, activeChain, sessions } = useGrazSessionStore.getState();
           const { walletType } = useGrazInternalStore.getState();
           onConnect?.({
             account: account!,
+            accounts: Object.fromEntries(Object.entries(sessions).map(([id, x]) => [id, x.account!])),
             chain: activeChain!,
             walletType,
             isReconnect: prevStat === "reconnecting",
@@ -64,6 +72,7 @@ export const useAccount = ({ onConnect, onDisconnect }: UseAccountArgs = {}) =>
     isConnected: Boolean(_account),
     isConnecting: status === "connecting",
     isDisconnected: status === "disconnected",
+    isHydrating: status === "hydrating",
     isReconnecting: status === "reconnecting",
     isLoading: status === "connecting" || status === "reconnecting",
     reconnect,
@@ -75,6 +84,7 @@ export const useAccount = ({ onConnect, onDisconnect }: UseAccountArgs = {}) =>
  * graz query hook to retrieve list of balances from current account or given address.
  *
  * @param bech32Address - Optional bech32 account address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
  *
  * @example
  * ```ts
@@ -85,14 +95,17 @@ export const useAccount = ({ onConnect, onDisconnect }: UseAccountArgs = {}) =>
  *
  * // with custom bech32 address
  * useBalances("cosmos1kpzxx2lxg05xxn8mfygrerhmkj0ypn8edmu2pu");
+ *
+ * // balances of other connected chain
+ * useBalances(undefined, "juno-1");
  * ```
  */
-export const useBalances = (bech32Address?: string): UseQueryResult<Coin[]> => {
-  const { data: account } = useAccount();
+export const useBalances = (bech32Address?: string, chainId?: string): UseQueryResult<Coin[]> => {
+  const { data: account } = useAccount({ chainId });
   const address = bech32Address || account?.bech32Address;
 
-  const queryKey = ["USE_BALANCES", address] as const;
-  const query = useQuery(queryKey, ({ queryKey: [, _address] }) => getBalances(_address!), {
+  const queryKey = ["USE_BALANCES", address, chainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _address, _chainId] }) => getBalances(_address!, _chainId), {
     enabled: Boolean(address),
     refetchOnMount: false,
     refetchOnReconnect: true,
@@ -107,6 +120,7 @@ export const useBalances = (bech32Address?: string): UseQueryResult<Coin[]> => {
  *
  * @param denom - Asset denom to search
  * @param bech32Address - Optional bech32 account address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
  *
  * @example
  * ```ts
@@ -119,10 +133,14 @@ export const useBalances = (bech32Address?: string): UseQueryResult<Coin[]> => {
  * useBalance("atom", "cosmos1kpzxx2lxg05xxn8mfygrerhmkj0ypn8edmu2pu");
  * ```
  */
-export const useBalance = (denom: string, bech32Address?: string): UseQueryResult<Coin | undefined> => {
-  const { data: balances } = useBalances(bech32Address);
+export const useBalance = (
+  denom: string,
+  bech32Address?: string,
+  chainId?: string,
+): UseQueryResult<Coin | undefined> => {
+  const { data: balances } = useBalances(bech32Address, chainId);
 
-  const queryKey = ["USE_BALANCE", balances, denom, bech32Address] as const;
+  const queryKey = ["USE_BALANCE", balances, denom, bech32Address, chainId] as const;
   const query = useQuery(
     queryKey,
     ({ queryKey: [, _balances] }) => {
@@ -238,21 +256,23 @@ export const useDisconnect = ({ onError, onLoading, onSuccess }: MutationEventAr
  *
  * Note: signer objects is initialized after connecting an account.
  *
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
  * @example
  * ```ts
  * import { useOfflineSigners } from "graz";
  * const { signer, signerAmino, signerAuto } = useOfflineSigners();
  * ```
  */
-export const useOfflineSigners = () =>
-  useGrazSessionStore(
-    (x) => ({
-      signer: x.offlineSigner,
-      signerAmino: x.offlineSignerAmino,
-      signerAuto: x.offlineSignerAuto,
-    }),
-    shallow,
-  );
+export const useOfflineSigners = (chainId?: string) =>
+  useGrazSessionStore((x) => {
+    const session = selectChainSession(x, chainId);
+    return {
+      signer: session.offlineSigner,
+      signerAmino: session.offlineSignerAmino,
+      signerAuto: session.offlineSignerAuto,
+    };
+  }, shallow);
 
 /**
  * graz hook to retrieve offline signer objects (default, amino enabled, and auto).
@@ -266,6 +286,7 @@ export const useSigners = () => useOfflineSigners();
  * graz query hook to retrieve list of staked balances from current account or given address.
  *
  * @param bech32Address - Optional bech32 account address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
  *
  * @example
  * ```ts
@@ -278,12 +299,12 @@ export const useSigners = () => useOfflineSigners();
  * useBalanceStaked("cosmos1kpzxx2lxg05xxn8mfygrerhmkj0ypn8edmu2pu");
  * ```
  */
-export const useBalanceStaked = (bech32Address?: string): UseQueryResult<Coin | null> => {
-  const { data: account } = useAccount();
+export const useBalanceStaked = (bech32Address?: string, chainId?: string): UseQueryResult<Coin | null> => {
+  const { data: account } = useAccount({ chainId });
   const address = bech32Address || account?.bech32Address;
 
-  const queryKey = ["USE_BALANCE_STAKED", address] as const;
-  const query = useQuery(queryKey, ({ queryKey: [, _address] }) => getBalanceStaked(address!), {
+  const queryKey = ["USE_BALANCE_STAKED", address, chainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _address, _chainId] }) => getBalanceStaked(_address!, _chainId), {
     enabled: Boolean(address),
   });
 
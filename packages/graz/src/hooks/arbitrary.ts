@@ -0,0 +1,54 @@
+import { useMutation } from "@tanstack/react-query";
+
+import type { SignArbitraryArgs, SignArbitraryResult } from "../actions/arbitrary";
+import { signArbitrary } from "../actions/arbitrary";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+export type UseSignArbitraryArgs = {
+  /**
+   * connected chain id to sign with, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<SignArbitraryArgs, SignArbitraryResult>;
+
+/**
+ * graz mutation hook to sign arbitrary data (ADR-036) with connected wallet. Note: if `signerAddress` undefined, it
+ * will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useSignArbitrary } from "graz";
+ *
+ * const { signArbitraryAsync } = useSignArbitrary();
+ *
+ * const { signerAddress, signature } = await signArbitraryAsync({ data: "Sign in to example.com" });
+ * // send signature to backend and verify with `verifyADR36Signature`
+ * ```
+ *
+ * @see {@link signArbitrary}
+ */
+export const useSignArbitrary = ({ chainId, onError, onLoading, onSuccess }: UseSignArbitraryArgs = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+
+  const queryKey = ["USE_SIGN_ARBITRARY", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: SignArbitraryArgs) => signArbitrary({ signerAddress: accountAddress, chainId, ...args }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (result) => Promise.resolve(onSuccess?.(result)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    signArbitrary: mutation.mutate,
+    signArbitraryAsync: mutation.mutateAsync,
+    status: mutation.status,
+  };
+};
@@ -0,0 +1,164 @@
+import type { DeliverTxResponse } from "@cosmjs/stargate";
+import type { UseQueryResult } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { GrantAuthorization } from "cosmjs-types/cosmos/authz/v1beta1/authz";
+import { useState } from "react";
+
+import type { GetGrantsArgs, GrantAuthorizationArgs, RevokeAuthorizationArgs } from "../actions/authz";
+import { getGrants, grantAuthorization, revokeAuthorization } from "../actions/authz";
+import type { GrazTransaction } from "../store";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+/**
+ * graz query hook to retrieve authz grants given by granter address, received by grantee address, or between both.
+ * Note: if both addresses are undefined, it will retrieve grants given by current connected account.
+ *
+ * @example
+ * ```ts
+ * import { useGrants } from "graz";
+ *
+ * // grants given by connected account
+ * const { data: grants, isFetching, refetch, ... } = useGrants();
+ *
+ * // grants received by connected account
+ * const { data: account } = useAccount();
+ * const { data: grants } = useGrants({ granteeAddress: account?.bech32Address });
+ * ```
+ */
+export const useGrants = ({ granterAddress, granteeAddress, chainId }: GetGrantsArgs = {}): UseQueryResult<
+  GrantAuthorization[]
+> => {
+  const { data: account } = useAccount({ chainId });
+  const granter = granterAddress || (granteeAddress ? undefined : account?.bech32Address);
+
+  const queryKey = ["USE_GRANTS", granter, granteeAddress, chainId] as const;
+  const query = useQuery(
+    queryKey,
+    ({ queryKey: [, _granter, _grantee, _chainId] }) =>
+      getGrants({ granterAddress: _granter, granteeAddress: _grantee, chainId: _chainId }),
+    {
+      enabled: Boolean(granter || granteeAddress),
+    },
+  );
+
+  return query;
+};
+
+export type UseAuthzArgs<TArgs> = {
+  /**
+   * connected chain id to grant on, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<TArgs, DeliverTxResponse>;
+
+/**
+ * graz mutation hook to grant generic, send or stake authorization to a grantee. Note: if `granterAddress`
+ * undefined, it will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useGrant } from "graz";
+ *
+ * const { grant } = useGrant();
+ *
+ * grant({
+ *   granteeAddress: "cosmos1...",
+ *   authorization: { type: "generic", msgTypeUrl: "/cosmos.gov.v1beta1.MsgVote" },
+ *   expiration: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link grantAuthorization}
+ */
+export const useGrant = ({ chainId, onError, onLoading, onSuccess }: UseAuthzArgs<GrantAuthorizationArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_GRANT", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: GrantAuthorizationArgs) =>
+      grantAuthorization({
+        granterAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    grant: mutation.mutate,
+    grantAsync: mutation.mutateAsync,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz mutation hook to revoke authorization of a message type from a grantee. Note: if `granterAddress`
+ * undefined, it will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useRevoke } from "graz";
+ *
+ * const { revoke } = useRevoke();
+ *
+ * revoke({
+ *   granteeAddress: "cosmos1...",
+ *   msgTypeUrl: "/cosmos.gov.v1beta1.MsgVote",
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link revokeAuthorization}
+ */
+export const useRevoke = ({ chainId, onError, onLoading, onSuccess }: UseAuthzArgs<RevokeAuthorizationArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_REVOKE", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: RevokeAuthorizationArgs) =>
+      revokeAuthorization({
+        granterAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    revoke: mutation.mutate,
+    revokeAsync: mutation.mutateAsync,
+    status: mutation.status,
+    transaction,
+  };
+};
@@ -5,7 +5,21 @@ import type { CreateClientArgs, CreateSigningClientArgs } from "../actions/clien
 import { createSigningClients } from "../actions/clients";
 import { createClients } from "../actions/clients";
 import type { GrazSessionStore } from "../store";
-import { useGrazSessionStore } from "../store";
+import { selectChainSession, useGrazSessionStore } from "../store";
+
+const setChainSessionState = (
+  chainId: string | undefined,
+  state: Partial<Pick<GrazSessionStore, "clients" | "signingClients">>,
+) => {
+  useGrazSessionStore.setState((x) => {
+    const sessionChainId = chainId || x.activeChain?.chainId;
+    const session = sessionChainId ? x.sessions[sessionChainId] : undefined;
+    const sessions = session ? { ...x.sessions, [sessionChainId!]: { ...session, ...state } } : x.sessions;
+    // active chain is mirrored in top-level fields and `sessions`, which `connect` reuses when switching back
+    if (!chainId || chainId === x.activeChain?.chainId) return { ...state, sessions };
+    return { sessions };
+  });
+};
 
 /**
  * graz query hook to retrieve a CosmWasmClient, StargateClient and Tendermint34Client. If there's no given arguments it will be using the current connected client
@@ -19,12 +33,15 @@ import { useGrazSessionStore } from "../store";
  *
  * // initialize new custom client from given arguments
  * useClient({ rpc: "https://rpc.cosmoshub.strange.love", });
+ *
+ * // use other connected chain's clients
+ * useClient(undefined, "juno-1");
  * ```
  */
-export const useClients = (args?: CreateClientArgs): UseQueryResult<GrazSessionStore["clients"]> => {
-  const currentClient = useGrazSessionStore((x) => x.clients);
+export const useClients = (args?: CreateClientArgs, chainId?: string): UseQueryResult<GrazSessionStore["clients"]> => {
+  const currentClient = useGrazSessionStore((x) => selectChainSession(x, chainId).clients);
 
-  const queryKey = ["USE_CLIENTS", args, currentClient] as const;
+  const queryKey = ["USE_CLIENTS", args, currentClient, chainId] as const;
   const query = useQuery(
     queryKey,
     ({ queryKey: [, _args, _current] }) => {
@@ -34,7 +51,7 @@ export const useClients = (args?: CreateClientArgs): UseQueryResult<GrazSessionS
       refetchOnMount: false,
       refetchOnWindowFocus: false,
       onSuccess: (clients) => {
-        useGrazSessionStore.setState({ clients });
+        setChainSessionState(chainId, { clients });
       },
       initialData: currentClient,
     },
@@ -59,14 +76,18 @@ export const useClients = (args?: CreateClientArgs): UseQueryResult<GrazSessionS
  *   offlineSigner: customOfflineSigner,
  *   ...
  * });
+ *
+ * // use other connected chain's signing clients
+ * useSigningClient(undefined, "juno-1");
  * ```
  */
 export const useSigningClients = (
   args?: CreateSigningClientArgs,
+  chainId?: string,
 ): UseQueryResult<GrazSessionStore["signingClients"]> => {
-  const currentSigningClient = useGrazSessionStore((x) => x.signingClients);
+  const currentSigningClient = useGrazSessionStore((x) => selectChainSession(x, chainId).signingClients);
 
-  const queryKey = ["USE_SIGNING_CLIENTS", args, currentSigningClient] as const;
+  const queryKey = ["USE_SIGNING_CLIENTS", args, currentSigningClient, chainId] as const;
   const query = useQuery(
     queryKey,
     ({ queryKey: [, _args, _current] }) => {
@@ -76,7 +97,7 @@ export const useSigningClients = (
       refetchOnMount: false,
       refetchOnWindowFocus: false,
       onSuccess: (signingClients) => {
-        useGrazSessionStore.setState({ signingClients });
+        setChainSessionState(chainId, { signingClients });
       },
       initialData: currentSigningClient,
     },
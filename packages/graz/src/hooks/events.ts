@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+
+import type { GrazEventHandler, GrazEventName } from "../actions/events";
+import { grazEvents } from "../actions/events";
+
+/**
+ * graz hook to listen to given graz event while the component is mounted, the latest handler is always called
+ * without resubscribing.
+ *
+ * @param name - Event name, see `GrazEventMap`
+ * @param handler - Function called with event payload
+ *
+ * @example
+ * ```ts
+ * import { useGrazEvent } from "graz";
+ *
+ * useGrazEvent("txConfirmed", ({ hash }) => {
+ *   toast(`Transaction ${hash} confirmed`);
+ * });
+ * ```
+ *
+ * @see {@link grazEvents}
+ */
+export const useGrazEvent = <T extends GrazEventName>(name: T, handler: GrazEventHandler<T>) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return grazEvents.on(name, (payload) => handlerRef.current(payload));
+  }, [name]);
+};
@@ -0,0 +1,169 @@
+import type { DeliverTxResponse } from "@cosmjs/stargate";
+import type { UseQueryResult } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Grant } from "cosmjs-types/cosmos/feegrant/v1beta1/feegrant";
+import { useState } from "react";
+
+import type { GrantFeeAllowanceArgs, RevokeFeeAllowanceArgs } from "../actions/feegrant";
+import { getFeeAllowances, grantFeeAllowance, revokeFeeAllowance } from "../actions/feegrant";
+import type { GrazTransaction } from "../store";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+/**
+ * graz query hook to retrieve fee allowances received by current account or given address, optionally only the
+ * allowance of given granter address.
+ *
+ * @param granteeAddress - Optional bech32 grantee address, defaults to connected account address
+ * @param granterAddress - Optional bech32 granter address to filter allowances
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useFeeAllowances } from "graz";
+ *
+ * const { data: allowances, isFetching, refetch, ... } = useFeeAllowances();
+ * ```
+ */
+export const useFeeAllowances = (
+  granteeAddress?: string,
+  granterAddress?: string,
+  chainId?: string,
+): UseQueryResult<Grant[]> => {
+  const { data: account } = useAccount({ chainId });
+  const address = granteeAddress || account?.bech32Address;
+
+  const queryKey = ["USE_FEE_ALLOWANCES", address, granterAddress, chainId] as const;
+  const query = useQuery(
+    queryKey,
+    ({ queryKey: [, _address, _granterAddress, _chainId] }) => getFeeAllowances(_address!, _granterAddress, _chainId),
+    {
+      enabled: Boolean(address),
+    },
+  );
+
+  return query;
+};
+
+export type UseFeegrantArgs<TArgs> = {
+  /**
+   * connected chain id to grant on, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<TArgs, DeliverTxResponse>;
+
+/**
+ * graz mutation hook to grant basic or periodic fee allowance to a grantee. Note: if `granterAddress` undefined, it
+ * will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useGrantFeeAllowance } from "graz";
+ *
+ * const { grantFeeAllowance } = useGrantFeeAllowance();
+ *
+ * grantFeeAllowance({
+ *   granteeAddress: "cosmos1...",
+ *   allowance: { type: "basic", spendLimit: [{ denom: "uatom", amount: "100000" }] },
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link grantFeeAllowance}
+ */
+export const useGrantFeeAllowance = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseFeegrantArgs<GrantFeeAllowanceArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_GRANT_FEE_ALLOWANCE", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: GrantFeeAllowanceArgs) =>
+      grantFeeAllowance({
+        granterAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    grantFeeAllowance: mutation.mutate,
+    grantFeeAllowanceAsync: mutation.mutateAsync,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz mutation hook to revoke fee allowance of a grantee. Note: if `granterAddress` undefined, it will use current
+ * connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useRevokeFeeAllowance } from "graz";
+ *
+ * const { revokeFeeAllowance } = useRevokeFeeAllowance();
+ *
+ * revokeFeeAllowance({ granteeAddress: "cosmos1...", fee: "auto" });
+ * ```
+ *
+ * @see {@link revokeFeeAllowance}
+ */
+export const useRevokeFeeAllowance = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseFeegrantArgs<RevokeFeeAllowanceArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_REVOKE_FEE_ALLOWANCE", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: RevokeFeeAllowanceArgs) =>
+      revokeFeeAllowance({
+        granterAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    revokeFeeAllowance: mutation.mutate,
+    revokeFeeAllowanceAsync: mutation.mutateAsync,
+    status: mutation.status,
+    transaction,
+  };
+};
@@ -0,0 +1,238 @@
+import type { DeliverTxResponse, GovProposalId } from "@cosmjs/stargate";
+import type { UseQueryResult } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Proposal, ProposalStatus, TallyResult, Vote } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+import { useState } from "react";
+
+import type { DepositProposalArgs, VoteProposalArgs } from "../actions/gov";
+import { depositProposal, getProposal, getProposals, getProposalTally, getVote, voteProposal } from "../actions/gov";
+import type { GrazTransaction } from "../store";
+import { selectChainSession, useGrazSessionStore } from "../store";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+const useIsClientReady = (chainId?: string): boolean => {
+  return useGrazSessionStore((x) => Boolean(selectChainSession(x, chainId).clients?.tendermint));
+};
+
+/**
+ * graz query hook to retrieve list of proposals, optionally filtered by proposal status.
+ *
+ * @param status - Optional proposal status filter, defaults to all proposals
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useProposals } from "graz";
+ * import { ProposalStatus } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+ *
+ * const { data: proposals, isFetching, refetch, ... } = useProposals(ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD);
+ * ```
+ */
+export const useProposals = (status?: ProposalStatus, chainId?: string): UseQueryResult<Proposal[]> => {
+  const isReady = useIsClientReady(chainId);
+
+  const queryKey = ["USE_PROPOSALS", status, chainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _status, _chainId] }) => getProposals(_status, _chainId), {
+    enabled: isReady,
+  });
+
+  return query;
+};
+
+/**
+ * graz query hook to retrieve a single proposal by its id.
+ *
+ * @param proposalId - Proposal id to query
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useProposal } from "graz";
+ *
+ * const { data: proposal, isFetching, refetch, ... } = useProposal(82);
+ * ```
+ */
+export const useProposal = (proposalId?: GovProposalId, chainId?: string): UseQueryResult<Proposal | null> => {
+  const isReady = useIsClientReady(chainId);
+
+  const queryKey = ["USE_PROPOSAL", proposalId, chainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _proposalId, _chainId] }) => getProposal(_proposalId!, _chainId), {
+    enabled: isReady && proposalId !== undefined,
+  });
+
+  return query;
+};
+
+/**
+ * graz query hook to retrieve current tally result of a proposal.
+ *
+ * @param proposalId - Proposal id to query
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useProposalTally } from "graz";
+ *
+ * const { data: tally, isFetching, refetch, ... } = useProposalTally(82);
+ * ```
+ */
+export const useProposalTally = (proposalId?: GovProposalId, chainId?: string): UseQueryResult<TallyResult | null> => {
+  const isReady = useIsClientReady(chainId);
+
+  const queryKey = ["USE_PROPOSAL_TALLY", proposalId, chainId] as const;
+  const query = useQuery(
+    queryKey,
+    ({ queryKey: [, _proposalId, _chainId] }) => getProposalTally(_proposalId!, _chainId),
+    {
+      enabled: isReady && proposalId !== undefined,
+    },
+  );
+
+  return query;
+};
+
+/**
+ * graz query hook to retrieve vote of current account or given address on a proposal.
+ * Returns `null` if the voter has not voted.
+ *
+ * @param proposalId - Proposal id to query
+ * @param bech32Address - Optional bech32 voter address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useVote } from "graz";
+ *
+ * const { data: vote, isFetching, refetch, ... } = useVote(82);
+ * ```
+ */
+export const useVote = (
+  proposalId?: GovProposalId,
+  bech32Address?: string,
+  chainId?: string,
+): UseQueryResult<Vote | null> => {
+  const { data: account } = useAccount({ chainId });
+  const address = bech32Address || account?.bech32Address;
+
+  const queryKey = ["USE_VOTE", proposalId, address, chainId] as const;
+  const query = useQuery(
+    queryKey,
+    ({ queryKey: [, _proposalId, _address, _chainId] }) => getVote(_proposalId!, _address!, _chainId),
+    {
+      enabled: proposalId !== undefined && Boolean(address),
+    },
+  );
+
+  return query;
+};
+
+export type UseGovArgs<TArgs> = {
+  /**
+   * connected chain id to sign and broadcast on, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<TArgs, DeliverTxResponse>;
+
+/**
+ * graz mutation hook to vote on a proposal. Weighted vote (`MsgVoteWeighted`) is used if `options` are given instead
+ * of `option`. Note: if `voterAddress` undefined, it will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useVoteProposal } from "graz";
+ * import { VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+ *
+ * const { voteProposal } = useVoteProposal();
+ *
+ * voteProposal({ proposalId: 82, option: VoteOption.VOTE_OPTION_YES, fee: "auto" });
+ * ```
+ *
+ * @see {@link voteProposal}
+ */
+export const useVoteProposal = ({ chainId, onError, onLoading, onSuccess }: UseGovArgs<VoteProposalArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_VOTE_PROPOSAL", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: VoteProposalArgs) =>
+      voteProposal({
+        voterAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+    voteProposal: mutation.mutate,
+    voteProposalAsync: mutation.mutateAsync,
+  };
+};
+
+/**
+ * graz mutation hook to deposit tokens to a proposal. Note: if `depositorAddress` undefined, it will use current
+ * connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useDeposit } from "graz";
+ *
+ * const { deposit } = useDeposit();
+ *
+ * deposit({ proposalId: 82, amount: [{ denom: "uatom", amount: "1000000" }], fee: "auto" });
+ * ```
+ *
+ * @see {@link depositProposal}
+ */
+export const useDeposit = ({ chainId, onError, onLoading, onSuccess }: UseGovArgs<DepositProposalArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_DEPOSIT", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: DepositProposalArgs) =>
+      depositProposal({
+        depositorAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    deposit: mutation.mutate,
+    depositAsync: mutation.mutateAsync,
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+  };
+};
@@ -0,0 +1,179 @@
+import type { DeliverTxResponse } from "@cosmjs/stargate";
+import type { UseQueryResult } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+
+import type { GrazDenomTrace, GrazIbcTransfer, SendIbcTokensToChainArgs } from "../actions/ibc";
+import { getDenomTrace, getDenomTraces, getIbcTransferStatus, sendIbcTokensToChain } from "../actions/ibc";
+import type { GrazChain } from "../chains";
+import { IBC_TRANSFER_POLL_INTERVAL_MS } from "../constant";
+import type { GrazTransaction } from "../store";
+import { selectChainSession, useGrazSessionStore } from "../store";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+/**
+ * graz query hook to resolve path, base denom and currency metadata of given denom, e.g. `ibc/27394FB0...`
+ *
+ * @param denom - Denom to resolve, non-IBC denoms resolve to the currency of the chain
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useDenomTrace } from "graz";
+ *
+ * const { data: trace } = useDenomTrace("ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2");
+ *
+ * trace?.currency?.coinDenom; // "ATOM"
+ * ```
+ */
+export const useDenomTrace = (denom?: string, chainId?: string): UseQueryResult<GrazDenomTrace> => {
+  const sessionChainId = useGrazSessionStore((x) => selectChainSession(x, chainId).chain?.chainId);
+
+  const queryKey = ["USE_DENOM_TRACE", denom, sessionChainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _denom, _chainId] }) => getDenomTrace(_denom!, _chainId), {
+    enabled: Boolean(denom) && Boolean(sessionChainId),
+  });
+
+  return query;
+};
+
+/**
+ * graz query hook to resolve denom traces of given denoms, e.g. of all balances, keyed by denom.
+ *
+ * @param denoms - Denoms to resolve
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useBalances, useDenomTraces } from "graz";
+ *
+ * const { data: balances } = useBalances();
+ * const { data: traces } = useDenomTraces(balances?.map((x) => x.denom));
+ *
+ * balances?.map(({ denom, amount }) => `${amount} ${traces?.[denom]?.currency?.coinDenom ?? denom}`);
+ * ```
+ *
+ * @see {@link useDenomTrace}
+ */
+export const useDenomTraces = (denoms?: string[], chainId?: string): UseQueryResult<Record<string, GrazDenomTrace>> => {
+  const sessionChainId = useGrazSessionStore((x) => selectChainSession(x, chainId).chain?.chainId);
+
+  const queryKey = ["USE_DENOM_TRACES", denoms, sessionChainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _denoms, _chainId] }) => getDenomTraces(_denoms!, _chainId), {
+    enabled: Boolean(denoms) && Boolean(sessionChainId),
+  });
+
+  return query;
+};
+
+export type UseSendIbcTokensToChainArgs = {
+  /**
+   * connected chain id to send from, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<SendIbcTokensToChainArgs, DeliverTxResponse>;
+
+/**
+ * graz mutation hook to send IBC tokens to destination chain, resolving the transfer channel and timeout. Note: if
+ * `senderAddress` undefined, it will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useSendIbcTokensToChain } from "graz";
+ *
+ * const { sendIbcTokensToChain } = useSendIbcTokensToChain();
+ *
+ * sendIbcTokensToChain({
+ *   recipientAddress: "osmo1...",
+ *   transferAmount: { denom: "uatom", amount: "1000000" },
+ *   destination: "osmosis-1",
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link sendIbcTokensToChain}
+ */
+export const useSendIbcTokensToChain = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseSendIbcTokensToChainArgs = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_SEND_IBC_TOKENS_TO_CHAIN", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: SendIbcTokensToChainArgs) =>
+      sendIbcTokensToChain({
+        senderAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    sendIbcTokensToChain: mutation.mutate,
+    sendIbcTokensToChainAsync: mutation.mutateAsync,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz query hook to track IBC transfer sent by given transaction hash until it is acknowledged on destination chain
+ * or refunded, polling source and destination chains.
+ *
+ * @param txHash - Hash of the transaction sending the transfer
+ * @param chainId - Optional connected chain id the transfer was sent from, defaults to active chain
+ * @param destination - Optional destination chain to poll, defaults to the known chain matching the transfer channel
+ *
+ * @example
+ * ```ts
+ * import { useIbcTransferStatus, useSendIbcTokensToChain } from "graz";
+ *
+ * const { sendIbcTokensToChain, transaction } = useSendIbcTokensToChain();
+ * const { data: transfer } = useIbcTransferStatus(transaction?.hash);
+ *
+ * transfer?.status; // "sent" | "received" | "acknowledged" | "timedOut" | "refunded"
+ * ```
+ *
+ * @see {@link getIbcTransferStatus}
+ */
+export const useIbcTransferStatus = (
+  txHash?: string,
+  chainId?: string,
+  destination?: GrazChain,
+): UseQueryResult<GrazIbcTransfer> => {
+  const sessionChainId = useGrazSessionStore((x) => selectChainSession(x, chainId).chain?.chainId);
+
+  const queryKey = ["USE_IBC_TRANSFER_STATUS", txHash, sessionChainId, destination] as const;
+  const query = useQuery(
+    queryKey,
+    ({ queryKey: [, _txHash, _chainId, _destination] }) =>
+      getIbcTransferStatus({ txHash: _txHash!, chainId: _chainId, destination: _destination }),
+    {
+      enabled: Boolean(txHash) && Boolean(sessionChainId),
+      // stop polling once tokens arrived or were refunded
+      refetchInterval: (data) =>
+        data?.status === "acknowledged" || data?.status === "refunded" ? false : IBC_TRANSFER_POLL_INTERVAL_MS,
+    },
+  );
+
+  return query;
+};
@@ -2,6 +2,7 @@ import type { ExecuteResult, InstantiateResult } from "@cosmjs/cosmwasm-stargate
 import type { DeliverTxResponse } from "@cosmjs/stargate";
 import type { UseQueryResult } from "@tanstack/react-query";
 import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 
 import type {
   ExecuteContractArgs,
@@ -10,6 +11,8 @@ import type {
   InstantiateContractMutationArgs,
   SendIbcTokensArgs,
   SendTokensArgs,
+  SignAndBroadcastArgs,
+  SimulateFeeArgs,
 } from "../actions/methods";
 import {
   executeContract,
@@ -18,10 +21,22 @@ import {
   instantiateContract,
   sendIbcTokens,
   sendTokens,
+  signAndBroadcast,
+  simulateFee,
 } from "../actions/methods";
+import { canExecuteWithSessionKey, getSessionKey } from "../actions/session-key";
+import type { EstimateFeeResult } from "../actions/transaction";
+import type { GrazTransaction } from "../store";
 import type { MutationEventArgs } from "../types/hooks";
 import { useAccount } from "./account";
 
+export type UseSendTokensArgs = {
+  /**
+   * connected chain id to send from, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<SendTokensArgs, DeliverTxResponse>;
+
 /**
  * graz mutation hook to send tokens. Note: if `senderAddress` undefined, it will use current connected account address.
  *
@@ -41,18 +56,24 @@ import { useAccount } from "./account";
  *
  * @see {@link sendTokens}
  */
-export const useSendTokens = ({
-  onError,
-  onLoading,
-  onSuccess,
-}: MutationEventArgs<SendTokensArgs, DeliverTxResponse> = {}) => {
-  const { data: account } = useAccount();
+export const useSendTokens = ({ chainId, onError, onLoading, onSuccess }: UseSendTokensArgs = {}) => {
+  const { data: account } = useAccount({ chainId });
   const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
 
-  const queryKey = ["USE_SEND_TOKENS", onError, onLoading, onSuccess, accountAddress];
+  const queryKey = ["USE_SEND_TOKENS", onError, onLoading, onSuccess, accountAddress, chainId];
   const mutation = useMutation(
     queryKey,
-    (args: SendTokensArgs) => sendTokens({ senderAddress: accountAddress, ...args }),
+    (args: SendTokensArgs) =>
+      sendTokens({
+        senderAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
     {
       onError: (err, data) => Promise.resolve(onError?.(err, data)),
       onMutate: onLoading,
@@ -67,8 +88,16 @@ export const useSendTokens = ({
     sendTokens: mutation.mutate,
     sendTokensAsync: mutation.mutateAsync,
     status: mutation.status,
+    transaction,
   };
 };
+export type UseSendIbcTokensArgs = {
+  /**
+   * connected chain id to send from, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<SendIbcTokensArgs, DeliverTxResponse>;
+
 /**
  * graz mutation hook to send IBC tokens. Note: if `senderAddress` undefined, it will use current connected account address.
  *
@@ -87,18 +116,24 @@ export const useSendTokens = ({
  * })
  * ```
  */
-export const useSendIbcTokens = ({
-  onError,
-  onLoading,
-  onSuccess,
-}: MutationEventArgs<SendIbcTokensArgs, DeliverTxResponse> = {}) => {
-  const { data: account } = useAccount();
+export const useSendIbcTokens = ({ chainId, onError, onLoading, onSuccess }: UseSendIbcTokensArgs = {}) => {
+  const { data: account } = useAccount({ chainId });
   const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
 
-  const queryKey = ["USE_SEND_IBC_TOKENS", onError, onLoading, onSuccess, accountAddress];
+  const queryKey = ["USE_SEND_IBC_TOKENS", onError, onLoading, onSuccess, accountAddress, chainId];
   const mutation = useMutation(
     queryKey,
-    (args: SendIbcTokensArgs) => sendIbcTokens({ senderAddress: accountAddress, ...args }),
+    (args: SendIbcTokensArgs) =>
+      sendIbcTokens({
+        senderAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
     {
       onError: (err, data) => Promise.resolve(onError?.(err, data)),
       onMutate: onLoading,
@@ -113,11 +148,16 @@ export const useSendIbcTokens = ({
     sendIbcTokens: mutation.mutate,
     sendIbcTokensAsync: mutation.mutateAsync,
     status: mutation.status,
+    transaction,
   };
 };
 
 export type UseInstantiateContractArgs<Message extends Record<string, unknown>> = {
   codeId: number;
+  /**
+   * connected chain id to instantiate on, defaults to active chain
+   */
+  chainId?: string;
 } & MutationEventArgs<InstantiateContractMutationArgs<Message>, InstantiateResult>;
 
 /**
@@ -141,12 +181,14 @@ export type UseInstantiateContractArgs<Message extends Record<string, unknown>>
  */
 export const useInstantiateContract = <Message extends Record<string, unknown>>({
   codeId,
+  chainId,
   onError,
   onLoading,
   onSuccess,
 }: UseInstantiateContractArgs<Message>) => {
-  const { data: account } = useAccount();
+  const { data: account } = useAccount({ chainId });
   const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
 
   const mutationFn = (args: InstantiateContractMutationArgs<Message>) => {
     if (!accountAddress) throw new Error("senderAddress is undefined");
@@ -155,12 +197,17 @@ export const useInstantiateContract = <Message extends Record<string, unknown>>(
       fee: args.fee ?? "auto",
       senderAddress: accountAddress,
       codeId,
+      chainId,
+      onStatusChange: (tx) => {
+        setTransaction(tx);
+        args.onStatusChange?.(tx);
+      },
     };
 
     return instantiateContract(contractArgs);
   };
 
-  const queryKey = ["USE_INSTANTIATE_CONTRACT", onError, onLoading, onSuccess, codeId, accountAddress];
+  const queryKey = ["USE_INSTANTIATE_CONTRACT", onError, onLoading, onSuccess, codeId, accountAddress, chainId];
   const mutation = useMutation(queryKey, mutationFn, {
     onError: (err, data) => Promise.resolve(onError?.(err, data)),
     onMutate: onLoading,
@@ -174,16 +221,27 @@ export const useInstantiateContract = <Message extends Record<string, unknown>>(
     instantiateContract: mutation.mutate,
     instantiateContractAsync: mutation.mutateAsync,
     status: mutation.status,
+    transaction,
   };
 };
 
 export type UseExecuteContractArgs<Message extends Record<string, unknown>> = {
   contractAddress: string;
+  /**
+   * connected chain id to execute on, defaults to active chain
+   */
+  chainId?: string;
+  /**
+   * sign with unlocked session key of connected account through authz `MsgExec` if it is allowed to execute the
+   * contract, defaults to true
+   */
+  withSessionKey?: boolean;
 } & MutationEventArgs<ExecuteContractMutationArgs<Message>, ExecuteResult>;
 
 /**
  * graz mutation hook for executing transactions against a CosmWasm smart
- * contract.
+ * contract. Signs with the unlocked session key of connected account if it is allowed to execute the contract, see
+ * `createSessionKey`.
  *
  * @example
  * ```ts
@@ -208,12 +266,15 @@ export type UseExecuteContractArgs<Message extends Record<string, unknown>> = {
  */
 export const useExecuteContract = <Message extends Record<string, unknown>>({
   contractAddress,
+  chainId,
+  withSessionKey = true,
   onError,
   onLoading,
   onSuccess,
 }: UseExecuteContractArgs<Message>) => {
-  const { data: account } = useAccount();
+  const { data: account } = useAccount({ chainId });
   const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
 
   const mutationFn = (args: ExecuteContractMutationArgs<Message>) => {
     if (!accountAddress) throw new Error("senderAddress is undefined");
@@ -224,12 +285,37 @@ export const useExecuteContract = <Message extends Record<string, unknown>>({
       contractAddress,
       memo: args.memo ?? "",
       funds: args.funds ?? [],
+      chainId,
+      onStatusChange: (tx) => {
+        setTransaction(tx);
+        args.onStatusChange?.(tx);
+      },
     };
 
+    const sessionKey = withSessionKey && !args.granterAddress ? getSessionKey(chainId) : null;
+    if (sessionKey && canExecuteWithSessionKey(sessionKey, contractAddress)) {
+      return executeContract({
+        ...executeArgs,
+        senderAddress: sessionKey.address,
+        granterAddress: accountAddress,
+        feeGranter: args.feeGranter ?? accountAddress,
+        signingClients: sessionKey.signingClients,
+      });
+    }
+
     return executeContract(executeArgs);
   };
 
-  const queryKey = ["USE_EXECUTE_CONTRACT", onError, onLoading, onSuccess, contractAddress, accountAddress];
+  const queryKey = [
+    "USE_EXECUTE_CONTRACT",
+    onError,
+    onLoading,
+    onSuccess,
+    contractAddress,
+    accountAddress,
+    chainId,
+    withSessionKey,
+  ];
   const mutation = useMutation(queryKey, mutationFn, {
     onError: (err, data) => Promise.resolve(onError?.(err, data)),
     onMutate: onLoading,
@@ -243,27 +329,137 @@ export const useExecuteContract = <Message extends Record<string, unknown>>({
     executeContract: mutation.mutate,
     executeContractAsync: mutation.mutateAsync,
     status: mutation.status,
+    transaction,
   };
 };
 
+export type UseSignAndBroadcastArgs = {
+  /**
+   * connected chain id to sign and broadcast on, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<SignAndBroadcastArgs, DeliverTxResponse>;
+
+/**
+ * graz mutation hook to sign and broadcast multiple messages in a single transaction.
+ * Note: if `senderAddress` undefined, it will use current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { buildDelegateMsg, buildWithdrawRewardsMsg, useSignAndBroadcast } from "graz";
+ *
+ * // claim rewards and restake
+ * const { signAndBroadcast } = useSignAndBroadcast();
+ *
+ * signAndBroadcast({
+ *   messages: [
+ *     buildWithdrawRewardsMsg({ delegatorAddress, validatorAddress }),
+ *     buildDelegateMsg({ delegatorAddress, validatorAddress, amount }),
+ *   ],
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link signAndBroadcast}
+ */
+export const useSignAndBroadcast = ({ chainId, onError, onLoading, onSuccess }: UseSignAndBroadcastArgs = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_SIGN_AND_BROADCAST", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: SignAndBroadcastArgs) =>
+      signAndBroadcast({
+        senderAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    signAndBroadcast: mutation.mutate,
+    signAndBroadcastAsync: mutation.mutateAsync,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz query hook to simulate `sendTokens`, `sendIbcTokens`, `instantiateContract` or `executeContract` and
+ * estimate its fee from chain's gas price. Sender address defaults to current connected account address.
+ *
+ * @param args - Simulation args with `type` of the simulated action and optional `gasMultiplier`
+ * @returns A query result with gas used, adjusted gas limit and calculated `StdFee`
+ *
+ * @example
+ * ```ts
+ * import { useEstimateFee } from "graz";
+ *
+ * const { data } = useEstimateFee({
+ *   type: "sendTokens",
+ *   recipientAddress: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+ *   amount: [{ denom: "uatom", amount: "1000" }],
+ *   gasMultiplier: 1.5,
+ * });
+ *
+ * data?.fee; // StdFee
+ * ```
+ */
+export const useEstimateFee = <Message extends Record<string, unknown>, TError = unknown>(
+  args?: SimulateFeeArgs<Message>,
+): UseQueryResult<EstimateFeeResult, TError> => {
+  const { data: account } = useAccount({ chainId: args?.chainId });
+  const senderAddress = args?.senderAddress ?? account?.bech32Address;
+
+  const queryKey = ["USE_ESTIMATE_FEE", args, senderAddress] as const;
+  const query: UseQueryResult<EstimateFeeResult, TError> = useQuery(
+    queryKey,
+    () => {
+      if (!args || !senderAddress) throw new Error("args or senderAddress undefined");
+      return simulateFee<Message>({ ...args, senderAddress });
+    },
+    {
+      enabled: Boolean(args) && Boolean(senderAddress),
+    },
+  );
+
+  return query;
+};
+
 /**
  * graz query hook for dispatching a "smart" query to a CosmWasm smart
  * contract.
  *
  * @param address - The address of the contract to query
  * @param queryMsg - The query message to send to the contract
+ * @param chainId - Optional connected chain id, defaults to active chain
  * @returns A query result with the result returned by the smart contract.
  */
 export const useQuerySmart = <TData, TError>(
   address?: string,
   queryMsg?: Record<string, unknown>,
+  chainId?: string,
 ): UseQueryResult<TData, TError> => {
-  const queryKey = ["USE_QUERY_SMART", address, queryMsg] as const;
+  const queryKey = ["USE_QUERY_SMART", address, queryMsg, chainId] as const;
   const query: UseQueryResult<TData, TError> = useQuery(
     queryKey,
     ({ queryKey: [, _address] }) => {
       if (!address || !queryMsg) throw new Error("address or queryMsg undefined");
-      return getQuerySmart(address, queryMsg);
+      return getQuerySmart(address, queryMsg, chainId);
     },
     {
       enabled: Boolean(address) && Boolean(queryMsg),
@@ -278,15 +474,20 @@ export const useQuerySmart = <TData, TError>(
  *
  * @param address - The address of the contract to query
  * @param key - The key to lookup in the contract storage
+ * @param chainId - Optional connected chain id, defaults to active chain
  * @returns A query result with raw byte array stored at the key queried.
  */
-export const useQueryRaw = <TError>(address?: string, key?: string): UseQueryResult<Uint8Array | null, TError> => {
-  const queryKey = ["USE_QUERY_RAW", key, address] as const;
+export const useQueryRaw = <TError>(
+  address?: string,
+  key?: string,
+  chainId?: string,
+): UseQueryResult<Uint8Array | null, TError> => {
+  const queryKey = ["USE_QUERY_RAW", key, address, chainId] as const;
   const query: UseQueryResult<Uint8Array | null, TError> = useQuery(
     queryKey,
     ({ queryKey: [, _address] }) => {
       if (!address || !key) throw new Error("address or key undefined");
-      return getQueryRaw(address, key);
+      return getQueryRaw(address, key, chainId);
     },
     {
       enabled: Boolean(address) && Boolean(key),
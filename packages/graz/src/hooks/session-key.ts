@@ -0,0 +1,203 @@
+import type { DeliverTxResponse } from "@cosmjs/stargate";
+import { useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+
+import type {
+  CreateSessionKeyArgs,
+  CreateSessionKeyResult,
+  RevokeSessionKeyArgs,
+  UnlockSessionKeyArgs,
+} from "../actions/session-key";
+import { createSessionKey, getStoredSessionKey, revokeSessionKey, unlockSessionKey } from "../actions/session-key";
+import type { GrazSessionKey, GrazTransaction } from "../store";
+import { selectChainSession, useGrazSessionStore } from "../store";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+/**
+ * graz hook to retrieve unlocked session key of connected account, and whether a stored session key is waiting to
+ * be unlocked (e.g. after reload).
+ *
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useSessionKey, useUnlockSessionKey } from "graz";
+ *
+ * const { data: sessionKey, isLocked } = useSessionKey();
+ * const { unlockSessionKey } = useUnlockSessionKey();
+ *
+ * if (isLocked) unlockSessionKey();
+ * ```
+ */
+export const useSessionKey = (chainId?: string) => {
+  const { data: account } = useAccount({ chainId });
+  const sessionChainId = useGrazSessionStore((x) => selectChainSession(x, chainId).chain?.chainId);
+  const sessionKey = useGrazSessionStore((x) =>
+    account && sessionChainId ? x.sessionKeys[`${sessionChainId}:${account.bech32Address}`] : undefined,
+  );
+
+  const data: GrazSessionKey | null = sessionKey && sessionKey.expiration > Date.now() ? sessionKey : null;
+  const stored = account && !data ? getStoredSessionKey(chainId) : null;
+
+  return {
+    data,
+    isLocked: Boolean(stored),
+  };
+};
+
+export type UseSessionKeyArgs<TArgs, TSuccess = DeliverTxResponse> = {
+  /**
+   * connected chain id of the session key, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<TArgs, TSuccess>;
+
+/**
+ * graz mutation hook to generate a session key, grant it authz authorizations and a feegrant allowance from
+ * connected account in a single transaction, and store it encrypted in local storage. `useExecuteContract` signs
+ * with the session key until it expires or is revoked.
+ *
+ * @example
+ * ```ts
+ * import { useCreateSessionKey } from "graz";
+ *
+ * const { createSessionKey } = useCreateSessionKey();
+ *
+ * createSessionKey({
+ *   authorizations: [{ type: "contract", contracts: ["juno1..."], maxCalls: 100 }],
+ *   spendLimit: [{ denom: "ujuno", amount: "100000" }],
+ *   expiration: new Date(Date.now() + 60 * 60 * 1000),
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link createSessionKey}
+ */
+export const useCreateSessionKey = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseSessionKeyArgs<CreateSessionKeyArgs, CreateSessionKeyResult> = {}) => {
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_CREATE_SESSION_KEY", onError, onLoading, onSuccess, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: CreateSessionKeyArgs) =>
+      createSessionKey({
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (result) => Promise.resolve(onSuccess?.(result)),
+    },
+  );
+
+  return {
+    createSessionKey: mutation.mutate,
+    createSessionKeyAsync: mutation.mutateAsync,
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz mutation hook to decrypt stored session key of connected account, e.g. after reload.
+ *
+ * @example
+ * ```ts
+ * import { useUnlockSessionKey } from "graz";
+ *
+ * const { unlockSessionKey } = useUnlockSessionKey();
+ *
+ * unlockSessionKey();
+ * ```
+ *
+ * @see {@link unlockSessionKey}
+ */
+export const useUnlockSessionKey = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseSessionKeyArgs<UnlockSessionKeyArgs | undefined, GrazSessionKey> = {}) => {
+  const queryKey = ["USE_UNLOCK_SESSION_KEY", onError, onLoading, onSuccess, chainId];
+  const mutation = useMutation(queryKey, (args?: UnlockSessionKeyArgs) => unlockSessionKey({ chainId, ...args }), {
+    onError: (err, data) => Promise.resolve(onError?.(err, data)),
+    onMutate: onLoading,
+    onSuccess: (sessionKey) => Promise.resolve(onSuccess?.(sessionKey)),
+  });
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    unlockSessionKey: mutation.mutate,
+    unlockSessionKeyAsync: mutation.mutateAsync,
+  };
+};
+
+/**
+ * graz mutation hook to revoke authz grants and feegrant allowance of connected account's session key, and remove
+ * it from local storage.
+ *
+ * @example
+ * ```ts
+ * import { useRevokeSessionKey } from "graz";
+ *
+ * const { revokeSessionKey } = useRevokeSessionKey();
+ *
+ * revokeSessionKey({ fee: "auto" });
+ * ```
+ *
+ * @see {@link revokeSessionKey}
+ */
+export const useRevokeSessionKey = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseSessionKeyArgs<RevokeSessionKeyArgs> = {}) => {
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_REVOKE_SESSION_KEY", onError, onLoading, onSuccess, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: RevokeSessionKeyArgs) =>
+      revokeSessionKey({
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    revokeSessionKey: mutation.mutate,
+    revokeSessionKeyAsync: mutation.mutateAsync,
+    status: mutation.status,
+    transaction,
+  };
+};
@@ -0,0 +1,362 @@
+import type { DeliverTxResponse } from "@cosmjs/stargate";
+import type { UseQueryResult } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { QueryDelegationTotalRewardsResponse } from "cosmjs-types/cosmos/distribution/v1beta1/query";
+import type { DelegationResponse, UnbondingDelegation } from "cosmjs-types/cosmos/staking/v1beta1/staking";
+import { useState } from "react";
+
+import type {
+  DelegateTokensArgs,
+  RedelegateTokensArgs,
+  UndelegateTokensArgs,
+  WithdrawAllRewardsArgs,
+} from "../actions/staking";
+import {
+  delegateTokens,
+  getDelegations,
+  getPendingRewards,
+  getUnbondingDelegations,
+  redelegateTokens,
+  undelegateTokens,
+  withdrawAllRewards,
+  withdrawRewards,
+} from "../actions/staking";
+import type { GrazTransaction } from "../store";
+import type { MutationEventArgs } from "../types/hooks";
+import { useAccount } from "./account";
+
+export type UseStakingArgs<TArgs> = {
+  /**
+   * connected chain id to stake on, defaults to active chain
+   */
+  chainId?: string;
+} & MutationEventArgs<TArgs, DeliverTxResponse>;
+
+/**
+ * graz mutation hook to delegate tokens to a validator. Note: if `delegatorAddress` undefined, it will use current
+ * connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useDelegate } from "graz";
+ *
+ * const { delegate } = useDelegate();
+ *
+ * delegate({
+ *   validatorAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000000" },
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link delegateTokens}
+ */
+export const useDelegate = ({ chainId, onError, onLoading, onSuccess }: UseStakingArgs<DelegateTokensArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_DELEGATE", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: DelegateTokensArgs) =>
+      delegateTokens({
+        delegatorAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    delegate: mutation.mutate,
+    delegateAsync: mutation.mutateAsync,
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz mutation hook to undelegate tokens from a validator. Note: if `delegatorAddress` undefined, it will use
+ * current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useUndelegate } from "graz";
+ *
+ * const { undelegate } = useUndelegate();
+ *
+ * undelegate({
+ *   validatorAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000000" },
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link undelegateTokens}
+ */
+export const useUndelegate = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseStakingArgs<UndelegateTokensArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_UNDELEGATE", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: UndelegateTokensArgs) =>
+      undelegateTokens({
+        delegatorAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+    undelegate: mutation.mutate,
+    undelegateAsync: mutation.mutateAsync,
+  };
+};
+
+/**
+ * graz mutation hook to redelegate tokens between validators. Note: if `delegatorAddress` undefined, it will use
+ * current connected account address.
+ *
+ * @example
+ * ```ts
+ * import { useRedelegate } from "graz";
+ *
+ * const { redelegate } = useRedelegate();
+ *
+ * redelegate({
+ *   validatorSrcAddress: "cosmosvaloper1...",
+ *   validatorDstAddress: "cosmosvaloper1...",
+ *   amount: { denom: "uatom", amount: "1000000" },
+ *   fee: "auto",
+ * });
+ * ```
+ *
+ * @see {@link redelegateTokens}
+ */
+export const useRedelegate = ({
+  chainId,
+  onError,
+  onLoading,
+  onSuccess,
+}: UseStakingArgs<RedelegateTokensArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_REDELEGATE", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    (args: RedelegateTokensArgs) =>
+      redelegateTokens({
+        delegatorAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      }),
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    redelegate: mutation.mutate,
+    redelegateAsync: mutation.mutateAsync,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+export type ClaimRewardsArgs = WithdrawAllRewardsArgs & {
+  /**
+   * validator to claim rewards from, claims rewards from all delegated validators if undefined
+   */
+  validatorAddress?: string;
+};
+
+/**
+ * graz mutation hook to claim pending staking rewards from a single validator, or from all delegated validators if
+ * `validatorAddress` is undefined. Note: if `delegatorAddress` undefined, it will use current connected account
+ * address.
+ *
+ * @example
+ * ```ts
+ * import { useClaimRewards } from "graz";
+ *
+ * const { claimRewards } = useClaimRewards();
+ *
+ * // claim from single validator
+ * claimRewards({ validatorAddress: "cosmosvaloper1...", fee: "auto" });
+ *
+ * // claim from all validators
+ * claimRewards({ fee: "auto" });
+ * ```
+ *
+ * @see {@link withdrawRewards}
+ * @see {@link withdrawAllRewards}
+ */
+export const useClaimRewards = ({ chainId, onError, onLoading, onSuccess }: UseStakingArgs<ClaimRewardsArgs> = {}) => {
+  const { data: account } = useAccount({ chainId });
+  const accountAddress = account?.bech32Address;
+  const [transaction, setTransaction] = useState<GrazTransaction | null>(null);
+
+  const queryKey = ["USE_CLAIM_REWARDS", onError, onLoading, onSuccess, accountAddress, chainId];
+  const mutation = useMutation(
+    queryKey,
+    ({ validatorAddress, ...args }: ClaimRewardsArgs) => {
+      const claimArgs: WithdrawAllRewardsArgs = {
+        delegatorAddress: accountAddress,
+        chainId,
+        ...args,
+        onStatusChange: (tx) => {
+          setTransaction(tx);
+          args.onStatusChange?.(tx);
+        },
+      };
+      return validatorAddress ? withdrawRewards({ ...claimArgs, validatorAddress }) : withdrawAllRewards(claimArgs);
+    },
+    {
+      onError: (err, data) => Promise.resolve(onError?.(err, data)),
+      onMutate: onLoading,
+      onSuccess: (txResponse) => Promise.resolve(onSuccess?.(txResponse)),
+    },
+  );
+
+  return {
+    claimRewards: mutation.mutate,
+    claimRewardsAsync: mutation.mutateAsync,
+    error: mutation.error,
+    isLoading: mutation.isLoading,
+    isSuccess: mutation.isSuccess,
+    status: mutation.status,
+    transaction,
+  };
+};
+
+/**
+ * graz query hook to retrieve per-validator delegations from current account or given address.
+ *
+ * @param bech32Address - Optional bech32 delegator address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useDelegations } from "graz";
+ *
+ * const { data: delegations, isFetching, refetch, ... } = useDelegations();
+ * ```
+ */
+export const useDelegations = (bech32Address?: string, chainId?: string): UseQueryResult<DelegationResponse[]> => {
+  const { data: account } = useAccount({ chainId });
+  const address = bech32Address || account?.bech32Address;
+
+  const queryKey = ["USE_DELEGATIONS", address, chainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _address, _chainId] }) => getDelegations(_address!, _chainId), {
+    enabled: Boolean(address),
+  });
+
+  return query;
+};
+
+/**
+ * graz query hook to retrieve unbonding delegations (and its entries) from current account or given address.
+ *
+ * @param bech32Address - Optional bech32 delegator address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useUnbondingDelegations } from "graz";
+ *
+ * const { data: unbondings, isFetching, refetch, ... } = useUnbondingDelegations();
+ * ```
+ */
+export const useUnbondingDelegations = (
+  bech32Address?: string,
+  chainId?: string,
+): UseQueryResult<UnbondingDelegation[]> => {
+  const { data: account } = useAccount({ chainId });
+  const address = bech32Address || account?.bech32Address;
+
+  const queryKey = ["USE_UNBONDING_DELEGATIONS", address, chainId] as const;
+  const query = useQuery(
+    queryKey,
+    ({ queryKey: [, _address, _chainId] }) => getUnbondingDelegations(_address!, _chainId),
+    {
+      enabled: Boolean(address),
+    },
+  );
+
+  return query;
+};
+
+/**
+ * graz query hook to retrieve pending staking rewards per validator and in total from current account or given
+ * address.
+ *
+ * @param bech32Address - Optional bech32 delegator address, defaults to connected account address
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { usePendingRewards } from "graz";
+ *
+ * const { data, isFetching, refetch, ... } = usePendingRewards();
+ * const { rewards, total } = data;
+ * ```
+ */
+export const usePendingRewards = (
+  bech32Address?: string,
+  chainId?: string,
+): UseQueryResult<QueryDelegationTotalRewardsResponse> => {
+  const { data: account } = useAccount({ chainId });
+  const address = bech32Address || account?.bech32Address;
+
+  const queryKey = ["USE_PENDING_REWARDS", address, chainId] as const;
+  const query = useQuery(queryKey, ({ queryKey: [, _address, _chainId] }) => getPendingRewards(_address!, _chainId), {
+    enabled: Boolean(address),
+  });
+
+  return query;
+};
@@ -0,0 +1,44 @@
+import { useEffect } from "react";
+
+import { waitForTransaction } from "../actions/transaction";
+import type { GrazTransaction } from "../store";
+import { useGrazSessionStore } from "../store";
+
+/**
+ * graz hook to track lifecycle of a transaction by its hash. Transactions broadcasted by graz are tracked
+ * automatically, other transaction hashes will be polled through the session's Tendermint client.
+ *
+ * @param hash - Transaction hash to track
+ * @param chainId - Optional connected chain id, defaults to active chain
+ *
+ * @example
+ * ```ts
+ * import { useTransaction } from "graz";
+ *
+ * const { data: transaction, isPending, isConfirmed } = useTransaction(hash);
+ * ```
+ */
+export const useTransaction = (hash?: string, chainId?: string) => {
+  const txHash = hash?.toUpperCase();
+  const transaction: GrazTransaction | undefined = useGrazSessionStore((x) =>
+    txHash ? x.transactions[txHash] : undefined,
+  );
+
+  useEffect(() => {
+    if (!txHash) return undefined;
+    const status = useGrazSessionStore.getState().transactions[txHash]?.status;
+    if (status === "confirmed" || status === "failed") return undefined;
+    const controller = new AbortController();
+    waitForTransaction(txHash, chainId, undefined, controller.signal).catch(() => null);
+    return () => controller.abort();
+  }, [txHash, chainId]);
+
+  return {
+    data: transaction,
+    error: transaction?.error,
+    isConfirmed: transaction?.status === "confirmed",
+    isFailed: transaction?.status === "failed",
+    isPending: transaction?.status === "pending",
+    status: transaction?.status,
+  };
+};
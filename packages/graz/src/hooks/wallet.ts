@@ -3,7 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import { shallow } from "zustand/shallow";
 
 import { checkWallet } from "../actions/wallet";
-import { useGrazInternalStore } from "../store";
+import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import type { WalletId } from "../types/wallet";
 import { WalletType } from "../types/wallet";
 
 /**
@@ -43,7 +44,7 @@ export const useActiveWalletType = () => {
  * const { data: isKeplrSupported } = useCheckWallet("keplr");
  * ```
  */
-export const useCheckWallet = (type?: WalletType): UseQueryResult<boolean> => {
+export const useCheckWallet = (type?: WalletId): UseQueryResult<boolean> => {
   const walletType = useGrazInternalStore((x) => type || x.walletType);
 
   const queryKey = ["USE_CHECK_WALLET", walletType] as const;
@@ -51,3 +52,19 @@ export const useCheckWallet = (type?: WalletType): UseQueryResult<boolean> => {
 
   return query;
 };
+
+/**
+ * graz hook to retrieve chain ids approved by the current WalletConnect session, connecting to any of these chains
+ * reuses the session without pairing again
+ *
+ * @example
+ * ```ts
+ * import { useWalletConnectChainIds } from "graz";
+ *
+ * const chainIds = useWalletConnectChainIds();
+ * const canSwitch = chainIds.includes("juno-1");
+ * ```
+ */
+export const useWalletConnectChainIds = (): string[] => {
+  return useGrazSessionStore((x) => x.wcChainIds);
+};
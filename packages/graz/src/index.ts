@@ -1,16 +1,36 @@
 export * from "./actions/account";
+export * from "./actions/arbitrary";
+export * from "./actions/authz";
 export * from "./actions/chains";
 export * from "./actions/clients";
 export * from "./actions/configure";
+export * from "./actions/events";
+export * from "./actions/feegrant";
+export * from "./actions/gov";
+export * from "./actions/ibc";
+export * from "./actions/messages";
 export * from "./actions/methods";
+export * from "./actions/session-key";
+export * from "./actions/staking";
+export * from "./actions/transaction";
 export * from "./actions/wallet";
 export * from "./adapter";
+export * from "./adr36";
 export * from "./chains";
 export * from "./hooks/account";
+export * from "./hooks/arbitrary";
+export * from "./hooks/authz";
 export * from "./hooks/chains";
 export * from "./hooks/clients";
 export * from "./hooks/clients/tendermint";
+export * from "./hooks/events";
+export * from "./hooks/feegrant";
+export * from "./hooks/gov";
+export * from "./hooks/ibc";
 export * from "./hooks/methods";
+export * from "./hooks/session-key";
+export * from "./hooks/staking";
+export * from "./hooks/transaction";
 export * from "./hooks/wallet";
 export * from "./provider";
 export * from "./provider/events";
@@ -2,75 +2,38 @@ import type { FC } from "react";
 import { useEffect } from "react";
 
 import { reconnect } from "../actions/account";
-import { getCosmostation, getKeplr, getLeap, getVectis, getWalletConnect } from "../actions/wallet";
+import { hydrateGraz } from "../actions/configure";
 import { RECONNECT_SESSION_KEY } from "../constant";
 import { useGrazInternalStore, useGrazSessionStore } from "../store";
-import { WalletType } from "../types/wallet";
 
 /**
- * Graz custom hook to track `keplr_keystorechange`, `leap_keystorechange`, `accountChanged` event and reconnect state
+ * Graz custom hook to hydrate persisted state and reconnect on refresh. Wallet account changes are tracked by
+ * `connect` and emitted through `grazEvents`.
  *
  * **Note: only use this hook if not using graz's provider component.**
  */
 export const useGrazEvents = () => {
-  const isSessionActive =
-    typeof window !== "undefined" && window.sessionStorage.getItem(RECONNECT_SESSION_KEY) === "Active";
-  const { _reconnect, _onReconnectFailed, _reconnectConnector } = useGrazInternalStore();
-  const { activeChain, wcSignClient } = useGrazSessionStore();
-
-  useEffect(() => {
-    // will reconnect on refresh
-    if (_reconnectConnector) {
-      if (isSessionActive && Boolean(activeChain)) {
-        void reconnect({
-          onError: _onReconnectFailed,
-        });
-        // only reconnect if session is active and autoReconnect from grazOptions is true
-      } else if (!isSessionActive && _reconnect) {
-        void reconnect({
-          onError: _onReconnectFailed,
-        });
-      }
-    }
-
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
   useEffect(() => {
-    if (_reconnectConnector) {
-      if (_reconnectConnector === WalletType.COSMOSTATION) {
-        getCosmostation().subscription?.(() => {
-          void reconnect({
-            onError: _onReconnectFailed,
-          });
-        });
-      }
-      if (_reconnectConnector === WalletType.KEPLR) {
-        getKeplr().subscription?.(() => {
-          void reconnect({ onError: _onReconnectFailed });
-        });
-      }
-      if (_reconnectConnector === WalletType.LEAP) {
-        getLeap().subscription?.(() => {
-          void reconnect({ onError: _onReconnectFailed });
-        });
-      }
-      if (_reconnectConnector === WalletType.VECTIS) {
-        getVectis().subscription?.(() => {
-          void reconnect({ onError: _onReconnectFailed });
-        });
-      }
-      if (_reconnectConnector === WalletType.WALLETCONNECT) {
-        if (wcSignClient) {
-          getWalletConnect().subscription?.(() => {
-            void reconnect({ onError: _onReconnectFailed });
-          });
+    void hydrateGraz().then(() => {
+      const isSessionActive = window.sessionStorage.getItem(RECONNECT_SESSION_KEY) === "Active";
+      const {
+        _reconnect,
+        _reconnectConnector: connector,
+        _onReconnectFailed: onError,
+      } = useGrazInternalStore.getState();
+      const { activeChain } = useGrazSessionStore.getState();
+
+      // will reconnect on refresh
+      if (connector) {
+        if (isSessionActive && Boolean(activeChain)) {
+          void reconnect({ onError });
+          // only reconnect if session is active and autoReconnect from grazOptions is true
+        } else if (!isSessionActive && _reconnect) {
+          void reconnect({ onError });
         }
       }
-    }
-
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [_reconnectConnector, wcSignClient]);
+    });
+  }, []);
 
   return null;
 };
@@ -2,9 +2,19 @@ import type { QueryClientProviderProps } from "@tanstack/react-query";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
 import type { FC } from "react";
+import { useState } from "react";
 
 import type { ConfigureGrazArgs } from "../actions/configure";
 import { configureGraz } from "../actions/configure";
+import type { GrazStores } from "../store";
+import {
+  createGrazInternalStore,
+  createGrazSessionStore,
+  grazSessionServerState,
+  GrazStoresContext,
+  useGrazInternalStore,
+  useGrazSessionStore,
+} from "../store";
 import { ClientOnly } from "./client-only";
 import { GrazEvents } from "./events";
 
@@ -15,6 +25,11 @@ const queryClient = new QueryClient({
 export type GrazProviderProps = Partial<QueryClientProviderProps> & {
   grazOptions?: ConfigureGrazArgs;
   debug?: boolean;
+  /**
+   * render children on the server, hooks return disconnected state with `"hydrating"` status on the server and during
+   * client hydration. Defaults to false, which renders children only on the client.
+   */
+  ssr?: boolean;
 };
 
 /**
@@ -31,21 +46,43 @@ export type GrazProviderProps = Partial<QueryClientProviderProps> & {
  *     </GrazProvider>
  *   );
  * }
+ *
+ * // render children on the server
+ * <GrazProvider ssr>
+ *   <Component {...pageProps} />
+ * </GrazProvider>
  * ```
  *
  * @see https://tanstack.com/query
  */
-export const GrazProvider: FC<GrazProviderProps> = ({ children, grazOptions, debug, ...props }) => {
-  if (grazOptions) {
+export const GrazProvider: FC<GrazProviderProps> = ({ children, grazOptions, debug, ssr, ...props }) => {
+  // each server render gets its own stores, so no state is shared between requests. On the client hooks read the
+  // module stores written by actions
+  const isServer = typeof window === "undefined";
+  const [client] = useState(() => (isServer ? new QueryClient() : queryClient));
+  const [stores] = useState<GrazStores>(() => ({
+    session: isServer ? createGrazSessionStore(grazSessionServerState) : useGrazSessionStore,
+    internal: isServer ? createGrazInternalStore() : useGrazInternalStore,
+    ssr: Boolean(ssr),
+  }));
+
+  if (grazOptions && !isServer) {
     configureGraz(grazOptions);
   }
+
+  const content = (
+    <>
+      <GrazEvents />
+      {children}
+    </>
+  );
+
   return (
-    <QueryClientProvider key="graz-provider" client={queryClient} {...props}>
-      <ClientOnly>
-        <GrazEvents />
-        {children}
-      </ClientOnly>
-      {debug ? <ReactQueryDevtools initialIsOpen={false} position="bottom-right" /> : null}
-    </QueryClientProvider>
+    <GrazStoresContext.Provider value={stores}>
+      <QueryClientProvider key="graz-provider" client={client} {...props}>
+        {ssr ? content : <ClientOnly>{content}</ClientOnly>}
+        {debug ? <ReactQueryDevtools initialIsOpen={false} position="bottom-right" /> : null}
+      </QueryClientProvider>
+    </GrazStoresContext.Provider>
   );
 };
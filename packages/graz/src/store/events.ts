@@ -0,0 +1,39 @@
+import type { GrazChain } from "../chains";
+import type { WalletId } from "../types/wallet";
+import type { GrazTransaction } from ".";
+
+export interface GrazEventMap {
+  /**
+   * wallet account changed, emitted before graz reconnects the new account
+   */
+  accountChanged: { walletType: WalletId };
+  /**
+   * active chain changed to another connected chain
+   */
+  chainChanged: { chain: GrazChain; previousChain: GrazChain };
+  connected: { walletType: WalletId; chain: GrazChain; chains: GrazChain[] };
+  disconnected: undefined;
+  reconnectFailed: { error: unknown };
+  /**
+   * transaction broadcasted and waiting to be included in a block
+   */
+  txBroadcast: GrazTransaction;
+  txConfirmed: GrazTransaction;
+}
+
+export type GrazEventName = keyof GrazEventMap;
+
+export type GrazEventHandler<T extends GrazEventName> = (payload: GrazEventMap[T]) => void;
+
+export const grazEventListeners = new Map<GrazEventName, Set<GrazEventHandler<never>>>();
+
+export const emitGrazEvent = <T extends GrazEventName>(name: T, payload: GrazEventMap[T]) => {
+  // copy listeners so `once` handlers can remove themselves while emitting
+  [...(grazEventListeners.get(name) || [])].forEach((handler) => {
+    try {
+      (handler as GrazEventHandler<T>)(payload);
+    } catch (error) {
+      console.error(`graz ${name} event handler`, error);
+    }
+  });
+};
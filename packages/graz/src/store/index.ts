@@ -1,60 +1,246 @@
 import type { CosmWasmClient, SigningCosmWasmClient } from "@cosmjs/cosmwasm-stargate";
 import type { Coin, OfflineDirectSigner, OfflineSigner } from "@cosmjs/proto-signing";
-import type { SigningStargateClient, StargateClient } from "@cosmjs/stargate";
+import type { DeliverTxResponse, SigningStargateClient, StargateClient } from "@cosmjs/stargate";
 import type { Tendermint34Client } from "@cosmjs/tendermint-rpc";
 import type { Key } from "@keplr-wallet/types";
 import type { ISignClient, SignClientTypes } from "@walletconnect/types";
 import type { Web3ModalConfig } from "@web3modal/standalone";
-import { create } from "zustand";
+import { createContext, useContext } from "react";
+import type { StoreApi, UseBoundStore } from "zustand";
+import { createStore, useStore } from "zustand";
 import type { PersistOptions } from "zustand/middleware";
 import { createJSONStorage } from "zustand/middleware";
 import { persist, subscribeWithSelector } from "zustand/middleware";
 
-import type { GrazChain } from "../chains";
+import type { GrazAdapter } from "../adapter";
+import type { GrazChain, GrazIbcChannel } from "../chains";
+import type { WalletId } from "../types/wallet";
 import { WalletType } from "../types/wallet";
 
 export interface WalletConnectStore {
   options: SignClientTypes.Options | null;
+  /**
+   * chains requested as optional namespaces when pairing, in addition to the connecting chains. Switching to any
+   * approved chain reuses the session without pairing again
+   */
+  chains?: GrazChain[] | null;
   web3Modal?: Pick<Web3ModalConfig, "themeVariables" | "themeMode" | "privacyPolicyUrl" | "termsOfServiceUrl"> | null;
+  /**
+   * called with pairing uri to render custom QR code or deep link, web3modal is not loaded if set
+   */
+  onUri?: (uri: string) => void;
+  /**
+   * called when pending pairing is approved, rejected, timed out or cancelled
+   */
+  onApprovalComplete?: () => void;
+  /**
+   * milliseconds to wait for pairing approval, defaults to 40000
+   */
+  approvalTimeout?: number;
+  /**
+   * milliseconds to wait for account requests of an existing session, defaults to 10000
+   */
+  requestTimeout?: number;
 }
+/**
+ * Development wallet keys used by `WalletType.LOCAL`, either `mnemonic` or `privateKey` must be set
+ */
+export interface LocalWalletOptions {
+  mnemonic?: string;
+  /**
+   * hex encoded or raw secp256k1 private key
+   */
+  privateKey?: string | Uint8Array;
+  /**
+   * HD derivation path used with `mnemonic`, defaults to `"m/44'/118'/0'/0/0"`
+   */
+  hdPath?: string;
+  bip39Password?: string;
+  /**
+   * bech32 prefix of accounts, either a single prefix or a record of prefixes keyed by chain id. Defaults to
+   * `bech32Config` of the connecting chain
+   */
+  prefix?: string | Record<string, string>;
+}
+
+/**
+ * Transport to a Ledger device, e.g. created with `@ledgerhq/hw-transport-webhid` or `@ledgerhq/hw-transport-webusb`
+ */
+export interface LedgerTransport {
+  send: (cla: number, ins: number, p1: number, p2: number, data?: Buffer, statusList?: number[]) => Promise<Buffer>;
+  decorateAppAPIMethods: (self: object, methods: string[], scrambleKey: string) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * Ledger connection options used by `WalletType.LEDGER`
+ */
+export interface LedgerOptions {
+  /**
+   * function to open a transport to the device, e.g. a mock transport in tests. Defaults to WebHID through
+   * `@ledgerhq/hw-transport-webhid`, which needs to be installed
+   */
+  transport?: () => Promise<LedgerTransport>;
+  /**
+   * account index of HD path `m/44'/{coinType}'/0'/0/{accountIndex}`, defaults to 0. Coin type is taken from `bip44`
+   * of the connecting chain, defaults to 118
+   */
+  accountIndex?: number;
+  /**
+   * bech32 prefix of accounts, either a single prefix or a record of prefixes keyed by chain id. Defaults to
+   * `bech32Config` of the connecting chain
+   */
+  prefix?: string | Record<string, string>;
+  /**
+   * allow Cosmos app running in test mode
+   */
+  testModeAllowed?: boolean;
+}
+
+/**
+ * Overrides creation of (signing) clients when connecting, e.g. to use in-memory clients from `graz/testing`
+ */
+export interface GrazClientsFactory {
+  createClients: (chain: GrazChain) => Promise<GrazClients>;
+  createSigningClients: (
+    chain: GrazChain,
+    offlineSignerAuto: OfflineSigner | OfflineDirectSigner,
+  ) => Promise<GrazSigningClients>;
+}
+
 export interface GrazInternalStore {
+  adapters: GrazAdapter[];
   defaultChain: GrazChain | null;
   defaultSigningClient: "cosmWasm" | "stargate";
   recentChain: GrazChain | null;
-  walletType: WalletType;
+  recentChains: GrazChain[] | null;
+  walletType: WalletId;
   walletConnect: WalletConnectStore | null;
+  localWallet: LocalWalletOptions | null;
+  ledger: LedgerOptions | null;
+  /**
+   * address paying fees of all transactions through feegrant allowance, unless overridden per call
+   */
+  feeGranter: string | null;
+  /**
+   * IBC transfer channels taking precedence over `mainnetIbcChannels`
+   */
+  ibcChannels: GrazIbcChannel[] | null;
+  _clientsFactory: GrazClientsFactory | null;
+  /**
+   * overrides creation of WalletConnect sign client, e.g. to use the stand-in peer from `graz/testing`
+   */
+  _signClientFactory: ((options: SignClientTypes.Options) => Promise<ISignClient>) | null;
   _notFoundFn: () => void;
   _reconnect: boolean;
-  _reconnectConnector: WalletType | null;
+  _reconnectConnector: WalletId | null;
   _onReconnectFailed: () => void;
 }
 
+export interface GrazClients {
+  cosmWasm: CosmWasmClient;
+  stargate: StargateClient;
+  tendermint: Tendermint34Client;
+}
+
+export interface GrazSigningClients {
+  cosmWasm: SigningCosmWasmClient;
+  stargate: SigningStargateClient;
+}
+
+/**
+ * Connected account, clients and signers of a single chain
+ */
+export interface GrazChainSession {
+  account: Key | null;
+  chain: GrazChain | null;
+  clients: GrazClients | null;
+  offlineSigner: (OfflineSigner & OfflineDirectSigner) | null;
+  offlineSignerAmino: OfflineSigner | null;
+  offlineSignerAuto: (OfflineSigner | OfflineDirectSigner) | null;
+  signingClients: GrazSigningClients | null;
+}
+
+/**
+ * Unlocked session key, an ephemeral account executing messages on behalf of `granterAddress` through authz and
+ * paying fees through feegrant
+ */
+export interface GrazSessionKey {
+  address: string;
+  granterAddress: string;
+  chainId: string;
+  /**
+   * expiration of the grants as unix timestamp in milliseconds
+   */
+  expiration: number;
+  /**
+   * message type urls granted to the session key
+   */
+  msgTypeUrls: string[];
+  /**
+   * contracts the session key is allowed to execute, any contract if undefined
+   */
+  contracts?: string[];
+  signer: OfflineDirectSigner;
+  signingClients: GrazSigningClients;
+}
+
+export type GrazTransactionStatus = "signing" | "broadcasting" | "pending" | "confirmed" | "failed";
+
+/**
+ * Lifecycle state of a transaction, `hash` is available once the transaction is broadcasted
+ */
+export interface GrazTransaction {
+  chainId: string;
+  error?: unknown;
+  hash?: string;
+  response?: DeliverTxResponse;
+  status: GrazTransactionStatus;
+}
+
 export interface GrazSessionStore {
   account: Key | null;
   activeChain: GrazChain | null;
   balances: Coin[] | null;
-  clients: {
-    cosmWasm: CosmWasmClient;
-    stargate: StargateClient;
-    tendermint: Tendermint34Client;
-  } | null;
+  clients: GrazClients | null;
   offlineSigner: (OfflineSigner & OfflineDirectSigner) | null;
   offlineSignerAmino: OfflineSigner | null;
   offlineSignerAuto: (OfflineSigner | OfflineDirectSigner) | null;
-  signingClients: {
-    cosmWasm: SigningCosmWasmClient;
-    stargate: SigningStargateClient;
-  } | null;
-  status: "connected" | "connecting" | "reconnecting" | "disconnected";
+  /**
+   * connected chain sessions keyed by chain id, including the active chain
+   */
+  sessions: Record<string, GrazChainSession>;
+  signingClients: GrazSigningClients | null;
+  /**
+   * `"hydrating"` on the server and during client hydration of `GrazProvider` with `ssr`
+   */
+  status: "connected" | "connecting" | "reconnecting" | "disconnected" | "hydrating";
+  /**
+   * unlocked session keys keyed by chain id and granter address, see `getSessionKey`
+   */
+  sessionKeys: Record<string, GrazSessionKey>;
+  /**
+   * broadcasted transactions keyed by transaction hash
+   */
+  transactions: Record<string, GrazTransaction>;
   wcSignClient?: ISignClient | null;
+  /**
+   * chain ids approved by the current WalletConnect session
+   */
+  wcChainIds: string[];
 }
 
 export type GrazSessionPersistedStore = Pick<GrazSessionStore, "account" | "activeChain">;
 
-export type GrazInternalPersistedStore = Pick<GrazInternalStore, "recentChain" | "_reconnect" | "_reconnectConnector">;
+export type GrazInternalPersistedStore = Pick<
+  GrazInternalStore,
+  "recentChain" | "recentChains" | "_reconnect" | "_reconnectConnector"
+>;
 
 export const grazInternalDefaultValues: GrazInternalStore = {
+  adapters: [],
   recentChain: null,
+  recentChains: null,
   defaultChain: null,
   defaultSigningClient: "stargate",
   walletType: WalletType.KEPLR,
@@ -62,6 +248,12 @@ export const grazInternalDefaultValues: GrazInternalStore = {
     options: null,
     web3Modal: null,
   },
+  localWallet: null,
+  ledger: null,
+  feeGranter: null,
+  ibcChannels: null,
+  _clientsFactory: null,
+  _signClientFactory: null,
   _notFoundFn: () => null,
   _onReconnectFailed: () => null,
   _reconnect: false,
@@ -76,14 +268,27 @@ export const grazSessionDefaultValues: GrazSessionStore = {
   offlineSigner: null,
   offlineSignerAmino: null,
   offlineSignerAuto: null,
+  sessions: {},
+  sessionKeys: {},
   signingClients: null,
   status: "disconnected",
+  transactions: {},
   wcSignClient: null,
+  wcChainIds: [],
+};
+
+/**
+ * Session state used on the server and during client hydration of `GrazProvider` with `ssr`
+ */
+export const grazSessionServerState: GrazSessionStore = {
+  ...grazSessionDefaultValues,
+  status: "hydrating",
 };
 
 const sessionOptions: PersistOptions<GrazSessionStore, GrazSessionPersistedStore> = {
   name: "graz-session",
   version: 1,
+  skipHydration: true,
   partialize: (x) => ({
     account: x.account,
     activeChain: x.activeChain,
@@ -93,18 +298,104 @@ const sessionOptions: PersistOptions<GrazSessionStore, GrazSessionPersistedStore
 
 const persistOptions: PersistOptions<GrazInternalStore, GrazInternalPersistedStore> = {
   name: "graz-internal",
+  skipHydration: true,
   partialize: (x) => ({
     recentChain: x.recentChain,
+    recentChains: x.recentChains,
     _reconnect: x._reconnect,
     _reconnectConnector: x._reconnectConnector,
   }),
   version: 1,
 };
 
-export const useGrazSessionStore = create(
-  subscribeWithSelector(persist(() => grazSessionDefaultValues, sessionOptions)),
+/**
+ * Function to select session of given chain id from session store, falls back to active chain session if chain id is
+ * not given or matches the active chain. Returns empty session if given chain is not connected.
+ */
+export const selectChainSession = (state: GrazSessionStore, chainId?: string): GrazChainSession => {
+  if (!chainId || chainId === state.activeChain?.chainId) {
+    return {
+      account: state.account,
+      chain: state.activeChain,
+      clients: state.clients,
+      offlineSigner: state.offlineSigner,
+      offlineSignerAmino: state.offlineSignerAmino,
+      offlineSignerAuto: state.offlineSignerAuto,
+      signingClients: state.signingClients,
+    };
+  }
+  return (
+    state.sessions[chainId] || {
+      account: null,
+      chain: null,
+      clients: null,
+      offlineSigner: null,
+      offlineSignerAmino: null,
+      offlineSignerAuto: null,
+      signingClients: null,
+    }
+  );
+};
+
+/**
+ * Function to create a session store, persisted state is hydrated explicitly after mount (see `hydrateGraz`)
+ */
+export const createGrazSessionStore = (initialState: GrazSessionStore = grazSessionDefaultValues) =>
+  createStore<GrazSessionStore>()(subscribeWithSelector(persist(() => initialState, sessionOptions)));
+
+/**
+ * Function to create an internal store, persisted state is hydrated explicitly after mount (see `hydrateGraz`)
+ */
+export const createGrazInternalStore = (initialState: GrazInternalStore = grazInternalDefaultValues) =>
+  createStore<GrazInternalStore>()(subscribeWithSelector(persist(() => initialState, persistOptions)));
+
+export type GrazSessionStoreApi = ReturnType<typeof createGrazSessionStore>;
+
+export type GrazInternalStoreApi = ReturnType<typeof createGrazInternalStore>;
+
+/**
+ * Stores read by hooks below `GrazProvider`
+ */
+export interface GrazStores {
+  session: GrazSessionStoreApi;
+  internal: GrazInternalStoreApi;
+  /**
+   * read server state during client hydration, so server and client renders match
+   */
+  ssr: boolean;
+}
+
+export const GrazStoresContext = createContext<GrazStores | null>(null);
+
+const identity = <T>(state: T) => state;
+const getSessionServerState = () => grazSessionServerState;
+const getInternalServerState = () => grazInternalDefaultValues;
+
+// hooks read stores of the closest provider, falling back to the module stores also used by actions
+const bindStore = <T, S extends StoreApi<T>>(
+  api: S,
+  select: (stores: GrazStores) => S,
+  getServerState: () => T,
+): UseBoundStore<S> => {
+  const useBoundStore = <U>(
+    selector: (state: T) => U = identity as (state: T) => U,
+    equalityFn?: (a: U, b: U) => boolean,
+  ) => {
+    const stores = useContext(GrazStoresContext);
+    const storeApi: StoreApi<T> = stores ? select(stores) : api;
+    return useStore(stores?.ssr ? { ...storeApi, getServerState } : storeApi, selector, equalityFn);
+  };
+  return Object.assign(useBoundStore, api) as UseBoundStore<S>;
+};
+
+export const useGrazSessionStore = bindStore(
+  createGrazSessionStore(),
+  (stores) => stores.session,
+  getSessionServerState,
 );
 
-export const useGrazInternalStore = create(
-  subscribeWithSelector(persist(() => grazInternalDefaultValues, persistOptions)),
+export const useGrazInternalStore = bindStore(
+  createGrazInternalStore(),
+  (stores) => stores.internal,
+  getInternalServerState,
 );
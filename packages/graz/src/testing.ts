@@ -0,0 +1,6 @@
+export * from "./testing/clients";
+export * from "./testing/ledger";
+export * from "./testing/render";
+export * from "./testing/store";
+export * from "./testing/wallet";
+export * from "./testing/walletconnect";
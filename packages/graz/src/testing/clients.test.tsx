@@ -0,0 +1,74 @@
+import { cleanup, fireEvent, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { connect } from "../actions/account";
+import { mainnetChains } from "../chains";
+import { useBalances } from "../hooks/account";
+import { useQuerySmart, useSendTokens } from "../hooks/methods";
+import { installMockChain } from "./clients";
+import { renderWithGraz } from "./render";
+import { resetGrazStores } from "./store";
+import { getMockAddress, installMockWallet } from "./wallet";
+
+const RECIPIENT_ADDRESS = "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430";
+
+const CONTRACT_ADDRESS = "cosmos14hj2tavq8fpesdwxxcu44rty3hh90vhujrvcmstl4zr3txmfvw9s4hmalr";
+
+const chain = { ...mainnetChains.cosmoshub, gas: { price: "0.025", denom: "uatom" } };
+
+const Balances = () => {
+  const { data: balances } = useBalances();
+  const { sendTokens, transaction } = useSendTokens();
+  return (
+    <>
+      <span>{balances?.map((x) => `${x.amount}${x.denom}`).join(",") ?? "loading"}</span>
+      <button
+        onClick={() =>
+          sendTokens({ recipientAddress: RECIPIENT_ADDRESS, amount: [{ denom: "uatom", amount: "100" }], fee: "auto" })
+        }
+        type="button"
+      >
+        Send
+      </button>
+      {transaction ? <span>{transaction.status}</span> : null}
+    </>
+  );
+};
+
+const Counter = () => {
+  const { data } = useQuerySmart<{ count: number }, Error>(CONTRACT_ADDRESS, { get_count: {} });
+  return <span>{data ? `count ${data.count}` : "loading"}</span>;
+};
+
+describe("installMockChain", () => {
+  afterEach(() => {
+    cleanup();
+    resetGrazStores();
+  });
+
+  it("serves balances and applies sent tokens", async () => {
+    const address = await getMockAddress();
+    const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+    installMockWallet();
+    await connect({ chain });
+    const { findByText, getByRole } = renderWithGraz(<Balances />);
+
+    expect(await findByText("1000uatom")).toBeTruthy();
+
+    fireEvent.click(getByRole("button", { name: "Send" }));
+
+    expect(await findByText("confirmed")).toBeTruthy();
+    expect(mockChain.getBalances(address)).toEqual([{ denom: "uatom", amount: "900" }]);
+    expect(mockChain.getBalances(RECIPIENT_ADDRESS)).toEqual([{ denom: "uatom", amount: "100" }]);
+    expect(mockChain.transactions).toHaveLength(1);
+  });
+
+  it("serves smart contract queries", async () => {
+    installMockChain({ contracts: { [CONTRACT_ADDRESS]: { smart: () => ({ count: 7 }) } } });
+    installMockWallet();
+    await connect({ chain });
+    const { findByText } = renderWithGraz(<Counter />);
+
+    await waitFor(async () => expect(await findByText("count 7")).toBeTruthy());
+  });
+});
@@ -0,0 +1,345 @@
+import type { Coin } from "@cosmjs/amino";
+import { makeSignDoc as makeAminoSignDoc } from "@cosmjs/amino";
+import { createWasmAminoConverters } from "@cosmjs/cosmwasm-stargate";
+import { sha256 } from "@cosmjs/crypto";
+import { fromBase64, toHex } from "@cosmjs/encoding";
+import type { EncodeObject, OfflineDirectSigner, OfflineSigner } from "@cosmjs/proto-signing";
+import { makeSignDoc, Registry } from "@cosmjs/proto-signing";
+import type { StdFee } from "@cosmjs/stargate";
+import { AminoTypes, createDefaultAminoConverters, defaultRegistryTypes } from "@cosmjs/stargate";
+import type { BroadcastTxSyncResponse, TxResponse } from "@cosmjs/tendermint-rpc";
+import type { MsgSend } from "cosmjs-types/cosmos/bank/v1beta1/tx";
+import { AuthInfo, TxBody, TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { MsgExecuteContract, MsgInstantiateContract } from "cosmjs-types/cosmwasm/wasm/v1/tx";
+import { QueryDenomTraceRequest, QueryDenomTraceResponse } from "cosmjs-types/ibc/applications/transfer/v1/query";
+// eslint-disable-next-line import/no-named-as-default
+import Long from "long";
+
+import type { GrazChain } from "../chains";
+import type { GrazClients, GrazClientsFactory, GrazSigningClients } from "../store";
+import { useGrazInternalStore } from "../store";
+
+export interface MockContract {
+  /**
+   * handler of smart queries, receives the query message
+   */
+  smart?: (msg: Record<string, unknown>) => unknown;
+  /**
+   * raw contract state keyed by hex encoded key
+   */
+  raw?: Record<string, Uint8Array>;
+}
+
+export interface MockDeliverTxResult {
+  code?: number;
+  log?: string;
+}
+
+export interface MockTransaction {
+  hash: string;
+  height: number;
+  chainId: string;
+  messages: EncodeObject[];
+  memo: string;
+  /**
+   * fee granter of the transaction, if any
+   */
+  feeGranter?: string;
+  code: number;
+  log: string;
+}
+
+export interface MockChainOptions {
+  /**
+   * bank balances keyed by bech32 address
+   */
+  balances?: Record<string, Coin[]>;
+  /**
+   * staked balances keyed by bech32 address
+   */
+  stakedBalances?: Record<string, Coin>;
+  /**
+   * contracts keyed by contract address
+   */
+  contracts?: Record<string, MockContract>;
+  /**
+   * IBC denom traces keyed by ibc denom, e.g. `"ibc/27394FB0..."`
+   */
+  denomTraces?: Record<string, { path: string; baseDenom: string }>;
+  /**
+   * gas used returned by simulations, defaults to 100000
+   */
+  gasUsed?: number;
+  /**
+   * scripts the result of broadcasted transactions, successful by default
+   */
+  deliverTx?: (tx: { chainId: string; messages: EncodeObject[]; memo: string }) => MockDeliverTxResult | undefined;
+}
+
+export interface MockChain {
+  clientsFactory: GrazClientsFactory;
+  /**
+   * broadcasted transactions, in order
+   */
+  transactions: MockTransaction[];
+  getBalances: (address: string) => Coin[];
+  setBalances: (address: string, coins: Coin[]) => void;
+  /**
+   * stop using the in-memory clients when connecting
+   */
+  uninstall: () => void;
+}
+
+const DEFAULT_GAS_USED = 100_000;
+
+const registry = new Registry([
+  ...defaultRegistryTypes,
+  ["/cosmwasm.wasm.v1.MsgExecuteContract", MsgExecuteContract],
+  ["/cosmwasm.wasm.v1.MsgInstantiateContract", MsgInstantiateContract],
+]);
+
+const aminoTypes = new AminoTypes({ ...createDefaultAminoConverters(), ...createWasmAminoConverters() });
+
+/**
+ * Function to create in-memory stand-ins of graz clients, which serve balances, contract queries, simulations and
+ * broadcasts without any network requests. Broadcasted bank sends are applied to balances.
+ *
+ * Queries using `QueryClient` extensions (staking, governance, etc.) are not supported, except IBC denom traces.
+ *
+ * @example
+ * ```ts
+ * import { createMockChain } from "graz/testing";
+ *
+ * const mockChain = createMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+ * useGrazInternalStore.setState({ _clientsFactory: mockChain.clientsFactory });
+ * ```
+ */
+export const createMockChain = ({
+  balances = {},
+  stakedBalances = {},
+  contracts = {},
+  denomTraces = {},
+  gasUsed = DEFAULT_GAS_USED,
+  deliverTx,
+}: MockChainOptions = {}): MockChain => {
+  const state = new Map(Object.entries(balances).map(([address, coins]) => [address, coins.map((x) => ({ ...x }))]));
+  const transactions: MockTransaction[] = [];
+  const results = new Map<string, TxResponse>();
+  let height = 1;
+
+  const getBalances = (address: string) => state.get(address) || [];
+  const setBalances = (address: string, coins: Coin[]) => {
+    state.set(address, coins);
+  };
+
+  const transfer = (from: string, to: string, amount: Coin[]): MockDeliverTxResult | undefined => {
+    const fromBalances = getBalances(from);
+    const missing = amount.find((coin) => {
+      const balance = fromBalances.find((x) => x.denom === coin.denom);
+      return !balance || BigInt(balance.amount) < BigInt(coin.amount);
+    });
+    if (missing) return { code: 5, log: `insufficient funds: ${missing.amount}${missing.denom}` };
+
+    const add = (coins: Coin[], coin: Coin, sign: bigint) => {
+      const current = coins.find((x) => x.denom === coin.denom)?.amount || "0";
+      const next = { denom: coin.denom, amount: (BigInt(current) + sign * BigInt(coin.amount)).toString() };
+      return [...coins.filter((x) => x.denom !== coin.denom), next];
+    };
+    amount.forEach((coin) => {
+      setBalances(from, add(getBalances(from), coin, -1n));
+      setBalances(to, add(getBalances(to), coin, 1n));
+    });
+    return undefined;
+  };
+
+  const broadcast = (chainId: string, tx: Uint8Array): BroadcastTxSyncResponse => {
+    const { bodyBytes, authInfoBytes } = TxRaw.decode(tx);
+    const body = TxBody.decode(bodyBytes);
+    const feeGranter = AuthInfo.decode(authInfoBytes).fee?.granter || undefined;
+    const messages: EncodeObject[] = body.messages.map((msg) => ({
+      typeUrl: msg.typeUrl,
+      value: registry.decode(msg) as unknown,
+    }));
+
+    let result = deliverTx?.({ chainId, messages, memo: body.memo });
+    if (!result?.code) {
+      messages.forEach((msg) => {
+        if (result?.code || msg.typeUrl !== "/cosmos.bank.v1beta1.MsgSend") return;
+        const { fromAddress, toAddress, amount } = msg.value as MsgSend;
+        result = transfer(fromAddress, toAddress, amount) || result;
+      });
+    }
+
+    const hash = sha256(tx);
+    const code = result?.code || 0;
+    // successful transactions log events by message on chains before cosmos-sdk v0.50
+    const log = result?.log || JSON.stringify(messages.map((_, index) => ({ msg_index: index, events: [] })));
+    height += 1;
+    transactions.push({
+      hash: toHex(hash).toUpperCase(),
+      height,
+      chainId,
+      messages,
+      memo: body.memo,
+      feeGranter,
+      code,
+      log,
+    });
+    results.set(toHex(hash), {
+      tx,
+      hash,
+      height,
+      index: 0,
+      result: { code, log, events: [], gasWanted: gasUsed, gasUsed },
+    });
+    return { code: 0, hash, log: "", events: [], gasWanted: 0, gasUsed: 0 };
+  };
+
+  // answers queries of `QueryClient` extensions with errors in the format of the chain
+  const abciQuery = ({ path, data }: { path: string; data: Uint8Array }) => {
+    if (path !== "/ibc.applications.transfer.v1.Query/DenomTrace") {
+      return Promise.resolve({ code: 6, log: `unknown query path ${path}`, height });
+    }
+    const { hash } = QueryDenomTraceRequest.decode(data);
+    const denomTrace = denomTraces[`ibc/${hash.toUpperCase()}`];
+    if (!denomTrace) {
+      return Promise.resolve({ code: 5, log: `denomination trace not found: ${hash}`, height });
+    }
+    return Promise.resolve({ code: 0, value: QueryDenomTraceResponse.encode({ denomTrace }).finish(), height });
+  };
+
+  const createQueryClient = (chain: GrazChain) => ({
+    getChainId: () => Promise.resolve(chain.chainId),
+    getHeight: () => Promise.resolve(height),
+    getBalance: (address: string, denom: string) =>
+      Promise.resolve(getBalances(address).find((x) => x.denom === denom) || { denom, amount: "0" }),
+    getAllBalances: (address: string) => Promise.resolve(getBalances(address)),
+    getBalanceStaked: (address: string) => Promise.resolve(stakedBalances[address] || null),
+    queryContractSmart: (address: string, msg: Record<string, unknown>) => {
+      const handler = contracts[address]?.smart;
+      if (!handler) return Promise.reject(new Error(`No contract found at address "${address}"`));
+      return Promise.resolve(handler(msg));
+    },
+    queryContractRaw: (address: string, key: Uint8Array) =>
+      Promise.resolve(contracts[address]?.raw?.[toHex(key)] || null),
+    disconnect: () => undefined,
+  });
+
+  const createClients = (chain: GrazChain): Promise<GrazClients> => {
+    const tendermint = {
+      broadcastTxSync: ({ tx }: { tx: Uint8Array }) => Promise.resolve(broadcast(chain.chainId, tx)),
+      tx: ({ hash }: { hash: Uint8Array }) => {
+        const result = results.get(toHex(hash));
+        if (!result) return Promise.reject(new Error(`tx (${toHex(hash).toUpperCase()}) not found`));
+        return Promise.resolve(result);
+      },
+      abciQuery,
+      disconnect: () => undefined,
+    };
+    const queryClient = createQueryClient(chain);
+    return Promise.resolve({
+      cosmWasm: queryClient,
+      stargate: queryClient,
+      tendermint,
+    } as unknown as GrazClients);
+  };
+
+  const createSigningClients = (
+    chain: GrazChain,
+    offlineSignerAuto: OfflineSigner | OfflineDirectSigner,
+  ): Promise<GrazSigningClients> => {
+    const sign = async (signerAddress: string, messages: readonly EncodeObject[], fee: StdFee, memo = "") => {
+      const bodyBytes = TxBody.encode(
+        TxBody.fromPartial({ messages: messages.map((msg) => registry.encodeAsAny(msg)), memo }),
+      ).finish();
+      const authInfoBytes = AuthInfo.encode(
+        AuthInfo.fromPartial({
+          fee: { amount: [...fee.amount], gasLimit: Long.fromString(fee.gas), granter: fee.granter },
+        }),
+      ).finish();
+
+      if ("signDirect" in offlineSignerAuto) {
+        const signDoc = makeSignDoc(bodyBytes, authInfoBytes, chain.chainId, 0);
+        const { signed, signature } = await offlineSignerAuto.signDirect(signerAddress, signDoc);
+        return TxRaw.fromPartial({
+          bodyBytes: signed.bodyBytes,
+          authInfoBytes: signed.authInfoBytes,
+          signatures: [fromBase64(signature.signature)],
+        });
+      }
+
+      const signDoc = makeAminoSignDoc(
+        messages.map((msg) => aminoTypes.toAmino(msg)),
+        fee,
+        chain.chainId,
+        memo,
+        0,
+        0,
+      );
+      const { signature } = await offlineSignerAuto.signAmino(signerAddress, signDoc);
+      return TxRaw.fromPartial({ bodyBytes, authInfoBytes, signatures: [fromBase64(signature.signature)] });
+    };
+
+    const signingClient = {
+      ...createQueryClient(chain),
+      simulate: () => Promise.resolve(gasUsed),
+      sign,
+      signAndBroadcast: async (
+        signerAddress: string,
+        messages: readonly EncodeObject[],
+        fee: StdFee,
+        memo?: string,
+      ) => {
+        const { hash } = broadcast(
+          chain.chainId,
+          TxRaw.encode(await sign(signerAddress, messages, fee, memo)).finish(),
+        );
+        const { result, height: txHeight } = results.get(toHex(hash)) as TxResponse;
+        return {
+          code: result.code,
+          height: txHeight,
+          rawLog: result.log,
+          transactionHash: toHex(hash).toUpperCase(),
+          events: [],
+          gasUsed,
+          gasWanted: gasUsed,
+        };
+      },
+    };
+    return Promise.resolve({
+      cosmWasm: signingClient,
+      stargate: signingClient,
+    } as unknown as GrazSigningClients);
+  };
+
+  const clientsFactory: GrazClientsFactory = { createClients, createSigningClients };
+
+  return {
+    clientsFactory,
+    transactions,
+    getBalances,
+    setBalances,
+    uninstall: () => {
+      useGrazInternalStore.setState((x) => (x._clientsFactory === clientsFactory ? { _clientsFactory: null } : {}));
+    },
+  };
+};
+
+/**
+ * Function to create in-memory clients and use them for subsequent connections
+ *
+ * @example
+ * ```ts
+ * import { installMockChain } from "graz/testing";
+ *
+ * const mockChain = installMockChain({ balances: { [address]: [{ denom: "uatom", amount: "1000" }] } });
+ * await connect({ chain: mainnetChains.cosmoshub });
+ * await sendTokens({ recipientAddress, amount: [{ denom: "uatom", amount: "100" }], fee: "auto" });
+ * expect(mockChain.getBalances(address)).toEqual([{ denom: "uatom", amount: "900" }]);
+ * ```
+ */
+export const installMockChain = (options?: MockChainOptions): MockChain => {
+  const mockChain = createMockChain(options);
+  useGrazInternalStore.setState({ _clientsFactory: mockChain.clientsFactory });
+  return mockChain;
+};
@@ -0,0 +1,263 @@
+import type { StdSignDoc } from "@cosmjs/amino";
+
+import type { MockWalletConnectMethod, MockWalletConnectPeerType } from "../walletconnect";
+
+// responses of mobile wallets to the sign docs below, signed with `MOCK_PRIVATE_KEY`. Keplr sends base64 strings, Leap
+// sends signed bytes as byte arrays and a serialized `Long`, Cosmostation sends hex strings and base64 signatures
+
+export const FIXTURE_SIGN_DIRECT_DOC = {
+  chainId: "cosmoshub-4",
+  accountNumber: "42",
+  bodyBytes:
+    "CowBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEmwKLWNvc21vczFnejN1a2dxZTIwZXMzbnpoM215bjI0djl3eXRnamhqZTVrOWQ3eBItY29zbW9zMWczampoZ2t5ZjM2cGpoZTd1NWN3OGo5dTZjZ2w4eDkyOWVqNDMwGgwKBXVhdG9tEgMxMDASBGdyYXo=",
+  authInfoBytes:
+    "ClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiEDNRLNjxbT0YIiXMjoKT3gij46Hp5syynCskgteP05QFESBAoCCAEYBxITCg0KBXVhdG9tEgQ1MDAwEMCaDA==",
+};
+
+export const FIXTURE_SIGN_AMINO_DOC: StdSignDoc = {
+  chain_id: "cosmoshub-4",
+  account_number: "42",
+  sequence: "7",
+  fee: {
+    amount: [
+      {
+        amount: "5000",
+        denom: "uatom",
+      },
+    ],
+    gas: "200000",
+  },
+  msgs: [
+    {
+      type: "cosmos-sdk/MsgSend",
+      value: {
+        from_address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+        to_address: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+        amount: [
+          {
+            amount: "100",
+            denom: "uatom",
+          },
+        ],
+      },
+    },
+  ],
+  memo: "graz",
+};
+
+export const WALLETCONNECT_FIXTURES: Record<
+  MockWalletConnectPeerType,
+  Partial<Record<MockWalletConnectMethod, unknown>>
+> = {
+  keplr: {
+    cosmos_getAccounts: [
+      {
+        address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+        algo: "secp256k1",
+        pubkey: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+      },
+    ],
+    cosmos_signDirect: {
+      signature: {
+        pub_key: {
+          type: "tendermint/PubKeySecp256k1",
+          value: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+        },
+        signature: "Rwhl7aw3ywuoNrrELkVsAT7cn/3HTW1ZxPUMsNS9TwECya4pcCQNeG/W+Fi1rhddq+dsXuFBD8sHoeunv2Gm0Q==",
+      },
+      signed: {
+        chainId: "cosmoshub-4",
+        accountNumber: "42",
+        bodyBytes:
+          "CowBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEmwKLWNvc21vczFnejN1a2dxZTIwZXMzbnpoM215bjI0djl3eXRnamhqZTVrOWQ3eBItY29zbW9zMWczampoZ2t5ZjM2cGpoZTd1NWN3OGo5dTZjZ2w4eDkyOWVqNDMwGgwKBXVhdG9tEgMxMDASBGdyYXo=",
+        authInfoBytes:
+          "ClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiEDNRLNjxbT0YIiXMjoKT3gij46Hp5syynCskgteP05QFESBAoCCAEYBxITCg0KBXVhdG9tEgQ1MDAwEMCaDA==",
+      },
+    },
+    cosmos_signAmino: {
+      signed: {
+        chain_id: "cosmoshub-4",
+        account_number: "42",
+        sequence: "7",
+        fee: {
+          amount: [
+            {
+              amount: "5000",
+              denom: "uatom",
+            },
+          ],
+          gas: "200000",
+        },
+        msgs: [
+          {
+            type: "cosmos-sdk/MsgSend",
+            value: {
+              from_address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+              to_address: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+              amount: [
+                {
+                  amount: "100",
+                  denom: "uatom",
+                },
+              ],
+            },
+          },
+        ],
+        memo: "graz",
+      },
+      signature: {
+        pub_key: {
+          type: "tendermint/PubKeySecp256k1",
+          value: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+        },
+        signature: "Bla0GocOjHCPcf1NAqPOilBhN7yr42g1d+alWNELBwtK9b7tk7ey5RiTDn9mvU4dYpSkigYb01MFj/uii3rnlQ==",
+      },
+    },
+  },
+  leap: {
+    cosmos_getAccounts: [
+      {
+        address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+        algo: "secp256k1",
+        pubkey: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+      },
+    ],
+    cosmos_signDirect: {
+      signature: {
+        pub_key: {
+          type: "tendermint/PubKeySecp256k1",
+          value: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+        },
+        signature: "Rwhl7aw3ywuoNrrELkVsAT7cn/3HTW1ZxPUMsNS9TwECya4pcCQNeG/W+Fi1rhddq+dsXuFBD8sHoeunv2Gm0Q==",
+      },
+      signed: {
+        chainId: "cosmoshub-4",
+        accountNumber: {
+          low: 42,
+          high: 0,
+          unsigned: false,
+        },
+        bodyBytes: [
+          10, 140, 1, 10, 28, 47, 99, 111, 115, 109, 111, 115, 46, 98, 97, 110, 107, 46, 118, 49, 98, 101, 116, 97, 49,
+          46, 77, 115, 103, 83, 101, 110, 100, 18, 108, 10, 45, 99, 111, 115, 109, 111, 115, 49, 103, 122, 51, 117, 107,
+          103, 113, 101, 50, 48, 101, 115, 51, 110, 122, 104, 51, 109, 121, 110, 50, 52, 118, 57, 119, 121, 116, 103,
+          106, 104, 106, 101, 53, 107, 57, 100, 55, 120, 18, 45, 99, 111, 115, 109, 111, 115, 49, 103, 51, 106, 106,
+          104, 103, 107, 121, 102, 51, 54, 112, 106, 104, 101, 55, 117, 53, 99, 119, 56, 106, 57, 117, 54, 99, 103, 108,
+          56, 120, 57, 50, 57, 101, 106, 52, 51, 48, 26, 12, 10, 5, 117, 97, 116, 111, 109, 18, 3, 49, 48, 48, 18, 4,
+          103, 114, 97, 122,
+        ],
+        authInfoBytes: [
+          10, 80, 10, 70, 10, 31, 47, 99, 111, 115, 109, 111, 115, 46, 99, 114, 121, 112, 116, 111, 46, 115, 101, 99,
+          112, 50, 53, 54, 107, 49, 46, 80, 117, 98, 75, 101, 121, 18, 35, 10, 33, 3, 53, 18, 205, 143, 22, 211, 209,
+          130, 34, 92, 200, 232, 41, 61, 224, 138, 62, 58, 30, 158, 108, 203, 41, 194, 178, 72, 45, 120, 253, 57, 64,
+          81, 18, 4, 10, 2, 8, 1, 24, 7, 18, 19, 10, 13, 10, 5, 117, 97, 116, 111, 109, 18, 4, 53, 48, 48, 48, 16, 192,
+          154, 12,
+        ],
+      },
+    },
+    cosmos_signAmino: {
+      signed: {
+        chain_id: "cosmoshub-4",
+        account_number: "42",
+        sequence: "7",
+        fee: {
+          amount: [
+            {
+              amount: "5000",
+              denom: "uatom",
+            },
+          ],
+          gas: "200000",
+        },
+        msgs: [
+          {
+            type: "cosmos-sdk/MsgSend",
+            value: {
+              from_address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+              to_address: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+              amount: [
+                {
+                  amount: "100",
+                  denom: "uatom",
+                },
+              ],
+            },
+          },
+        ],
+        memo: "graz",
+      },
+      signature: {
+        pub_key: {
+          type: "tendermint/PubKeySecp256k1",
+          value: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+        },
+        signature: "Bla0GocOjHCPcf1NAqPOilBhN7yr42g1d+alWNELBwtK9b7tk7ey5RiTDn9mvU4dYpSkigYb01MFj/uii3rnlQ==",
+      },
+    },
+  },
+  cosmostation: {
+    cosmos_getAccounts: [
+      {
+        address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+        algo: "secp256k1",
+        pubkey: "033512cd8f16d3d182225cc8e8293de08a3e3a1e9e6ccb29c2b2482d78fd394051",
+      },
+    ],
+    cosmos_signDirect: {
+      signature: {
+        pub_key: {
+          type: "tendermint/PubKeySecp256k1",
+          value: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+        },
+        signature: "Rwhl7aw3ywuoNrrELkVsAT7cn/3HTW1ZxPUMsNS9TwECya4pcCQNeG/W+Fi1rhddq+dsXuFBD8sHoeunv2Gm0Q==",
+      },
+      signed: {
+        chainId: "cosmoshub-4",
+        accountNumber: "42",
+        bodyBytes:
+          "0a8c010a1c2f636f736d6f732e62616e6b2e763162657461312e4d736753656e64126c0a2d636f736d6f7331677a33756b67716532306573336e7a68336d796e32347639777974676a686a65356b39643778122d636f736d6f733167336a6a68676b79663336706a68653775356377386a39753663676c3878393239656a3433301a0c0a057561746f6d120331303012046772617a",
+        authInfoBytes:
+          "0a500a460a1f2f636f736d6f732e63727970746f2e736563703235366b312e5075624b657912230a21033512cd8f16d3d182225cc8e8293de08a3e3a1e9e6ccb29c2b2482d78fd39405112040a020801180712130a0d0a057561746f6d12043530303010c09a0c",
+      },
+    },
+    cosmos_signAmino: {
+      signed: {
+        chain_id: "cosmoshub-4",
+        account_number: "42",
+        sequence: "7",
+        fee: {
+          amount: [
+            {
+              amount: "5000",
+              denom: "uatom",
+            },
+          ],
+          gas: "200000",
+        },
+        msgs: [
+          {
+            type: "cosmos-sdk/MsgSend",
+            value: {
+              from_address: "cosmos1gz3ukgqe20es3nzh3myn24v9wytgjhje5k9d7x",
+              to_address: "cosmos1g3jjhgkyf36pjhe7u5cw8j9u6cgl8x929ej430",
+              amount: [
+                {
+                  amount: "100",
+                  denom: "uatom",
+                },
+              ],
+            },
+          },
+        ],
+        memo: "graz",
+      },
+      signature: {
+        pub_key: {
+          type: "tendermint/PubKeySecp256k1",
+          value: "AzUSzY8W09GCIlzI6Ck94Io+Oh6ebMspwrJILXj9OUBR",
+        },
+        signature: "Bla0GocOjHCPcf1NAqPOilBhN7yr42g1d+alWNELBwtK9b7tk7ey5RiTDn9mvU4dYpSkigYb01MFj/uii3rnlQ==",
+      },
+    },
+  },
+};
@@ -0,0 +1,181 @@
+import type { StdSignDoc } from "@cosmjs/amino";
+import { rawSecp256k1PubkeyToRawAddress } from "@cosmjs/amino";
+import { Secp256k1, sha256 } from "@cosmjs/crypto";
+import { fromUtf8, toBech32 } from "@cosmjs/encoding";
+
+import type { LedgerTransport } from "../store";
+import { useGrazInternalStore } from "../store";
+import { MOCK_PRIVATE_KEY } from "./wallet";
+
+export interface MockLedgerOptions {
+  /**
+   * secp256k1 private key of the device account, defaults to a deterministic test key. The same key answers every HD
+   * path, requested paths are recorded in `paths`
+   */
+  privateKey?: Uint8Array;
+  /**
+   * account index of HD path to configure with {@link installMockLedger}
+   */
+  accountIndex?: number;
+}
+
+export interface MockLedger {
+  /**
+   * opens the transport to the mock device, to configure as `ledger.transport`
+   */
+  transport: () => Promise<LedgerTransport>;
+  /**
+   * HD paths of account and signing requests, in order, e.g. `"m/44'/118'/0'/0/0"`
+   */
+  paths: string[];
+  /**
+   * amino sign docs signed on the device, in order
+   */
+  signed: StdSignDoc[];
+  /**
+   * reject only the next signing request, as if rejected on the device
+   */
+  rejectOnce: () => void;
+  /**
+   * stop using the mock device for subsequent connections
+   */
+  uninstall: () => void;
+}
+
+// Cosmos app instructions and status words, see https://github.com/cosmos/ledger-cosmos/blob/main/docs/APDUSPEC.md
+const CLA = 0x55;
+const INS_GET_VERSION = 0x00;
+const INS_SIGN_SECP256K1 = 0x02;
+const INS_GET_ADDR_SECP256K1 = 0x04;
+const PAYLOAD_TYPE_INIT = 0x00;
+const PAYLOAD_TYPE_LAST = 0x02;
+const SW_OK = [0x90, 0x00];
+const SW_TRANSACTION_REJECTED = [0x69, 0x86];
+const SW_INS_NOT_SUPPORTED = [0x6d, 0x00];
+
+const APP_NAME = "Cosmos";
+const APP_VERSION = [2, 34, 12];
+
+const APP_VERSION_NAME = APP_VERSION.join(".");
+
+const HARDENED = 0x80000000;
+
+const parsePath = (data: Buffer) => {
+  const indices = Array.from({ length: 5 }, (_, i) => data.readUInt32LE(i * 4));
+  return `m/${indices.map((x) => (x >= HARDENED ? `${x - HARDENED}'` : String(x))).join("/")}`;
+};
+
+const response = (data: number[] | Uint8Array, status = SW_OK) => Buffer.from([...data, ...status]);
+
+/**
+ * Function to create a stand-in Ledger device running the Cosmos app, which answers APDUs of `@cosmjs/ledger-amino`
+ * with real secp256k1 signatures, to configure with `configureGraz({ ledger: { transport } })` or
+ * {@link installMockLedger}
+ *
+ * @example
+ * ```ts
+ * import { createMockLedger } from "graz/testing";
+ *
+ * const ledger = createMockLedger();
+ * configureGraz({ ledger: { transport: ledger.transport } });
+ * ```
+ */
+export const createMockLedger = ({ privateKey = MOCK_PRIVATE_KEY }: MockLedgerOptions = {}): MockLedger => {
+  const paths: string[] = [];
+  const signed: StdSignDoc[] = [];
+  let message: Buffer[] = [];
+  let isRejectingOnce = false;
+
+  const getPubkey = async () => Secp256k1.compressPubkey((await Secp256k1.makeKeypair(privateKey)).pubkey);
+
+  const sign = async (p1: number, data: Buffer) => {
+    if (p1 === PAYLOAD_TYPE_INIT) {
+      paths.push(parsePath(data));
+      message = [];
+      return response([]);
+    }
+    message.push(data);
+    if (p1 !== PAYLOAD_TYPE_LAST) return response([]);
+    if (isRejectingOnce) {
+      isRejectingOnce = false;
+      return response([], SW_TRANSACTION_REJECTED);
+    }
+    const signBytes = Buffer.concat(message);
+    signed.push(JSON.parse(fromUtf8(signBytes)) as StdSignDoc);
+    const signature = await Secp256k1.createSignature(sha256(signBytes), privateKey);
+    return response(signature.toDer());
+  };
+
+  const device: LedgerTransport = {
+    send: async (cla, ins, p1, _p2, data = Buffer.alloc(0)) => {
+      // dashboard app info, answered by the device regardless of the open app
+      if (cla === 0xb0) {
+        return response([
+          1,
+          APP_NAME.length,
+          ...Buffer.from(APP_NAME),
+          APP_VERSION_NAME.length,
+          ...Buffer.from(APP_VERSION_NAME),
+          1,
+          0,
+        ]);
+      }
+      if (cla !== CLA) return response([], SW_INS_NOT_SUPPORTED);
+      switch (ins) {
+        case INS_GET_VERSION: {
+          return response([0, ...APP_VERSION, 0, 0x31, 0x10, 0x00, 0x04]);
+        }
+        case INS_GET_ADDR_SECP256K1: {
+          const hrpLength = data.readUInt8(0);
+          const hrp = data.subarray(1, 1 + hrpLength).toString("ascii");
+          paths.push(parsePath(data.subarray(1 + hrpLength)));
+          const pubkey = await getPubkey();
+          return response([...pubkey, ...Buffer.from(toBech32(hrp, rawSecp256k1PubkeyToRawAddress(pubkey)))]);
+        }
+        case INS_SIGN_SECP256K1: {
+          return sign(p1, data);
+        }
+        default: {
+          return response([], SW_INS_NOT_SUPPORTED);
+        }
+      }
+    },
+    decorateAppAPIMethods: () => undefined,
+    close: () => Promise.resolve(),
+  };
+
+  const transport = () => Promise.resolve(device);
+
+  return {
+    transport,
+    paths,
+    signed,
+    rejectOnce: () => {
+      isRejectingOnce = true;
+    },
+    uninstall: () => {
+      useGrazInternalStore.setState((x) => (x.ledger?.transport === transport ? { ledger: null } : {}));
+    },
+  };
+};
+
+/**
+ * Function to create a stand-in Ledger device and use it for subsequent `WalletType.LEDGER` connections
+ *
+ * @example
+ * ```ts
+ * import { connect, WalletType } from "graz";
+ * import { installMockLedger } from "graz/testing";
+ *
+ * const ledger = installMockLedger({ accountIndex: 1 });
+ * await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.LEDGER });
+ * expect(ledger.paths[0]).toBe("m/44'/118'/0'/0/1");
+ * ```
+ */
+export const installMockLedger = (options: MockLedgerOptions = {}): MockLedger => {
+  const mock = createMockLedger(options);
+  useGrazInternalStore.setState(({ ledger }) => ({
+    ledger: { ...ledger, transport: mock.transport, accountIndex: options.accountIndex ?? ledger?.accountIndex },
+  }));
+  return mock;
+};
@@ -0,0 +1,48 @@
+import { QueryClient } from "@tanstack/react-query";
+import type { RenderOptions, RenderResult } from "@testing-library/react";
+import { render } from "@testing-library/react";
+import type { ReactElement, ReactNode } from "react";
+
+import type { ConfigureGrazArgs } from "../actions/configure";
+import { GrazProvider } from "../provider";
+
+export type RenderWithGrazOptions = Omit<RenderOptions, "wrapper"> & {
+  grazOptions?: ConfigureGrazArgs;
+  /**
+   * query client used by graz hooks, defaults to a new client without retries
+   */
+  queryClient?: QueryClient;
+};
+
+export type RenderWithGrazResult = RenderResult & {
+  queryClient: QueryClient;
+};
+
+/**
+ * Helper function to render given element inside {@link GrazProvider} with an isolated query client, to use with
+ * `@testing-library/react`
+ *
+ * @example
+ * ```tsx
+ * import { installMockWallet, renderWithGraz } from "graz/testing";
+ *
+ * installMockWallet();
+ * const { findByText } = renderWithGraz(<Wallet />, { grazOptions: { defaultChain: mainnetChains.cosmoshub } });
+ * await findByText("Connected");
+ * ```
+ */
+export const renderWithGraz = (
+  ui: ReactElement,
+  {
+    grazOptions,
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } }),
+    ...options
+  }: RenderWithGrazOptions = {},
+): RenderWithGrazResult => {
+  const Wrapper = ({ children }: { children: ReactNode }) => (
+    <GrazProvider client={queryClient} grazOptions={grazOptions} ssr>
+      {children}
+    </GrazProvider>
+  );
+  return { ...render(ui, { wrapper: Wrapper, ...options }), queryClient };
+};
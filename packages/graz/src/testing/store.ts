@@ -0,0 +1,30 @@
+import { RECONNECT_SESSION_KEY } from "../constant";
+import {
+  grazInternalDefaultValues,
+  grazSessionDefaultValues,
+  useGrazInternalStore,
+  useGrazSessionStore,
+} from "../store";
+
+/**
+ * Function to reset graz stores to their default values and clear persisted state, including registered adapters and
+ * in-memory clients. Call it between tests to avoid leaking connections.
+ *
+ * @example
+ * ```ts
+ * import { resetGrazStores } from "graz/testing";
+ *
+ * afterEach(() => {
+ *   resetGrazStores();
+ * });
+ * ```
+ */
+export const resetGrazStores = () => {
+  useGrazSessionStore.setState(grazSessionDefaultValues, true);
+  useGrazInternalStore.setState(grazInternalDefaultValues, true);
+  // stores are not persisted without web storage, e.g. in node
+  if (typeof window === "undefined") return;
+  useGrazSessionStore.persist.clearStorage();
+  useGrazInternalStore.persist.clearStorage();
+  window.sessionStorage.removeItem(RECONNECT_SESSION_KEY);
+};
@@ -0,0 +1,68 @@
+import { act, cleanup, fireEvent, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { mainnetChains } from "../chains";
+import { useAccount, useConnect } from "../hooks/account";
+import { installMockChain } from "./clients";
+import { renderWithGraz } from "./render";
+import { resetGrazStores } from "./store";
+import { getMockAddress, installMockWallet } from "./wallet";
+
+const Wallet = () => {
+  const { connect, error } = useConnect();
+  const { data: account, isConnected } = useAccount();
+  if (isConnected) return <span>{account?.bech32Address}</span>;
+  return (
+    <>
+      <button onClick={() => connect({ chain: mainnetChains.cosmoshub })} type="button">
+        Connect
+      </button>
+      {error ? <span>{(error as Error).message}</span> : null}
+    </>
+  );
+};
+
+describe("installMockWallet", () => {
+  afterEach(() => {
+    cleanup();
+    resetGrazStores();
+  });
+
+  it("connects with the mock account", async () => {
+    installMockChain();
+    const wallet = installMockWallet();
+    const { findByText, getByRole } = renderWithGraz(<Wallet />);
+
+    fireEvent.click(getByRole("button", { name: "Connect" }));
+
+    expect(await findByText(await getMockAddress())).toBeTruthy();
+    expect(wallet.calls).toContainEqual({ method: "enable", chainId: "cosmoshub-4" });
+  });
+
+  it("surfaces rejected requests", async () => {
+    installMockChain();
+    const wallet = installMockWallet();
+    wallet.rejectOnce(new Error("User denied"));
+    const { findByText, getByRole } = renderWithGraz(<Wallet />);
+
+    fireEvent.click(getByRole("button", { name: "Connect" }));
+
+    expect(await findByText("User denied")).toBeTruthy();
+  });
+
+  it("reconnects when the account changes", async () => {
+    installMockChain();
+    const wallet = installMockWallet();
+    const { findByText, getByRole } = renderWithGraz(<Wallet />);
+    fireEvent.click(getByRole("button", { name: "Connect" }));
+    await findByText(await getMockAddress());
+
+    const otherKey = new Uint8Array(32).fill(1);
+    act(() => {
+      wallet.changeKey(otherKey);
+    });
+
+    const otherAddress = await getMockAddress(otherKey);
+    await waitFor(async () => expect(await findByText(otherAddress)).toBeTruthy());
+  });
+});
@@ -0,0 +1,249 @@
+import type { AminoSignResponse, StdSignature, StdSignDoc } from "@cosmjs/amino";
+import { rawSecp256k1PubkeyToRawAddress, Secp256k1Wallet } from "@cosmjs/amino";
+import { sha256 } from "@cosmjs/crypto";
+import { toUtf8 } from "@cosmjs/encoding";
+import type { OfflineSigner } from "@cosmjs/launchpad";
+import type { DirectSignResponse, OfflineDirectSigner } from "@cosmjs/proto-signing";
+import { DirectSecp256k1Wallet } from "@cosmjs/proto-signing";
+import type { SignDoc } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+
+import type { AccountData, GrazAdapter } from "../adapter";
+import { makeADR36AminoSignDoc } from "../adr36";
+import { useGrazInternalStore } from "../store";
+import type { WalletId } from "../types/wallet";
+import { WalletType } from "../types/wallet";
+
+export type MockWalletMethod =
+  | "enable"
+  | "getAccount"
+  | "signDirect"
+  | "signAmino"
+  | "signArbitrary"
+  | "experimentalSuggestChain";
+
+export interface MockWalletCall {
+  method: MockWalletMethod;
+  chainId: string;
+}
+
+export interface MockWalletOptions {
+  /**
+   * wallet type to mock, registering the mock wallet overrides the built-in wallet. Defaults to `WalletType.KEPLR`
+   */
+  walletType?: WalletId;
+  /**
+   * secp256k1 private key of the mock account, defaults to a deterministic test key
+   */
+  privateKey?: Uint8Array;
+  /**
+   * bech32 prefix of the mock account, either a single prefix or a record of prefixes keyed by chain id. Chains
+   * without a prefix fall back to `"cosmos"`
+   */
+  prefix?: string | Record<string, string>;
+  /**
+   * mock a ledger account, which only provides amino signing
+   */
+  isNanoLedger?: boolean;
+}
+
+export interface MockWallet {
+  adapter: GrazAdapter;
+  /**
+   * recorded wallet requests, in order
+   */
+  calls: MockWalletCall[];
+  /**
+   * approve all subsequent requests, which is the default behaviour
+   */
+  approve: () => void;
+  /**
+   * reject all subsequent requests with given error
+   */
+  reject: (error?: Error) => void;
+  /**
+   * reject only the next request with given error
+   */
+  rejectOnce: (error?: Error) => void;
+  /**
+   * change the mock account key and dispatch the adapter keystore event, which reconnects graz
+   */
+  changeKey: (privateKey: Uint8Array) => void;
+  /**
+   * toggle mock wallet availability, unavailable wallets fail `checkWallet` and `connect`
+   */
+  setAvailable: (isAvailable: boolean) => void;
+  /**
+   * remove the mock wallet from the adapter registry
+   */
+  uninstall: () => void;
+}
+
+const DEFAULT_PREFIX = "cosmos";
+
+export const MOCK_PRIVATE_KEY = sha256(toUtf8("graz-testing"));
+
+const rejectedError = () => new Error("Request rejected");
+
+/**
+ * Function to create a mock wallet adapter with scriptable approvals and real secp256k1 signatures, which can be
+ * registered with `configureGraz({ adapters })` or {@link installMockWallet}
+ *
+ * @example
+ * ```ts
+ * import { createMockWallet } from "graz/testing";
+ *
+ * const wallet = createMockWallet({ walletType: WalletType.LEAP, prefix: { "osmosis-1": "osmo" } });
+ * configureGraz({ adapters: [wallet.adapter] });
+ * ```
+ */
+export const createMockWallet = ({
+  walletType = WalletType.KEPLR,
+  privateKey = MOCK_PRIVATE_KEY,
+  prefix = DEFAULT_PREFIX,
+  isNanoLedger = false,
+}: MockWalletOptions = {}): MockWallet => {
+  const calls: MockWalletCall[] = [];
+  let currentKey = privateKey;
+  let isAvailable = true;
+  let rejection: { error: Error; once: boolean } | null = null;
+
+  const getPrefix = (chainId: string) => (typeof prefix === "string" ? prefix : prefix[chainId] || DEFAULT_PREFIX);
+
+  const request = async <T>(method: MockWalletMethod, chainId: string, fn: () => Promise<T>): Promise<T> => {
+    calls.push({ method, chainId });
+    if (rejection) {
+      const { error, once } = rejection;
+      if (once) rejection = null;
+      throw error;
+    }
+    return fn();
+  };
+
+  const getDirectWallet = (chainId: string) => DirectSecp256k1Wallet.fromKey(currentKey, getPrefix(chainId));
+  const getAminoWallet = (chainId: string) => Secp256k1Wallet.fromKey(currentKey, getPrefix(chainId));
+
+  const getAccounts = async (chainId: string) => {
+    const [account] = await (await getAminoWallet(chainId)).getAccounts();
+    return [account!];
+  };
+
+  const signAmino = (chainId: string, signerAddress: string, signDoc: StdSignDoc) =>
+    request<AminoSignResponse>("signAmino", chainId, async () =>
+      (await getAminoWallet(chainId)).signAmino(signerAddress, signDoc),
+    );
+
+  const signDirect = (chainId: string, signerAddress: string, signDoc: SignDoc) =>
+    request<DirectSignResponse>("signDirect", chainId, async () =>
+      (await getDirectWallet(chainId)).signDirect(signerAddress, signDoc),
+    );
+
+  const getOfflineSignerOnlyAmino = (chainId: string) =>
+    ({
+      getAccounts: () => getAccounts(chainId),
+      signAmino: (signerAddress: string, signDoc: StdSignDoc) => signAmino(chainId, signerAddress, signDoc),
+    } as OfflineSigner);
+
+  const getOfflineSigner = (chainId: string) =>
+    ({
+      getAccounts: () => getAccounts(chainId),
+      signAmino: (signerAddress: string, signDoc: StdSignDoc) => signAmino(chainId, signerAddress, signDoc),
+      signDirect: (signerAddress: string, signDoc: SignDoc) => signDirect(chainId, signerAddress, signDoc),
+    } as OfflineSigner & OfflineDirectSigner);
+
+  const adapter: GrazAdapter = {
+    id: walletType,
+    name: `Mock ${walletType}`,
+    keystoreEvent: `graz_mock_${walletType}_keystorechange`,
+    checkConnector: () => isAvailable,
+    enable: (chainId) => request("enable", chainId, () => Promise.resolve()),
+    getAccount: (chainId) =>
+      request<AccountData>("getAccount", chainId, async () => {
+        const [account] = await getAccounts(chainId);
+        return {
+          address: rawSecp256k1PubkeyToRawAddress(account!.pubkey),
+          bech32Address: account!.address,
+          pubKey: account!.pubkey,
+          algo: account!.algo,
+          isNanoLedger,
+        };
+      }),
+    getOfflineSigner,
+    getOfflineSignerOnlyAmino,
+    getOfflineSignerAuto: (chainId) =>
+      Promise.resolve(isNanoLedger ? getOfflineSignerOnlyAmino(chainId) : getOfflineSigner(chainId)),
+    experimentalSuggestChain: (chainInfo) =>
+      request("experimentalSuggestChain", chainInfo.chainId, () => Promise.resolve()),
+    signArbitrary: (chainId, signerAddress, data) =>
+      request<StdSignature>("signArbitrary", chainId, async () => {
+        const aminoWallet = await getAminoWallet(chainId);
+        const { signature } = await aminoWallet.signAmino(signerAddress, makeADR36AminoSignDoc(signerAddress, data));
+        return signature;
+      }),
+  };
+
+  const uninstall = () => {
+    useGrazInternalStore.setState((x) => ({ adapters: x.adapters.filter((item) => item !== adapter) }));
+  };
+
+  return {
+    adapter,
+    calls,
+    approve: () => {
+      rejection = null;
+    },
+    reject: (error = rejectedError()) => {
+      rejection = { error, once: false };
+    },
+    rejectOnce: (error = rejectedError()) => {
+      rejection = { error, once: true };
+    },
+    changeKey: (key) => {
+      currentKey = key;
+      window.dispatchEvent(new Event(adapter.keystoreEvent));
+    },
+    setAvailable: (value) => {
+      isAvailable = value;
+    },
+    uninstall,
+  };
+};
+
+/**
+ * Function to create a mock wallet and register it in the adapter registry, replacing any adapter with the same
+ * wallet type
+ *
+ * @example
+ * ```ts
+ * import { connect } from "graz";
+ * import { installMockWallet } from "graz/testing";
+ *
+ * const wallet = installMockWallet();
+ * wallet.rejectOnce();
+ * await expect(connect({ chain: mainnetChains.cosmoshub })).rejects.toThrow("Request rejected");
+ * ```
+ */
+export const installMockWallet = (options?: MockWalletOptions): MockWallet => {
+  const wallet = createMockWallet(options);
+  useGrazInternalStore.setState((x) => ({
+    adapters: [...x.adapters.filter((item) => item.id !== wallet.adapter.id), wallet.adapter],
+  }));
+  return wallet;
+};
+
+/**
+ * Helper function to derive the bech32 address of given private key, e.g. to seed mock chain balances
+ *
+ * @example
+ * ```ts
+ * import { getMockAddress, MOCK_PRIVATE_KEY } from "graz/testing";
+ *
+ * const address = getMockAddress(MOCK_PRIVATE_KEY, "osmo");
+ * ```
+ */
+export const getMockAddress = async (
+  privateKey: Uint8Array = MOCK_PRIVATE_KEY,
+  prefix = DEFAULT_PREFIX,
+): Promise<string> => {
+  const [account] = await (await Secp256k1Wallet.fromKey(privateKey, prefix)).getAccounts();
+  return account!.address;
+};
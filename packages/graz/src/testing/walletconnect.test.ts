@@ -0,0 +1,128 @@
+import type { StdSignature } from "@cosmjs/amino";
+import { Secp256k1Wallet, serializeSignDoc } from "@cosmjs/amino";
+import { Secp256k1, Secp256k1Signature, sha256 } from "@cosmjs/crypto";
+import { fromBase64 } from "@cosmjs/encoding";
+import { makeSignBytes } from "@cosmjs/proto-signing";
+// eslint-disable-next-line import/no-named-as-default
+import Long from "long";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { connect } from "../actions/account";
+import { signArbitrary } from "../actions/arbitrary";
+import { getWallet } from "../actions/wallet";
+import { verifyADR36Signature } from "../adr36";
+import { mainnetChains } from "../chains";
+import { WalletType } from "../types/wallet";
+import { installMockChain } from "./clients";
+import { FIXTURE_SIGN_AMINO_DOC, FIXTURE_SIGN_DIRECT_DOC, WALLETCONNECT_FIXTURES } from "./fixtures/walletconnect";
+import { resetGrazStores } from "./store";
+import { getMockAddress, MOCK_PRIVATE_KEY } from "./wallet";
+import type { MockWalletConnectPeerType } from "./walletconnect";
+import { installMockWalletConnect } from "./walletconnect";
+
+const signDirectDoc = {
+  chainId: FIXTURE_SIGN_DIRECT_DOC.chainId,
+  accountNumber: Long.fromString(FIXTURE_SIGN_DIRECT_DOC.accountNumber),
+  bodyBytes: fromBase64(FIXTURE_SIGN_DIRECT_DOC.bodyBytes),
+  authInfoBytes: fromBase64(FIXTURE_SIGN_DIRECT_DOC.authInfoBytes),
+};
+
+const getMockPubkey = async () => {
+  const [account] = await (await Secp256k1Wallet.fromKey(MOCK_PRIVATE_KEY)).getAccounts();
+  return account!.pubkey;
+};
+
+const verify = async (signature: StdSignature, signBytes: Uint8Array) => {
+  return Secp256k1.verifySignature(
+    Secp256k1Signature.fromFixedLength(fromBase64(signature.signature)),
+    sha256(signBytes),
+    await getMockPubkey(),
+  );
+};
+
+const installFixturePeer = (peer: MockWalletConnectPeerType) => {
+  const fixtures = WALLETCONNECT_FIXTURES[peer];
+  return installMockWalletConnect({
+    peer,
+    responses: {
+      cosmos_getAccounts: () => fixtures.cosmos_getAccounts,
+      cosmos_signDirect: () => fixtures.cosmos_signDirect,
+      cosmos_signAmino: () => fixtures.cosmos_signAmino,
+    },
+  });
+};
+
+describe.each(["keplr", "leap", "cosmostation"] as const)("installMockWalletConnect with %s responses", (peer) => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("gets the account", async () => {
+    installMockChain();
+    installFixturePeer(peer);
+
+    const { account } = await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.WALLETCONNECT });
+
+    expect(account.bech32Address).toBe(await getMockAddress());
+    expect(account.pubKey).toEqual(await getMockPubkey());
+  });
+
+  it("signs direct", async () => {
+    installMockChain();
+    installFixturePeer(peer);
+    const { account } = await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.WALLETCONNECT });
+
+    const { signed, signature } = await getWallet(WalletType.WALLETCONNECT).signDirect(
+      "cosmoshub-4",
+      account.bech32Address,
+      signDirectDoc,
+    );
+
+    expect(signed).toEqual(signDirectDoc);
+    expect(await verify(signature, makeSignBytes(signed))).toBe(true);
+  });
+
+  it("signs amino", async () => {
+    installMockChain();
+    const mock = installFixturePeer(peer);
+    const { account } = await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.WALLETCONNECT });
+
+    const { signed, signature } = await getWallet(WalletType.WALLETCONNECT).signAmino(
+      "cosmoshub-4",
+      account.bech32Address,
+      FIXTURE_SIGN_AMINO_DOC,
+    );
+
+    expect(signed).toEqual(FIXTURE_SIGN_AMINO_DOC);
+    expect(await verify(signature, serializeSignDoc(signed))).toBe(true);
+    expect(mock.requests.map((x) => x.method)).toContain("cosmos_signAmino");
+  });
+});
+
+describe("installMockWalletConnect signArbitrary", () => {
+  afterEach(() => {
+    resetGrazStores();
+  });
+
+  it("signs arbitrary text when the session approves it", async () => {
+    installMockChain();
+    const mock = installMockWalletConnect();
+    await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.WALLETCONNECT });
+
+    const { signerAddress, signature } = await signArbitrary({ data: "Sign in to example.com" });
+
+    expect(await verifyADR36Signature({ signer: signerAddress, data: "Sign in to example.com", signature })).toBe(true);
+    expect(mock.requests.map((x) => x.method)).toContain("cosmos_signArbitrary");
+  });
+
+  it("pairs with peers not supporting it and rejects signing arbitrary text", async () => {
+    installMockChain();
+    const mock = installMockWalletConnect({ methods: ["cosmos_getAccounts", "cosmos_signDirect", "cosmos_signAmino"] });
+    await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.WALLETCONNECT });
+
+    await expect(signArbitrary({ data: "Sign in to example.com" })).rejects.toThrow(
+      "WalletConnect session did not approve cosmos_signArbitrary",
+    );
+    expect(mock.requests.map((x) => x.method)).not.toContain("cosmos_signArbitrary");
+  });
+});
@@ -0,0 +1,335 @@
+import type { StdSignDoc } from "@cosmjs/amino";
+import { Secp256k1Wallet } from "@cosmjs/amino";
+import { DirectSecp256k1Wallet } from "@cosmjs/proto-signing";
+import type { EngineTypes, ISignClient, SessionTypes, SignClientTypes } from "@walletconnect/types";
+// eslint-disable-next-line import/no-named-as-default
+import Long from "long";
+
+import { makeADR36AminoSignDoc } from "../adr36";
+import { useGrazInternalStore, useGrazSessionStore } from "../store";
+import { MOCK_PRIVATE_KEY } from "./wallet";
+
+export type MockWalletConnectPeerType = "keplr" | "leap" | "cosmostation";
+
+export type MockWalletConnectMethod =
+  | "cosmos_getAccounts"
+  | "cosmos_signDirect"
+  | "cosmos_signAmino"
+  | "cosmos_signArbitrary";
+
+export interface MockWalletConnectRequest {
+  method: string;
+  chainId: string;
+  params: unknown;
+}
+
+export interface MockWalletConnectOptions {
+  /**
+   * mobile wallet to stand in for, which determines peer metadata and encoding of bytes. Defaults to `"keplr"`
+   */
+  peer?: MockWalletConnectPeerType;
+  /**
+   * secp256k1 private key of the peer account, defaults to a deterministic test key
+   */
+  privateKey?: Uint8Array;
+  /**
+   * bech32 prefix of the peer account, either a single prefix or a record of prefixes keyed by chain id. Chains
+   * without a prefix fall back to `"cosmos"`
+   */
+  prefix?: string | Record<string, string>;
+  /**
+   * methods supported by the peer, defaults to all. Pairings requiring other methods are rejected, and optional
+   * methods not supported are left out of approved sessions
+   */
+  methods?: MockWalletConnectMethod[];
+  /**
+   * recorded wallet responses to replay instead of signing with the peer key, keyed by method
+   */
+  responses?: Partial<Record<MockWalletConnectMethod, (params: unknown, chainId: string) => unknown>>;
+}
+
+export interface MockWalletConnect {
+  signClient: ISignClient;
+  signClientFactory: (options: SignClientTypes.Options) => Promise<ISignClient>;
+  /**
+   * pairing uris created by the peer, in order
+   */
+  uris: string[];
+  /**
+   * requests received by the peer, in order
+   */
+  requests: MockWalletConnectRequest[];
+  /**
+   * end all sessions from the peer side, which emits `session_delete`
+   */
+  disconnectPeer: () => void;
+  /**
+   * stop using the stand-in peer for subsequent connections
+   */
+  uninstall: () => void;
+}
+
+const DEFAULT_PREFIX = "cosmos";
+
+const SESSION_TTL = 7 * 24 * 60 * 60;
+
+const METHODS: MockWalletConnectMethod[] = [
+  "cosmos_getAccounts",
+  "cosmos_signDirect",
+  "cosmos_signAmino",
+  "cosmos_signArbitrary",
+];
+
+// peer metadata and bytes encoding as sent by mobile wallets
+const PEERS: Record<MockWalletConnectPeerType, { metadata: SignClientTypes.Metadata; encoding: BufferEncoding }> = {
+  keplr: {
+    metadata: { name: "Keplr", description: "Keplr Wallet", url: "https://www.keplr.app", icons: [] },
+    encoding: "base64",
+  },
+  leap: {
+    metadata: { name: "Leap Cosmos Wallet", description: "Leap Wallet", url: "https://www.leapwallet.io", icons: [] },
+    encoding: "base64",
+  },
+  cosmostation: {
+    metadata: { name: "Cosmostation", description: "Cosmostation Wallet", url: "https://cosmostation.io", icons: [] },
+    encoding: "hex",
+  },
+};
+
+interface SignDirectRequest {
+  signerAddress: string;
+  signDoc: { chainId: string; accountNumber: string; bodyBytes: string; authInfoBytes: string };
+}
+
+interface SignAminoRequest {
+  signerAddress: string;
+  signDoc: StdSignDoc;
+}
+
+interface SignArbitraryRequest {
+  signerAddress: string;
+  data: string;
+}
+
+/**
+ * Function to create a stand-in WalletConnect peer, which approves pairings and answers `cosmos_*` requests in the
+ * format of Keplr, Leap or Cosmostation mobile without a relay server
+ *
+ * @example
+ * ```ts
+ * import { createMockWalletConnect } from "graz/testing";
+ *
+ * const peer = createMockWalletConnect({ peer: "cosmostation" });
+ * await peer.signClient.request({ topic, chainId: "cosmos:cosmoshub-4", request });
+ * ```
+ */
+export const createMockWalletConnect = ({
+  peer = "keplr",
+  privateKey = MOCK_PRIVATE_KEY,
+  prefix = DEFAULT_PREFIX,
+  methods = METHODS,
+  responses = {},
+}: MockWalletConnectOptions = {}): MockWalletConnect => {
+  const { metadata, encoding } = PEERS[peer];
+  const uris: string[] = [];
+  const requests: MockWalletConnectRequest[] = [];
+  const sessions = new Map<string, SessionTypes.Struct>();
+  const listeners = new Map<string, Set<(args: unknown) => void>>();
+  let pairingIndex = 0;
+
+  const getPrefix = (chainId: string) => (typeof prefix === "string" ? prefix : prefix[chainId] || DEFAULT_PREFIX);
+
+  const getAccount = async (chainId: string) => {
+    const [account] = await (await Secp256k1Wallet.fromKey(privateKey, getPrefix(chainId))).getAccounts();
+    return account!;
+  };
+
+  const approveSession = async (topic: string, pairingTopic: string, params: EngineTypes.ConnectParams) => {
+    const requiredNamespaces = params.requiredNamespaces || {};
+    const optionalNamespaces = params.optionalNamespaces || {};
+    const proposed = [...Object.values(requiredNamespaces), ...Object.values(optionalNamespaces)];
+    const isSupported = (method: string) => methods.includes(method as MockWalletConnectMethod);
+    const unsupported = Object.values(requiredNamespaces)
+      .flatMap((x) => x.methods)
+      .filter((x) => !isSupported(x));
+    if (unsupported.length) throw new Error(`Unsupported methods: ${unsupported.join(", ")}`);
+    const chains = [...new Set(proposed.flatMap((x) => x.chains || []))];
+    const accounts = await Promise.all(
+      chains.map(async (chain) => `${chain}:${(await getAccount(chain.split(":")[1]!)).address}`),
+    );
+    const session: SessionTypes.Struct = {
+      topic,
+      pairingTopic,
+      relay: { protocol: "irn" },
+      expiry: Math.floor(Date.now() / 1000) + SESSION_TTL,
+      acknowledged: true,
+      controller: "",
+      namespaces: {
+        cosmos: {
+          chains,
+          accounts,
+          methods: [...new Set(proposed.flatMap((x) => x.methods).filter(isSupported))],
+          events: [...new Set(proposed.flatMap((x) => x.events))],
+        },
+      },
+      requiredNamespaces,
+      optionalNamespaces,
+      self: { publicKey: "", metadata: { name: "graz", description: "", url: "", icons: [] } },
+      peer: { publicKey: "", metadata },
+    };
+    sessions.set(topic, session);
+    return session;
+  };
+
+  const respond = async (method: string, params: unknown, chainId: string) => {
+    const recorded = responses[method as MockWalletConnectMethod];
+    if (recorded) return recorded(params, chainId);
+    switch (method) {
+      case "cosmos_getAccounts": {
+        const { address, algo, pubkey } = await getAccount(chainId);
+        return [{ address, algo, pubkey: Buffer.from(pubkey).toString(encoding) }];
+      }
+      case "cosmos_signDirect": {
+        const { signerAddress, signDoc } = params as SignDirectRequest;
+        const wallet = await DirectSecp256k1Wallet.fromKey(privateKey, getPrefix(chainId));
+        const { signed, signature } = await wallet.signDirect(signerAddress, {
+          chainId: signDoc.chainId,
+          accountNumber: Long.fromString(signDoc.accountNumber),
+          bodyBytes: new Uint8Array(Buffer.from(signDoc.bodyBytes, encoding)),
+          authInfoBytes: new Uint8Array(Buffer.from(signDoc.authInfoBytes, encoding)),
+        });
+        return {
+          signature,
+          signed: {
+            chainId: signed.chainId,
+            accountNumber: signed.accountNumber.toString(),
+            bodyBytes: Buffer.from(signed.bodyBytes).toString(encoding),
+            authInfoBytes: Buffer.from(signed.authInfoBytes).toString(encoding),
+          },
+        };
+      }
+      case "cosmos_signAmino": {
+        const { signerAddress, signDoc } = params as SignAminoRequest;
+        const wallet = await Secp256k1Wallet.fromKey(privateKey, getPrefix(chainId));
+        return wallet.signAmino(signerAddress, signDoc);
+      }
+      case "cosmos_signArbitrary": {
+        const { signerAddress, data } = params as SignArbitraryRequest;
+        const wallet = await Secp256k1Wallet.fromKey(privateKey, getPrefix(chainId));
+        const { signature } = await wallet.signAmino(signerAddress, makeADR36AminoSignDoc(signerAddress, data));
+        return signature;
+      }
+      default: {
+        throw new Error(`Unsupported method: ${method}`);
+      }
+    }
+  };
+
+  const emit = (event: string, args: unknown) => {
+    listeners.get(event)?.forEach((listener) => listener(args));
+  };
+
+  const signClient = {
+    session: {
+      getAll: () => [...sessions.values()],
+      get: (topic: string) => {
+        const session = sessions.get(topic);
+        if (!session) throw new Error(`No matching key. session: ${topic}`);
+        return session;
+      },
+    },
+    core: {
+      pairing: {
+        pairings: {
+          getAll: () => [],
+          delete: () => Promise.resolve(),
+        },
+        disconnect: () => Promise.resolve(),
+      },
+    },
+    events: {
+      on: (event: string, listener: (args: unknown) => void) => {
+        listeners.set(event, (listeners.get(event) || new Set()).add(listener));
+      },
+      off: (event: string, listener: (args: unknown) => void) => {
+        listeners.get(event)?.delete(listener);
+      },
+    },
+    connect: (params: EngineTypes.ConnectParams) => {
+      pairingIndex += 1;
+      const pairingTopic = `graz-mock-pairing-${pairingIndex}`;
+      const uri = `wc:${pairingTopic}@2?relay-protocol=irn&symKey=${"0".repeat(64)}`;
+      uris.push(uri);
+      return Promise.resolve({
+        uri,
+        approval: () => approveSession(`graz-mock-session-${pairingIndex}`, pairingTopic, params),
+      });
+    },
+    request: async ({ topic, chainId, request }: EngineTypes.RequestParams) => {
+      const session = sessions.get(topic);
+      if (!session) throw new Error(`No matching key. session topic doesn't exist: ${topic}`);
+      if (!session.namespaces.cosmos?.accounts.some((x) => x.startsWith(`${chainId}:`))) {
+        throw new Error(`Missing or invalid. request() chainId: ${chainId}`);
+      }
+      if (!session.namespaces.cosmos.methods.includes(request.method)) {
+        throw new Error(`Missing or invalid. request() method: ${request.method}`);
+      }
+      const id = chainId.split(":")[1]!;
+      requests.push({ method: request.method, chainId: id, params: request.params });
+      return respond(request.method, request.params, id);
+    },
+    disconnect: ({ topic }: EngineTypes.DisconnectParams) => {
+      sessions.delete(topic);
+      return Promise.resolve();
+    },
+  } as unknown as ISignClient;
+
+  const signClientFactory = () => Promise.resolve(signClient);
+
+  return {
+    signClient,
+    signClientFactory,
+    uris,
+    requests,
+    disconnectPeer: () => {
+      [...sessions.keys()].forEach((topic) => {
+        sessions.delete(topic);
+        emit("session_delete", { id: Date.now(), topic });
+      });
+    },
+    uninstall: () => {
+      useGrazInternalStore.setState((x) =>
+        x._signClientFactory === signClientFactory ? { _signClientFactory: null } : {},
+      );
+    },
+  };
+};
+
+/**
+ * Function to create a stand-in WalletConnect peer and use it for subsequent `WalletType.WALLETCONNECT` connections.
+ * Pairing uris are not shown with web3modal unless `walletConnect.onUri` is configured.
+ *
+ * @example
+ * ```ts
+ * import { connect, signArbitrary, WalletType } from "graz";
+ * import { installMockWalletConnect } from "graz/testing";
+ *
+ * const peer = installMockWalletConnect({ peer: "leap" });
+ * await connect({ chain: mainnetChains.cosmoshub, walletType: WalletType.WALLETCONNECT });
+ * expect(peer.requests[0]?.method).toBe("cosmos_getAccounts");
+ * ```
+ */
+export const installMockWalletConnect = (options?: MockWalletConnectOptions): MockWalletConnect => {
+  const mock = createMockWalletConnect(options);
+  useGrazInternalStore.setState(({ walletConnect }) => ({
+    _signClientFactory: mock.signClientFactory,
+    walletConnect: {
+      ...walletConnect,
+      options: { ...walletConnect?.options, projectId: walletConnect?.options?.projectId || "graz-testing" },
+      // skip web3modal, pairings are approved by the peer
+      onUri: walletConnect?.onUri || (() => undefined),
+    },
+  }));
+  useGrazSessionStore.setState({ wcSignClient: null });
+  return mock;
+};
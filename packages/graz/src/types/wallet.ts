@@ -1,5 +1,7 @@
 import type { Keplr } from "@keplr-wallet/types";
 
+import type { GrazChain } from "../chains";
+
 export enum WalletType {
   KEPLR = "keplr",
   LEAP = "leap",
@@ -12,6 +14,10 @@ export enum WalletType {
   WC_LEAP_MOBILE = "wc_leap_mobile",
   // eslint-disable-next-line @typescript-eslint/naming-convention
   WC_COSMOSTATION_MOBILE = "wc_cosmostation_mobile",
+  LOCAL = "local",
+  LEDGER = "ledger",
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  METAMASK_SNAP_LEAP = "metamask_snap_leap",
 }
 
 export const WALLET_TYPES = [
@@ -23,8 +29,17 @@ export const WALLET_TYPES = [
   WalletType.WC_KEPLR_MOBILE,
   WalletType.WC_LEAP_MOBILE,
   WalletType.WC_COSMOSTATION_MOBILE,
+  WalletType.LOCAL,
+  WalletType.LEDGER,
+  WalletType.METAMASK_SNAP_LEAP,
 ];
 
+/**
+ * Identifier of a wallet, either a built-in {@link WalletType} or an `id` of a registered `GrazAdapter`
+ */
+// eslint-disable-next-line @typescript-eslint/ban-types
+export type WalletId = WalletType | (string & {});
+
 export type Wallet = Pick<
   Keplr,
   | "enable"
@@ -35,7 +50,15 @@ export type Wallet = Pick<
   | "experimentalSuggestChain"
   | "signDirect"
   | "signAmino"
+  | "signArbitrary"
+  | "verifyArbitrary"
 > & {
-  subscription?: (reconnect: () => void) => void;
-  init?: () => Promise<unknown>;
+  /**
+   * listen to account changes of the wallet, returns a function to remove the listeners
+   */
+  subscription?: (reconnect: () => void) => () => void;
+  /**
+   * called with the chains being connected before enabling them
+   */
+  init?: (chains?: GrazChain[]) => Promise<unknown>;
 };
@@ -0,0 +1,133 @@
+import type { AminoSignResponse, StdSignature, StdSignDoc } from "@cosmjs/amino";
+import type { AccountData, Algo, DirectSignResponse } from "@cosmjs/proto-signing";
+import type { SignDoc } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+// eslint-disable-next-line import/no-named-as-default
+import Long from "long";
+
+/**
+ * Bytes as sent by WalletConnect peers, either an encoded string or a JSON serialized `Uint8Array`
+ */
+export type WalletConnectBytes = string | number[] | Record<string, number>;
+
+export interface WalletConnectAccount {
+  address: string;
+  algo: string;
+  pubkey: WalletConnectBytes;
+}
+
+export interface WalletConnectSignDirectSigned {
+  chainId: string;
+  accountNumber: string | number | { low: number; high: number; unsigned: boolean };
+  authInfoBytes: WalletConnectBytes;
+  bodyBytes: WalletConnectBytes;
+}
+
+export interface WalletConnectSignDirectResponse {
+  signature: StdSignature;
+  signed?: WalletConnectSignDirectSigned;
+}
+
+export interface WalletConnectSignAminoResponse {
+  signature: StdSignature;
+  signed?: StdSignDoc;
+}
+
+export type WalletConnectSignArbitraryResponse = StdSignature;
+
+/**
+ * Encoding of bytes in requests and responses of given WalletConnect peer, Cosmostation mobile uses hex while Keplr
+ * and Leap mobile use base64
+ */
+export const getWalletConnectPeerEncoding = (peerName?: string): BufferEncoding => {
+  return peerName?.toLowerCase().includes("cosmostation") ? "hex" : "base64";
+};
+
+export const encodeWalletConnectBytes = (value: Uint8Array, encoding: BufferEncoding): string => {
+  return Buffer.from(value).toString(encoding);
+};
+
+// secp256k1 signatures of cosmos sdk chains
+const SIGNATURE_LENGTH = 64;
+
+const decodeWalletConnectString = (value: string, encoding: BufferEncoding): Uint8Array => {
+  return new Uint8Array(Buffer.from(encoding === "hex" ? value.replace(/^0x/iu, "") : value, encoding));
+};
+
+/**
+ * Decodes bytes in given peer encoding. If the expected `length` is known and decoding yields a different length,
+ * the other encoding is tried, e.g. for base64 signatures of Cosmostation mobile
+ */
+export const decodeWalletConnectBytes = (
+  value: WalletConnectBytes,
+  encoding: BufferEncoding,
+  length?: number,
+): Uint8Array => {
+  if (Array.isArray(value)) return new Uint8Array(value);
+  if (typeof value === "object") return new Uint8Array(Object.values(value));
+  const bytes = decodeWalletConnectString(value, encoding);
+  if (length === undefined || bytes.length === length) return bytes;
+  const fallback = decodeWalletConnectString(value, encoding === "hex" ? "base64" : "hex");
+  return fallback.length === length ? fallback : bytes;
+};
+
+// signatures are base64 encoded regardless of the peer encoding
+const normalizeSignature = (signature: StdSignature, encoding: BufferEncoding): StdSignature => ({
+  ...signature,
+  signature: Buffer.from(decodeWalletConnectBytes(signature.signature, encoding, SIGNATURE_LENGTH)).toString("base64"),
+});
+
+export const normalizeWalletConnectAccount = (account: WalletConnectAccount, encoding: BufferEncoding): AccountData => {
+  return {
+    address: account.address,
+    algo: account.algo as Algo,
+    pubkey: decodeWalletConnectBytes(account.pubkey, encoding),
+  };
+};
+
+/**
+ * Normalizes `cosmos_signDirect` response of given peer encoding, falling back to the requested sign doc if the peer
+ * does not return the signed doc
+ */
+export const normalizeWalletConnectSignDirectResponse = (
+  response: WalletConnectSignDirectResponse,
+  signDoc: SignDoc,
+  encoding: BufferEncoding,
+): DirectSignResponse => {
+  const { signed } = response;
+  return {
+    signed: signed
+      ? {
+          chainId: signed.chainId,
+          accountNumber: Long.fromValue(signed.accountNumber),
+          authInfoBytes: decodeWalletConnectBytes(signed.authInfoBytes, encoding),
+          bodyBytes: decodeWalletConnectBytes(signed.bodyBytes, encoding),
+        }
+      : signDoc,
+    signature: normalizeSignature(response.signature, encoding),
+  };
+};
+
+/**
+ * Normalizes `cosmos_signAmino` response of given peer encoding, falling back to the requested sign doc if the peer
+ * does not return the signed doc
+ */
+export const normalizeWalletConnectSignAminoResponse = (
+  response: WalletConnectSignAminoResponse,
+  signDoc: StdSignDoc,
+  encoding: BufferEncoding,
+): AminoSignResponse => {
+  return {
+    signed: response.signed || signDoc,
+    signature: normalizeSignature(response.signature, encoding),
+  };
+};
+
+/**
+ * Normalizes `cosmos_signArbitrary` response of given peer encoding
+ */
+export const normalizeWalletConnectSignArbitraryResponse = (
+  response: WalletConnectSignArbitraryResponse,
+  encoding: BufferEncoding,
+): StdSignature => {
+  return normalizeSignature(response, encoding);
+};